@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { DEFAULT_TENANT_ID } from '../../src/tenants/tenant.constants';
 
 const prisma = new PrismaClient();
 
@@ -9,11 +10,13 @@ async function seedDatabase(): Promise<void> {
   console.log('Starting database seed...');
 
   try {
-    // Clear existing data
-    await prisma.businessInsight.deleteMany();
-    await prisma.performanceHourly.deleteMany();
-    await prisma.userActionsHourly.deleteMany();
-    await prisma.pageViewsHourly.deleteMany();
+    // Clear existing data of the default tenant
+    const where = { tenantId: DEFAULT_TENANT_ID };
+    await prisma.businessInsight.deleteMany({ where });
+    await prisma.bookingsHourly.deleteMany({ where });
+    await prisma.performanceHourly.deleteMany({ where });
+    await prisma.userActionsHourly.deleteMany({ where });
+    await prisma.pageViewsHourly.deleteMany({ where });
 
     const pages = [
       { path: '/coorg-adventure-trek', category: 'Adventure' },
@@ -138,10 +141,44 @@ async function seedDatabase(): Promise<void> {
                     region,
                   },
                 });
+
+                // Conversions are bookings of the page's package
+                let bookingValue = getRandomInt(15000, 25000); // INR
+                let cancellationRate = getRandomInt(2, 8); // percentage
+
+                // Anomaly 5: Revenue drop on goa-beach-resort (cheaper bookings, recent 6 hours)
+                if (page.path === '/goa-beach-resort' && i <= 5 && i >= 3) {
+                  bookingValue = Math.round(bookingValue * 0.4); // -60% decrease
+                }
+
+                // Anomaly 6: Cancellation spike on andaman-diving (recent 6 hours)
+                if (page.path === '/andaman-diving' && i <= 4 && i >= 2) {
+                  cancellationRate = cancellationRate * 5; // +400% increase
+                }
+
+                await prisma.bookingsHourly.create({
+                  data: {
+                    timestamp,
+                    page: page.path,
+                    pageCategory: page.category,
+                    package: page.path.slice(1),
+                    currency: 'INR',
+                    bookingCount: conversionCount,
+                    cancellationCount: Math.round(
+                      (conversionCount * cancellationRate) / 100,
+                    ),
+                    revenue: conversionCount * bookingValue,
+                    cancellationRate,
+                    deviceType: device,
+                    referrer,
+                    region,
+                  },
+                });
               }
 
-              // Create performance record (every 3rd combination)
-              if (j % 3 === 0 && k % 2 === 0) {
+              // Create performance record (one referrer per page/device/region
+              // bucket, since performance is not tracked per referrer)
+              if (j === 0 && k % 2 === 0) {
                 await prisma.performanceHourly.create({
                   data: {
                     timestamp,
@@ -160,6 +197,25 @@ async function seedDatabase(): Promise<void> {
       }
     }
 
+    // Default funnel from package pages through checkout to booking
+    await prisma.funnel.deleteMany({ where });
+    await prisma.funnel.create({
+      data: {
+        name: 'Package page to booking',
+        steps: [
+          {
+            name: 'Package page',
+            metric: 'pageviews',
+            pageCategories: [...new Set(pages.map((p) => p.category))].filter(
+              (category) => category !== 'Checkout',
+            ),
+          },
+          { name: 'Checkout', metric: 'pageviews', pages: ['/checkout'] },
+          { name: 'Booking', metric: 'conversions', pages: ['/checkout'] },
+        ],
+      },
+    });
+
     console.log('Database seed completed successfully!');
   } catch (error) {
     console.error('Seed failed:', error);
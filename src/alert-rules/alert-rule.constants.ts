@@ -0,0 +1,29 @@
+export const ALERT_RULE_METRICS = [
+  'PageViews',
+  'Session Duration',
+  'Bounce Rate',
+  'Conversion Rate',
+  'Load Time',
+  'Error Rate',
+  'Bookings',
+  'Revenue',
+  'Cancellation Rate',
+] as const;
+
+export const THRESHOLD_TYPES = ['sigma', 'absolute', 'percentage'] as const;
+
+export const ALERT_DIRECTIONS = ['up', 'down', 'both'] as const;
+
+export const BASELINE_STRATEGIES = [
+  'flat',
+  'same_hour_of_day',
+  'same_hour_of_week',
+] as const;
+
+export const ANOMALY_ALGORITHMS = ['zscore', 'mad', 'ewma', 'iqr'] as const;
+
+export type AlertRuleMetric = (typeof ALERT_RULE_METRICS)[number];
+export type ThresholdType = (typeof THRESHOLD_TYPES)[number];
+export type AlertDirection = (typeof ALERT_DIRECTIONS)[number];
+export type BaselineStrategy = (typeof BASELINE_STRATEGIES)[number];
+export type AnomalyAlgorithmName = (typeof ANOMALY_ALGORITHMS)[number];
@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AlertRule } from '@prisma/client';
+import { AlertRulesService } from './alert-rules.service';
+import { CreateAlertRuleDto } from './dto/create-alert-rule.dto';
+import { UpdateAlertRuleDto } from './dto/update-alert-rule.dto';
+import { AlertRuleQueryDto } from './dto/alert-rule-query.dto';
+import { TenantId } from '../tenants/tenant.decorator';
+import { RequireRole } from '../auth/roles.decorator';
+
+@Controller('alert-rules')
+export class AlertRulesController {
+  constructor(private readonly alertRulesService: AlertRulesService) {}
+
+  @Post()
+  @RequireRole('admin')
+  async create(
+    @TenantId() tenantId: string,
+    @Body() dto: CreateAlertRuleDto,
+  ): Promise<AlertRule> {
+    return this.alertRulesService.create(tenantId, dto);
+  }
+
+  @Get()
+  async findAll(
+    @TenantId() tenantId: string,
+    @Query() query: AlertRuleQueryDto,
+  ): Promise<AlertRule[]> {
+    return this.alertRulesService.findAll(tenantId, query);
+  }
+
+  @Get(':id')
+  async findOne(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<AlertRule> {
+    return this.alertRulesService.findOne(tenantId, id);
+  }
+
+  @Patch(':id')
+  @RequireRole('admin')
+  async update(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateAlertRuleDto,
+  ): Promise<AlertRule> {
+    return this.alertRulesService.update(tenantId, id, dto);
+  }
+
+  @Delete(':id')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.alertRulesService.remove(tenantId, id);
+  }
+}
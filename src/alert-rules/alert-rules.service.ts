@@ -0,0 +1,134 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { AlertRule } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { CreateAlertRuleDto } from './dto/create-alert-rule.dto';
+import { UpdateAlertRuleDto } from './dto/update-alert-rule.dto';
+import { AlertRuleQueryDto } from './dto/alert-rule-query.dto';
+import {
+  AlertRuleScope,
+  ResolvedAlertRule,
+} from './interfaces/alert-rule.interface';
+import {
+  AlertDirection,
+  AnomalyAlgorithmName,
+  BaselineStrategy,
+  ThresholdType,
+} from './alert-rule.constants';
+
+/**
+ * Applied when no enabled rule matches a metric (z-score, 2.5σ in either direction)
+ */
+export const DEFAULT_ALERT_RULE: ResolvedAlertRule = {
+  id: null,
+  thresholdType: 'sigma',
+  threshold: 2.5,
+  minBaselineHours: 0,
+  direction: 'both',
+  baselineStrategy: 'flat',
+  baselinePeriods: 7,
+  algorithm: 'zscore',
+};
+
+const SCOPE_FIELDS: (keyof AlertRuleScope)[] = [
+  'page',
+  'pageCategory',
+  'deviceType',
+  'region',
+];
+
+@Injectable()
+export class AlertRulesService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(tenantId: string, dto: CreateAlertRuleDto): Promise<AlertRule> {
+    return this.prisma.alertRule.create({ data: { ...dto, tenantId } });
+  }
+
+  async findAll(
+    tenantId: string,
+    query: AlertRuleQueryDto = {},
+  ): Promise<AlertRule[]> {
+    return this.prisma.alertRule.findMany({
+      where: { tenantId, metric: query.metric, enabled: query.enabled },
+      orderBy: [{ metric: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  async findOne(tenantId: string, id: number): Promise<AlertRule> {
+    const rule = await this.prisma.alertRule.findFirst({
+      where: { id, tenantId },
+    });
+    if (!rule) {
+      throw new NotFoundException(`Alert rule ${id} not found`);
+    }
+    return rule;
+  }
+
+  async update(
+    tenantId: string,
+    id: number,
+    dto: UpdateAlertRuleDto,
+  ): Promise<AlertRule> {
+    await this.findOne(tenantId, id);
+    return this.prisma.alertRule.update({ where: { id }, data: dto });
+  }
+
+  async remove(tenantId: string, id: number): Promise<void> {
+    await this.findOne(tenantId, id);
+    await this.prisma.alertRule.delete({ where: { id } });
+  }
+
+  /**
+   * Load every enabled rule of the tenant once per detection run; each
+   * tenant configures its own thresholds
+   */
+  async findEnabledRules(tenantId: string): Promise<AlertRule[]> {
+    return this.prisma.alertRule.findMany({
+      where: { tenantId, enabled: true },
+    });
+  }
+
+  /**
+   * Pick the most specific rule for a metric and scope.
+   * A rule matches when each scope field it sets equals the evaluated value;
+   * ties on specificity go to the most recently updated rule.
+   */
+  resolveRule(
+    rules: AlertRule[],
+    metric: string,
+    scope: AlertRuleScope,
+  ): ResolvedAlertRule {
+    let best: AlertRule | null = null;
+    let bestSpecificity = -1;
+
+    for (const rule of rules) {
+      if (rule.metric !== metric) continue;
+
+      const fields = SCOPE_FIELDS.filter((field) => rule[field] !== null);
+      if (!fields.every((field) => rule[field] === scope[field])) continue;
+
+      if (
+        fields.length > bestSpecificity ||
+        (fields.length === bestSpecificity &&
+          best !== null &&
+          rule.updatedAt > best.updatedAt)
+      ) {
+        best = rule;
+        bestSpecificity = fields.length;
+      }
+    }
+
+    if (!best) return DEFAULT_ALERT_RULE;
+
+    return {
+      id: best.id,
+      thresholdType: best.thresholdType as ThresholdType,
+      threshold: best.threshold,
+      minBaselineHours: best.minBaselineHours,
+      direction: best.direction as AlertDirection,
+      baselineStrategy: best.baselineStrategy as BaselineStrategy,
+      baselinePeriods: best.baselinePeriods,
+      algorithm: best.algorithm as AnomalyAlgorithmName,
+    };
+  }
+}
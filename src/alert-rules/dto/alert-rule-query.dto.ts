@@ -0,0 +1,15 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import { ALERT_RULE_METRICS } from '../alert-rule.constants';
+import type { AlertRuleMetric } from '../alert-rule.constants';
+
+export class AlertRuleQueryDto {
+  @IsOptional()
+  @IsIn(ALERT_RULE_METRICS)
+  metric?: AlertRuleMetric;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === '1')
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,97 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import {
+  ALERT_DIRECTIONS,
+  ALERT_RULE_METRICS,
+  ANOMALY_ALGORITHMS,
+  BASELINE_STRATEGIES,
+  THRESHOLD_TYPES,
+} from '../alert-rule.constants';
+import type {
+  AlertDirection,
+  AlertRuleMetric,
+  AnomalyAlgorithmName,
+  BaselineStrategy,
+  ThresholdType,
+} from '../alert-rule.constants';
+
+export class CreateAlertRuleDto {
+  @IsOptional()
+  @IsString()
+  name?: string;
+
+  @IsIn(ALERT_RULE_METRICS)
+  metric: AlertRuleMetric;
+
+  @IsOptional()
+  @IsIn(THRESHOLD_TYPES)
+  thresholdType?: ThresholdType;
+
+  @IsNumber()
+  @Min(0)
+  threshold: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  minBaselineHours?: number;
+
+  @IsOptional()
+  @IsIn(ALERT_DIRECTIONS)
+  direction?: AlertDirection;
+
+  /**
+   * zscore (mean/σ), mad (median/MAD), ewma (control chart) or iqr (Tukey fences)
+   */
+  @IsOptional()
+  @IsIn(ANOMALY_ALGORITHMS)
+  algorithm?: AnomalyAlgorithmName;
+
+  @IsOptional()
+  @IsIn(BASELINE_STRATEGIES)
+  baselineStrategy?: BaselineStrategy;
+
+  /**
+   * Days (same_hour_of_day) or weeks (same_hour_of_week) to look back
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(30)
+  baselinePeriods?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  // Optional scope; unset dimensions match everything
+  @IsOptional()
+  @IsString()
+  @Matches(/^\//, { message: 'page must be a path starting with "/"' })
+  page?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  pageCategory?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  deviceType?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  region?: string;
+}
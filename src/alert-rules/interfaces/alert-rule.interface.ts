@@ -0,0 +1,31 @@
+import {
+  AlertDirection,
+  AnomalyAlgorithmName,
+  BaselineStrategy,
+  ThresholdType,
+} from '../alert-rule.constants';
+
+/**
+ * Threshold settings applied to a single metric evaluation.
+ * `id` is null for the built-in default (z-score, 2.5σ, both directions, flat baseline).
+ */
+export interface ResolvedAlertRule {
+  id: number | null;
+  thresholdType: ThresholdType;
+  threshold: number;
+  minBaselineHours: number;
+  direction: AlertDirection;
+  baselineStrategy: BaselineStrategy;
+  baselinePeriods: number;
+  algorithm: AnomalyAlgorithmName;
+}
+
+/**
+ * Dimensions a rule can be scoped by; unset rule fields match anything
+ */
+export interface AlertRuleScope {
+  page?: string;
+  pageCategory?: string;
+  deviceType?: string;
+  region?: string;
+}
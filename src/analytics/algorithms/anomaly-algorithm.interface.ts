@@ -0,0 +1,22 @@
+import { AnomalyAlgorithmName } from '../../alert-rules/alert-rule.constants';
+
+/**
+ * A baseline summarized by an algorithm, ready to score recent values
+ */
+export interface FittedBaseline {
+  expected: number; // centre the recent value is compared against
+  spread: number; // scale used to standardize deviations
+  /**
+   * Signed, standardized deviation (positive above expected).
+   * Compared against `sigma` alert-rule thresholds.
+   */
+  score(value: number): number;
+}
+
+export interface AnomalyAlgorithm {
+  readonly name: AnomalyAlgorithmName;
+  /**
+   * Fit to baseline values in chronological order
+   */
+  fit(baseline: number[]): FittedBaseline;
+}
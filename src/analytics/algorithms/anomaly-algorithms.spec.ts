@@ -0,0 +1,46 @@
+import { getAnomalyAlgorithm } from './anomaly-algorithms';
+
+describe('anomaly algorithms', () => {
+  // Steady traffic with one earlier spike in the baseline
+  const baseline = [100, 104, 98, 101, 99, 103, 97, 102, 100, 480, 101, 99];
+
+  it('z-score lets a prior spike inflate σ and mask a new one', () => {
+    const fitted = getAnomalyAlgorithm('zscore').fit(baseline);
+
+    expect(fitted.score(300)).toBeLessThan(2.5);
+  });
+
+  it('MAD ignores the prior spike and flags the new one', () => {
+    const fitted = getAnomalyAlgorithm('mad').fit(baseline);
+
+    expect(fitted.expected).toBe(100.5);
+    expect(fitted.score(300)).toBeGreaterThan(2.5);
+    expect(Math.abs(fitted.score(102))).toBeLessThan(1);
+  });
+
+  it('IQR scores distance beyond the quartiles in IQRs', () => {
+    const fitted = getAnomalyAlgorithm('iqr').fit([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+
+    expect(fitted.spread).toBe(4);
+    expect(fitted.score(5)).toBe(0);
+    expect(fitted.score(13)).toBe(1.5);
+    expect(fitted.score(-1)).toBe(-1);
+  });
+
+  it('EWMA tracks the most recent level of the baseline', () => {
+    const fitted = getAnomalyAlgorithm('ewma').fit([
+      100, 100, 100, 100, 200, 200, 200, 200,
+    ]);
+
+    expect(fitted.expected).toBeGreaterThan(150);
+    expect(fitted.score(fitted.expected)).toBe(0);
+  });
+
+  it('treats any deviation from a constant baseline as infinite', () => {
+    const fitted = getAnomalyAlgorithm('zscore').fit([5, 5, 5]);
+
+    expect(fitted.score(5)).toBe(0);
+    expect(fitted.score(6)).toBe(Infinity);
+    expect(fitted.score(4)).toBe(-Infinity);
+  });
+});
@@ -0,0 +1,19 @@
+import { AnomalyAlgorithmName } from '../../alert-rules/alert-rule.constants';
+import { AnomalyAlgorithm } from './anomaly-algorithm.interface';
+import { EwmaAlgorithm } from './ewma.algorithm';
+import { IqrAlgorithm } from './iqr.algorithm';
+import { MadAlgorithm } from './mad.algorithm';
+import { ZScoreAlgorithm } from './z-score.algorithm';
+
+const ALGORITHMS: Record<AnomalyAlgorithmName, AnomalyAlgorithm> = {
+  zscore: new ZScoreAlgorithm(),
+  mad: new MadAlgorithm(),
+  ewma: new EwmaAlgorithm(),
+  iqr: new IqrAlgorithm(),
+};
+
+export function getAnomalyAlgorithm(
+  name: AnomalyAlgorithmName,
+): AnomalyAlgorithm {
+  return ALGORITHMS[name];
+}
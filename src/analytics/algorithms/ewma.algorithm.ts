@@ -0,0 +1,36 @@
+import {
+  AnomalyAlgorithm,
+  FittedBaseline,
+} from './anomaly-algorithm.interface';
+import { mean, standardize, stdDev } from './statistics';
+
+// Weight of the newest observation; lower values smooth more
+const DEFAULT_LAMBDA = 0.3;
+
+/**
+ * EWMA control chart: the expected value is the exponentially weighted moving
+ * average of the baseline, and the control limit uses the asymptotic EWMA
+ * standard deviation σ × √(λ / (2 − λ)).
+ */
+export class EwmaAlgorithm implements AnomalyAlgorithm {
+  readonly name = 'ewma' as const;
+
+  constructor(private readonly lambda = DEFAULT_LAMBDA) {}
+
+  fit(baseline: number[]): FittedBaseline {
+    const baselineMean = mean(baseline);
+    let expected = baselineMean;
+    for (const value of baseline) {
+      expected = this.lambda * value + (1 - this.lambda) * expected;
+    }
+    const spread =
+      stdDev(baseline, baselineMean) *
+      Math.sqrt(this.lambda / (2 - this.lambda));
+
+    return {
+      expected,
+      spread,
+      score: (value) => standardize(value - expected, spread),
+    };
+  }
+}
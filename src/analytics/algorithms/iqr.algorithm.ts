@@ -0,0 +1,30 @@
+import {
+  AnomalyAlgorithm,
+  FittedBaseline,
+} from './anomaly-algorithm.interface';
+import { quantile, standardize } from './statistics';
+
+/**
+ * Tukey's IQR fences. The score is the distance beyond Q1/Q3 in IQRs, so a
+ * `sigma` threshold acts as the fence multiplier k (1.5 is Tukey's classic fence).
+ */
+export class IqrAlgorithm implements AnomalyAlgorithm {
+  readonly name = 'iqr' as const;
+
+  fit(baseline: number[]): FittedBaseline {
+    const sorted = [...baseline].sort((a, b) => a - b);
+    const q1 = quantile(sorted, 0.25);
+    const q3 = quantile(sorted, 0.75);
+    const spread = q3 - q1;
+
+    return {
+      expected: quantile(sorted, 0.5),
+      spread,
+      score: (value) => {
+        if (value > q3) return standardize(value - q3, spread);
+        if (value < q1) return standardize(value - q1, spread);
+        return 0;
+      },
+    };
+  }
+}
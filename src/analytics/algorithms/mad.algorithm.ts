@@ -0,0 +1,31 @@
+import {
+  AnomalyAlgorithm,
+  FittedBaseline,
+} from './anomaly-algorithm.interface';
+import { quantile, standardize } from './statistics';
+
+// Scales the MAD so it estimates σ for normally distributed data
+const MAD_SCALE = 1.4826;
+
+/**
+ * Robust z-score using the median and median absolute deviation (MAD).
+ * A single prior spike barely moves either, so it cannot mask the next one.
+ */
+export class MadAlgorithm implements AnomalyAlgorithm {
+  readonly name = 'mad' as const;
+
+  fit(baseline: number[]): FittedBaseline {
+    const sorted = [...baseline].sort((a, b) => a - b);
+    const median = quantile(sorted, 0.5);
+    const deviations = baseline
+      .map((value) => Math.abs(value - median))
+      .sort((a, b) => a - b);
+    const spread = quantile(deviations, 0.5) * MAD_SCALE;
+
+    return {
+      expected: median,
+      spread,
+      score: (value) => standardize(value - median, spread),
+    };
+  }
+}
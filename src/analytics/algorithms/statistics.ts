@@ -0,0 +1,35 @@
+export function mean(values: number[]): number {
+  if (values.length === 0) return 0;
+  return values.reduce((sum, val) => sum + val, 0) / values.length;
+}
+
+/**
+ * Population standard deviation
+ */
+export function stdDev(values: number[], valuesMean = mean(values)): number {
+  if (values.length === 0) return 0;
+  const variance =
+    values.reduce((sum, val) => sum + Math.pow(val - valuesMean, 2), 0) /
+    values.length;
+  return Math.sqrt(variance);
+}
+
+/**
+ * Linear-interpolated quantile of already sorted values
+ */
+export function quantile(sorted: number[], q: number): number {
+  if (sorted.length === 0) return 0;
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Divide a deviation by its spread; a zero spread makes any deviation infinite
+ */
+export function standardize(deviation: number, spread: number): number {
+  if (spread > 0) return deviation / spread;
+  if (deviation === 0) return 0;
+  return deviation > 0 ? Infinity : -Infinity;
+}
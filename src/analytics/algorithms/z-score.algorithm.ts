@@ -0,0 +1,23 @@
+import {
+  AnomalyAlgorithm,
+  FittedBaseline,
+} from './anomaly-algorithm.interface';
+import { mean, standardize, stdDev } from './statistics';
+
+/**
+ * Classic z-score: distance from the baseline mean in population standard deviations
+ */
+export class ZScoreAlgorithm implements AnomalyAlgorithm {
+  readonly name = 'zscore' as const;
+
+  fit(baseline: number[]): FittedBaseline {
+    const expected = mean(baseline);
+    const spread = stdDev(baseline, expected);
+
+    return {
+      expected,
+      spread,
+      score: (value) => standardize(value - expected, spread),
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { AnalyticsService } from './analytics.service';
+import { ForecastService } from './forecast.service';
+import { TimeseriesQueryDto } from './dto/timeseries-query.dto';
+import { TimeseriesResponseDto } from './dto/timeseries-response.dto';
+import { ForecastQueryDto } from './dto/forecast-query.dto';
+import { ForecastResponseDto } from './dto/forecast-response.dto';
+import { TenantId } from '../tenants/tenant.decorator';
+
+@Controller('analytics')
+export class AnalyticsController {
+  constructor(
+    private readonly analyticsService: AnalyticsService,
+    private readonly forecastService: ForecastService,
+  ) {}
+
+  @Get('timeseries')
+  async getTimeseries(
+    @TenantId() tenantId: string,
+    @Query() query: TimeseriesQueryDto,
+  ): Promise<TimeseriesResponseDto> {
+    const result = await this.analyticsService.getTimeseries(tenantId, query);
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      metric: result.metric,
+      aggregation: result.aggregation,
+      granularity: result.granularity,
+      from: result.from.toISOString(),
+      to: result.to.toISOString(),
+      groupBy: result.groupBy,
+      filters: result.filters,
+      series: result.series.map((series) => ({
+        group: series.group,
+        points: series.points.map((point) => ({
+          timestamp: point.timestamp.toISOString(),
+          value: point.value,
+        })),
+      })),
+    };
+  }
+
+  @Get('forecast')
+  async getForecast(
+    @TenantId() tenantId: string,
+    @Query() query: ForecastQueryDto,
+  ): Promise<ForecastResponseDto> {
+    const result = await this.forecastService.forecast(tenantId, query);
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      metric: result.metric,
+      page: result.page,
+      model: result.model,
+      level: result.level,
+      horizon: result.horizon,
+      historyFrom: result.historyFrom.toISOString(),
+      historyTo: result.historyTo.toISOString(),
+      points: result.points.map((point) => ({
+        timestamp: point.timestamp.toISOString(),
+        value: point.value,
+        lower: point.lower,
+        upper: point.upper,
+      })),
+    };
+  }
+}
@@ -1,10 +1,25 @@
 import { Module } from '@nestjs/common';
+import { AnalyticsController } from './analytics.controller';
 import { AnalyticsService } from './analytics.service';
 import { AnomalyDetectorService } from './anomaly-detector.service';
+import { ContributionAnalysisService } from './contribution-analysis.service';
+import { ForecastService } from './forecast.service';
+import { AlertRulesModule } from '../alert-rules/alert-rules.module';
 
 @Module({
-  providers: [AnalyticsService, AnomalyDetectorService],
-  exports: [AnalyticsService, AnomalyDetectorService],
+  imports: [AlertRulesModule],
+  controllers: [AnalyticsController],
+  providers: [
+    AnalyticsService,
+    AnomalyDetectorService,
+    ContributionAnalysisService,
+    ForecastService,
+  ],
+  exports: [
+    AnalyticsService,
+    AnomalyDetectorService,
+    ContributionAnalysisService,
+    ForecastService,
+  ],
 })
 export class AnalyticsModule {}
-
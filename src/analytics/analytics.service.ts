@@ -1,5 +1,41 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, Injectable } from '@nestjs/common';
 import { PrismaService } from 'prisma/prisma.service';
+import {
+  METRIC_DEFINITIONS,
+  SOURCE_DIMENSIONS,
+} from './metrics/metric-definitions';
+import { TimeGranularity, metricSeriesSql } from './metrics/metric-series';
+import {
+  SLICE_DIMENSIONS,
+  SliceDimension,
+  SliceFilter,
+  SliceKey,
+} from './interfaces/slice.interface';
+import {
+  Timeseries,
+  TimeseriesOptions,
+  TimeseriesResult,
+} from './interfaces/timeseries.interface';
+import { formatSliceKey } from './slices';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const BUCKET_HOURS: Record<TimeGranularity, number> = {
+  hour: 1,
+  day: 24,
+  week: 24 * 7,
+};
+
+/**
+ * Range returned when `from` is omitted: 24 hours, 30 days or 12 weeks
+ */
+const DEFAULT_BUCKETS: Record<TimeGranularity, number> = {
+  hour: 24,
+  day: 30,
+  week: 12,
+};
+
+export const MAX_TIMESERIES_BUCKETS = 2000;
 
 @Injectable()
 export class AnalyticsService {
@@ -8,18 +44,27 @@ export class AnalyticsService {
   /**
    * Get raw aggregated data for testing/debugging
    */
-  async getRawData(limit: number = 100) {
+  async getRawData(tenantId: string, limit: number = 100) {
     const pageviews = await this.prisma.pageViewsHourly.findMany({
+      where: { tenantId },
       take: limit,
       orderBy: { timestamp: 'desc' },
     });
 
     const userActions = await this.prisma.userActionsHourly.findMany({
+      where: { tenantId },
       take: limit,
       orderBy: { timestamp: 'desc' },
     });
 
     const performance = await this.prisma.performanceHourly.findMany({
+      where: { tenantId },
+      take: limit,
+      orderBy: { timestamp: 'desc' },
+    });
+
+    const bookings = await this.prisma.bookingsHourly.findMany({
+      where: { tenantId },
       take: limit,
       orderBy: { timestamp: 'desc' },
     });
@@ -28,7 +73,128 @@ export class AnalyticsService {
       pageviews,
       userActions,
       performance,
+      bookings,
     };
   }
-}
 
+  /**
+   * Bucketed series of one metric, optionally split by dimensions and
+   * filtered. Counts are summed per bucket; rates and durations are averaged
+   * weighted by sessions/samples (plain averages where counts are missing).
+   */
+  async getTimeseries(
+    tenantId: string,
+    options: TimeseriesOptions,
+  ): Promise<TimeseriesResult> {
+    const definition = METRIC_DEFINITIONS.find(
+      (d) => d.metric === options.metric || d.field === options.metric,
+    );
+    if (!definition) {
+      throw new BadRequestException(`Unknown metric ${options.metric}`);
+    }
+
+    const granularity = options.granularity ?? 'hour';
+    const bucketMs = BUCKET_HOURS[granularity] * HOUR_MS;
+    const to = options.to ?? new Date();
+    const from =
+      options.from ??
+      new Date(to.getTime() - DEFAULT_BUCKETS[granularity] * bucketMs);
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    if ((to.getTime() - from.getTime()) / bucketMs > MAX_TIMESERIES_BUCKETS) {
+      throw new BadRequestException(
+        `Range too large: at most ${MAX_TIMESERIES_BUCKETS} ${granularity} buckets per request`,
+      );
+    }
+
+    const dimensions = SOURCE_DIMENSIONS[definition.source];
+    const groupBy = [...new Set(options.groupBy ?? [])];
+    const untracked = groupBy.filter(
+      (dimension) => !dimensions.includes(dimension),
+    );
+    if (untracked.length > 0) {
+      throw new BadRequestException(
+        `${definition.metric} cannot be grouped by ${untracked.join(', ')}`,
+      );
+    }
+    const filters = this.parseFilters(options.filter ?? {}, dimensions);
+
+    const rows = await this.prisma.$queryRaw<
+      (Record<string, string | number> & { timestamp: Date })[]
+    >(
+      metricSeriesSql({
+        tenantId,
+        source: definition.source,
+        groupBy,
+        from,
+        to,
+        granularity,
+        filters,
+        metrics: [definition],
+      }),
+    );
+
+    const series = new Map<string, Timeseries>();
+    for (const row of rows) {
+      const group: SliceKey = {};
+      for (const dimension of groupBy) {
+        group[dimension] = row[dimension] as string;
+      }
+
+      const key = formatSliceKey(group);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { group, points: [] };
+        series.set(key, entry);
+      }
+      entry.points.push({
+        timestamp: row.timestamp,
+        value: row[definition.field] as number,
+      });
+    }
+
+    return {
+      metric: definition.metric,
+      aggregation:
+        definition.aggregation === 'sum' ? 'sum' : 'weighted_average',
+      granularity,
+      from,
+      to,
+      groupBy,
+      filters,
+      series: [...series.values()],
+    };
+  }
+
+  /**
+   * Validate `filter[dimension]=value` pairs against the metric's table
+   */
+  private parseFilters(
+    filter: Record<string, string | string[]>,
+    dimensions: string[],
+  ): SliceFilter {
+    const filters: SliceFilter = {};
+
+    for (const [dimension, value] of Object.entries(filter)) {
+      if (!(SLICE_DIMENSIONS as readonly string[]).includes(dimension)) {
+        throw new BadRequestException(`Unknown filter dimension ${dimension}`);
+      }
+      if (!dimensions.includes(dimension)) {
+        throw new BadRequestException(
+          `Metric cannot be filtered by ${dimension}`,
+        );
+      }
+
+      const values = Array.isArray(value) ? value : [value];
+      if (!values.every((v) => typeof v === 'string')) {
+        throw new BadRequestException(
+          `filter[${dimension}] must be one or more strings`,
+        );
+      }
+      filters[dimension as SliceDimension] = values;
+    }
+
+    return filters;
+  }
+}
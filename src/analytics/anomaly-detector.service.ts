@@ -1,169 +1,222 @@
 import { Injectable } from '@nestjs/common';
+import { AlertRule } from '@prisma/client';
 import { PrismaService } from 'prisma/prisma.service';
+import { AlertRulesService } from '../alert-rules/alert-rules.service';
+import { ResolvedAlertRule } from '../alert-rules/interfaces/alert-rule.interface';
+import { BaselineStrategy } from '../alert-rules/alert-rule.constants';
 import {
   AnomalyDetectionResult,
+  BaselineSummary,
   CorrelationResult,
 } from '../insights/interfaces/insight.interface';
+import {
+  DEFAULT_BASELINE_HOURS,
+  DEFAULT_RECENT_HOURS,
+  DetectionOptions,
+  DetectionWindow,
+} from './interfaces/detection-window.interface';
+
+import {
+  baselineRangeStart,
+  selectBaselineSamples,
+} from './baselines/baseline-strategies';
+import { getAnomalyAlgorithm } from './algorithms/anomaly-algorithms';
+import { FittedBaseline } from './algorithms/anomaly-algorithm.interface';
+import { mean, standardize, stdDev } from './algorithms/statistics';
+import {
+  FORECAST_SEASON_HOURS,
+  loadForecastDetectionConfig,
+} from './forecasting/forecast.constants';
+import {
+  chooseForecastModel,
+  fillHourlyGaps,
+  predictionIntervals,
+} from './forecasting/forecast-models';
+import {
+  METRIC_DEFINITIONS,
+  METRIC_SOURCES,
+  MetricSource,
+  SOURCE_DIMENSIONS,
+} from './metrics/metric-definitions';
+import { MetricSeriesQuery, metricSeriesSql } from './metrics/metric-series';
+import {
+  GranularDetectionConfig,
+  SliceDimension,
+  SliceKey,
+} from './interfaces/slice.interface';
+import {
+  formatSliceKey,
+  loadCategoryDetectionConfig,
+  loadGranularDetectionConfig,
+} from './slices';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Columns of a rolled-up hourly series row (performance has no referrer,
+ * only bookings have a package and currency; slices only carry the
+ * dimensions they are grouped by)
+ */
+interface HourlyRow {
+  page: string;
+  pageCategory: string;
+  timestamp: Date;
+  deviceType?: string;
+  region?: string;
+  referrer?: string;
+  package?: string;
+  currency?: string;
+}
+
+/**
+ * Series row with its aggregated metric columns looked up by name
+ */
+type HourlyRecord = HourlyRow & Record<string, string | number | Date>;
+
+interface SliceSeries {
+  slice: SliceKey;
+  points: HourlyRecord[];
+}
 
 @Injectable()
 export class AnomalyDetectorService {
-  constructor(private prisma: PrismaService) {}
+  private readonly granularConfig = loadGranularDetectionConfig();
+  private readonly categoryConfig = loadCategoryDetectionConfig();
+  private readonly forecastConfig = loadForecastDetectionConfig();
+
+  constructor(
+    private prisma: PrismaService,
+    private alertRules: AlertRulesService,
+  ) {}
 
   /**
-   * Detect anomalies using statistical analysis (2.5 standard deviations)
-   * Recent period: Last 6 hours
-   * Baseline period: Previous 24 hours (excluding recent 6 hours)
+   * Resolve the recent/baseline ranges for a run.
+   * Defaults: recent = last 6 hours, baseline = previous 24 hours, as of now
    */
-  async detectAnomalies(): Promise<AnomalyDetectionResult[]> {
-    const now = new Date();
-    const recentStart = new Date(now.getTime() - 6 * 60 * 60 * 1000); // 6 hours ago
-    const baselineStart = new Date(now.getTime() - 30 * 60 * 60 * 1000); // 30 hours ago
-    const baselineEnd = new Date(now.getTime() - 6 * 60 * 60 * 1000); // 6 hours ago
+  resolveWindow(options: DetectionOptions = {}): DetectionWindow {
+    const asOf = options.asOf ?? new Date();
+    const recentHours = options.recentHours ?? DEFAULT_RECENT_HOURS;
+    const baselineHours = options.baselineHours ?? DEFAULT_BASELINE_HOURS;
+    const recentStart = new Date(asOf.getTime() - recentHours * HOUR_MS);
 
-    const anomalies: AnomalyDetectionResult[] = [];
-
-    // Get all unique pages
-    const pages = await this.getUniquePages();
-
-    for (const page of pages) {
-      // Detect traffic anomalies (pageviews)
-      const trafficAnomalies = await this.detectTrafficAnomalies(
-        page,
-        recentStart,
-        baselineStart,
-        baselineEnd,
-      );
-      anomalies.push(...trafficAnomalies);
-
-      // Detect engagement anomalies (user actions)
-      const engagementAnomalies = await this.detectEngagementAnomalies(
-        page,
-        recentStart,
-        baselineStart,
-        baselineEnd,
-      );
-      anomalies.push(...engagementAnomalies);
-
-      // Detect performance anomalies
-      const performanceAnomalies = await this.detectPerformanceAnomalies(
-        page,
-        recentStart,
-        baselineStart,
-        baselineEnd,
-      );
-      anomalies.push(...performanceAnomalies);
-    }
-
-    return anomalies;
+    return {
+      asOf,
+      recentHours,
+      baselineHours,
+      recentStart,
+      baselineStart: new Date(recentStart.getTime() - baselineHours * HOUR_MS),
+      baselineEnd: recentStart,
+    };
   }
 
   /**
-   * Detect anomalies at granular level (per page/device/referrer/region)
+   * Detect page-level anomalies by scoring the recent period of the window
+   * against its baseline with each metric's algorithm (default: z-score, 2.5σ).
+   * Each table is rolled up into page × hour series by one grouped query
+   * covering every page, instead of separate queries per page and metric.
+   * With FORECAST_DETECTION enabled, recent hours falling outside the
+   * forecast interval fitted to the preceding weeks are flagged as well.
+   * Only the tenant's metrics are read, judged by the tenant's alert rules.
    */
-  async detectGranularAnomalies(): Promise<AnomalyDetectionResult[]> {
-    const now = new Date();
-    const recentStart = new Date(now.getTime() - 6 * 60 * 60 * 1000);
-    const baselineStart = new Date(now.getTime() - 30 * 60 * 60 * 1000);
-    const baselineEnd = new Date(now.getTime() - 6 * 60 * 60 * 1000);
-
+  async detectAnomalies(
+    tenantId: string,
+    window: DetectionWindow,
+  ): Promise<AnomalyDetectionResult[]> {
     const anomalies: AnomalyDetectionResult[] = [];
+    const rules = await this.alertRules.findEnabledRules(tenantId);
 
-    // Get all unique combinations
-    const combinations = await this.getUniqueCombinations();
-
-    for (const combo of combinations) {
-      const trafficAnomalies = await this.detectTrafficAnomaliesGranular(
-        combo,
-        recentStart,
-        baselineStart,
-        baselineEnd,
-      );
-      anomalies.push(...trafficAnomalies);
+    const forecastStart = new Date(
+      window.recentStart.getTime() -
+        this.forecastConfig.historyDays * 24 * HOUR_MS,
+    );
 
-      const engagementAnomalies = await this.detectEngagementAnomaliesGranular(
-        combo,
-        recentStart,
-        baselineStart,
-        baselineEnd,
-      );
-      anomalies.push(...engagementAnomalies);
+    for (const source of METRIC_SOURCES) {
+      const historyStart = this.sourceHistoryStart(rules, source, window);
+      const rows = await this.fetchSeries({
+        tenantId,
+        source,
+        groupBy: ['page'],
+        from:
+          this.forecastConfig.enabled && forecastStart < historyStart
+            ? forecastStart
+            : historyStart,
+        to: window.asOf,
+        // Describe each page-hour by its dominant device, referrer and region
+        // (and package and currency for bookings)
+        describe: ['deviceType', 'referrer', 'region', 'package', 'currency'],
+      });
 
-      const performanceAnomalies = await this.detectPerformanceAnomaliesGranular(
-        combo,
-        recentStart,
-        baselineStart,
-        baselineEnd,
-      );
-      anomalies.push(...performanceAnomalies);
+      for (const pageRows of groupRows(rows, (row) => row.page).values()) {
+        const pageAnomalies = this.evaluateSeries(
+          pageRows,
+          source,
+          rules,
+          window,
+        );
+        anomalies.push(...pageAnomalies);
+        if (this.forecastConfig.enabled) {
+          anomalies.push(
+            ...this.evaluateForecasts(
+              pageRows,
+              source,
+              window,
+              forecastStart,
+              pageAnomalies,
+            ),
+          );
+        }
+      }
     }
 
     return anomalies;
   }
 
   /**
-   * Detect traffic anomalies (aggregated by page)
+   * Detect anomalies per slice (page×device, page×referrer, category×device, ...).
+   * Each combination is rolled up into one hourly series per slice by a
+   * grouped query per table, and slices below the minimum baseline volume
+   * are skipped as noise.
    */
-  private async detectTrafficAnomalies(
-    page: string,
-    recentStart: Date,
-    baselineStart: Date,
-    baselineEnd: Date,
+  async detectGranularAnomalies(
+    tenantId: string,
+    window: DetectionWindow,
+    config: GranularDetectionConfig = this.granularConfig,
   ): Promise<AnomalyDetectionResult[]> {
     const anomalies: AnomalyDetectionResult[] = [];
+    const rules = await this.alertRules.findEnabledRules(tenantId);
 
-    // Get baseline data (aggregated by hour)
-    const baselineData = await this.prisma.pageViewsHourly.findMany({
-      where: {
-        page,
-        timestamp: {
-          gte: baselineStart,
-          lt: baselineEnd,
-        },
-      },
-    });
-
-    if (baselineData.length === 0) return anomalies;
-
-    // Calculate baseline statistics (aggregate all hours)
-    const baselineValues = baselineData.map((d) => d.viewCount);
-    const baselineMean = this.calculateMean(baselineValues);
-    const baselineStdDev = this.calculateStdDev(baselineValues, baselineMean);
-
-    // Get recent data
-    const recentData = await this.prisma.pageViewsHourly.findMany({
-      where: {
-        page,
-        timestamp: {
-          gte: recentStart,
-        },
-      },
-    });
-
-    // Check each recent hour for anomalies
-    for (const recent of recentData) {
-      const deviation = Math.abs(recent.viewCount - baselineMean);
-      const threshold = 2.5 * baselineStdDev;
+    for (const combination of config.combinations) {
+      const seriesBySource = new Map<MetricSource, Map<string, SliceSeries>>();
 
-      if (deviation > threshold && baselineMean > 0) {
-        const percentageChange =
-          ((recent.viewCount - baselineMean) / baselineMean) * 100;
+      for (const source of METRIC_SOURCES) {
+        const dimensions = SOURCE_DIMENSIONS[source];
+        if (!combination.every((dimension) => dimensions.includes(dimension))) {
+          continue;
+        }
 
-        anomalies.push({
-          page: recent.page,
-          metricType: 'Traffic',
-          metric: 'PageViews',
-          currentValue: recent.viewCount,
-          baselineMean,
-          baselineStdDev,
-          percentageChange,
-          timestamp: recent.timestamp,
-          context: {
-            deviceType: recent.deviceType,
-            region: recent.region,
-            referrer: recent.referrer,
-            pageCategory: recent.pageCategory,
-          },
+        const rows = await this.fetchSeries({
+          tenantId,
+          source,
+          groupBy: combination,
+          from: this.sourceHistoryStart(rules, source, window),
+          to: window.asOf,
         });
+        seriesBySource.set(source, this.toSliceSeries(rows, combination));
+      }
+
+      const volumes = this.sliceVolumes(
+        seriesBySource.get('pageviews') ?? new Map<string, SliceSeries>(),
+        window,
+      );
+
+      for (const [source, series] of seriesBySource) {
+        for (const [key, { slice, points }] of series) {
+          if ((volumes.get(key) ?? 0) < config.minSliceVolume) continue;
+
+          anomalies.push(
+            ...this.evaluateSeries(points, source, rules, window, slice),
+          );
+        }
       }
     }
 
@@ -171,187 +224,158 @@ export class AnomalyDetectorService {
   }
 
   /**
-   * Detect engagement anomalies (aggregated by page)
+   * Detect portfolio-wide anomalies on category rollups (all pages of a
+   * category, optionally by device, referrer or region), which individual
+   * pages are too noisy to reveal
    */
-  private async detectEngagementAnomalies(
-    page: string,
-    recentStart: Date,
-    baselineStart: Date,
-    baselineEnd: Date,
+  async detectCategoryAnomalies(
+    tenantId: string,
+    window: DetectionWindow,
+    config: GranularDetectionConfig = this.categoryConfig,
   ): Promise<AnomalyDetectionResult[]> {
-    const anomalies: AnomalyDetectionResult[] = [];
-
-    // Check session duration
-    const sessionAnomalies = await this.detectMetricAnomaly(
-      page,
-      recentStart,
-      baselineStart,
-      baselineEnd,
-      'avgSessionDuration',
-      'UserActions',
-      'Session Duration',
-      (data) => data.avgSessionDuration,
-    );
-    anomalies.push(...sessionAnomalies);
-
-    // Check bounce rate
-    const bounceAnomalies = await this.detectMetricAnomaly(
-      page,
-      recentStart,
-      baselineStart,
-      baselineEnd,
-      'bounceRate',
-      'Engagement',
-      'Bounce Rate',
-      (data) => data.bounceRate,
-    );
-    anomalies.push(...bounceAnomalies);
-
-    // Check conversion rate
-    const conversionAnomalies = await this.detectMetricAnomaly(
-      page,
-      recentStart,
-      baselineStart,
-      baselineEnd,
-      'conversionRate',
-      'Conversion',
-      'Conversion Rate',
-      (data) => data.conversionRate,
-    );
-    anomalies.push(...conversionAnomalies);
-
-    return anomalies;
+    return this.detectGranularAnomalies(tenantId, window, config);
   }
 
   /**
-   * Detect performance anomalies
+   * Evaluate every metric of a table over one page's or slice's hourly series
    */
-  private async detectPerformanceAnomalies(
-    page: string,
-    recentStart: Date,
-    baselineStart: Date,
-    baselineEnd: Date,
-  ): Promise<AnomalyDetectionResult[]> {
+  private evaluateSeries(
+    points: HourlyRecord[],
+    source: MetricSource,
+    rules: AlertRule[],
+    window: DetectionWindow,
+    slice?: SliceKey,
+  ): AnomalyDetectionResult[] {
     const anomalies: AnomalyDetectionResult[] = [];
-
-    // Check load time
-    const loadTimeAnomalies = await this.detectMetricAnomaly(
-      page,
-      recentStart,
-      baselineStart,
-      baselineEnd,
-      'avgLoadTime',
-      'Performance',
-      'Load Time',
-      (data) => data.avgLoadTime,
+    const history = points.filter(
+      (point) => point.timestamp < window.baselineEnd,
     );
-    anomalies.push(...loadTimeAnomalies);
-
-    // Check error rate
-    const errorAnomalies = await this.detectMetricAnomaly(
-      page,
-      recentStart,
-      baselineStart,
-      baselineEnd,
-      'errorRate',
-      'Performance',
-      'Error Rate',
-      (data) => data.errorRate,
+    const recentData = points.filter(
+      (point) => point.timestamp >= window.recentStart,
     );
-    anomalies.push(...errorAnomalies);
+    if (history.length === 0 || recentData.length === 0) return anomalies;
+
+    for (const definition of METRIC_DEFINITIONS) {
+      if (definition.source !== source) continue;
+
+      anomalies.push(
+        ...this.evaluateRecentRows(
+          history,
+          recentData,
+          rules,
+          window,
+          definition.metricType,
+          definition.metric,
+          (row) => row[definition.field] as number,
+          slice,
+        ),
+      );
+    }
 
     return anomalies;
   }
 
   /**
-   * Generic method to detect anomalies for any metric
+   * Flag recent rows outside the prediction interval of a forecast fitted to
+   * the page's history before the recent period. Hours the alert rules
+   * already flagged for the same metric are not reported twice.
    */
-  private async detectMetricAnomaly(
-    page: string,
-    recentStart: Date,
-    baselineStart: Date,
-    baselineEnd: Date,
-    metricField: string,
-    metricType: string,
-    metricName: string,
-    valueExtractor: (data: any) => number,
-  ): Promise<AnomalyDetectionResult[]> {
+  private evaluateForecasts(
+    points: HourlyRecord[],
+    source: MetricSource,
+    window: DetectionWindow,
+    historyStart: Date,
+    flagged: AnomalyDetectionResult[],
+  ): AnomalyDetectionResult[] {
     const anomalies: AnomalyDetectionResult[] = [];
-
-    // Get baseline data
-    let baselineData: any[];
-    if (metricField.includes('Session') || metricField.includes('bounce') || metricField.includes('conversion')) {
-      baselineData = await this.prisma.userActionsHourly.findMany({
-        where: {
-          page,
-          timestamp: {
-            gte: baselineStart,
-            lt: baselineEnd,
-          },
-        },
-      });
-    } else {
-      baselineData = await this.prisma.performanceHourly.findMany({
-        where: {
-          page,
-          timestamp: {
-            gte: baselineStart,
-            lt: baselineEnd,
-          },
-        },
-      });
-    }
-
-    if (baselineData.length === 0) return anomalies;
-
-    const baselineValues = baselineData.map(valueExtractor);
-    const baselineMean = this.calculateMean(baselineValues);
-    const baselineStdDev = this.calculateStdDev(baselineValues, baselineMean);
-
-    // Get recent data
-    let recentData: any[];
-    if (metricField.includes('Session') || metricField.includes('bounce') || metricField.includes('conversion')) {
-      recentData = await this.prisma.userActionsHourly.findMany({
-        where: {
-          page,
-          timestamp: {
-            gte: recentStart,
-          },
-        },
-      });
-    } else {
-      recentData = await this.prisma.performanceHourly.findMany({
-        where: {
-          page,
-          timestamp: {
-            gte: recentStart,
-          },
-        },
-      });
-    }
-
-    for (const recent of recentData) {
-      const currentValue = valueExtractor(recent);
-      const deviation = Math.abs(currentValue - baselineMean);
-      const threshold = 2.5 * baselineStdDev;
-
-      if (deviation > threshold && baselineMean > 0) {
-        const percentageChange = ((currentValue - baselineMean) / baselineMean) * 100;
+    const history = points.filter(
+      (point) =>
+        point.timestamp >= historyStart && point.timestamp < window.recentStart,
+    );
+    const recentData = points.filter(
+      (point) => point.timestamp >= window.recentStart,
+    );
+    if (history.length === 0 || recentData.length === 0) return anomalies;
+
+    for (const definition of METRIC_DEFINITIONS) {
+      if (definition.source !== source) continue;
+
+      const series = fillHourlyGaps(
+        history.map((point) => ({
+          timestamp: point.timestamp,
+          value: point[definition.field] as number,
+        })),
+        window.recentStart,
+        definition.aggregation,
+      );
+      const model = chooseForecastModel(
+        series.values.length,
+        FORECAST_SEASON_HOURS,
+      );
+      if (!model || !series.start) continue;
+
+      // Step 1 is the hour after the last history hour
+      const lastHour =
+        series.start.getTime() + (series.values.length - 1) * HOUR_MS;
+      const horizon = Math.ceil((window.asOf.getTime() - lastHour) / HOUR_MS);
+      const intervals = predictionIntervals(
+        model.fit(series.values, FORECAST_SEASON_HOURS, horizon),
+        this.forecastConfig.level,
+      );
+      const baselineMean = mean(series.values);
+
+      for (const recent of recentData) {
+        const interval =
+          intervals[
+            Math.round((recent.timestamp.getTime() - lastHour) / HOUR_MS) - 1
+          ];
+        const currentValue = recent[definition.field] as number;
+        // A zero forecast or error has no meaningful percentage or score
+        if (
+          !interval ||
+          interval.value <= 0 ||
+          interval.standardError <= 0 ||
+          (currentValue >= interval.lower && currentValue <= interval.upper) ||
+          flagged.some(
+            (anomaly) =>
+              anomaly.metric === definition.metric &&
+              anomaly.timestamp.getTime() === recent.timestamp.getTime(),
+          )
+        ) {
+          continue;
+        }
 
         anomalies.push({
           page: recent.page,
-          metricType,
-          metric: metricName,
+          metricType: definition.metricType,
+          metric: definition.metric,
           currentValue,
           baselineMean,
-          baselineStdDev,
-          percentageChange,
+          baselineStdDev: stdDev(series.values, baselineMean),
+          expectedValue: interval.value,
+          percentageChange:
+            ((currentValue - interval.value) / interval.value) * 100,
           timestamp: recent.timestamp,
+          algorithm: model.name,
+          anomalyScore: standardize(
+            currentValue - interval.value,
+            interval.standardError,
+          ),
+          alertRuleId: null,
+          baseline: {
+            strategy: 'forecast',
+            periods: 0,
+            sampleSize: series.values.length,
+            from: series.start,
+            to: window.recentStart,
+          },
           context: {
             deviceType: recent.deviceType,
             region: recent.region,
             referrer: recent.referrer,
             pageCategory: recent.pageCategory,
+            package: recent.package,
+            currency: recent.currency,
           },
         });
       }
@@ -361,63 +385,108 @@ export class AnomalyDetectorService {
   }
 
   /**
-   * Detect granular anomalies (per page/device/referrer/region combination)
+   * Compare each recent row against the baseline selected by its alert rule's
+   * strategy, scored by the rule's algorithm. Fitted baselines are memoized
+   * per strategy, target hour and algorithm.
    */
-  private async detectTrafficAnomaliesGranular(
-    combo: { page: string; deviceType?: string; referrer?: string; region?: string },
-    recentStart: Date,
-    baselineStart: Date,
-    baselineEnd: Date,
-  ): Promise<AnomalyDetectionResult[]> {
-    const where: any = {
-      page: combo.page,
-      timestamp: {
-        gte: baselineStart,
-        lt: baselineEnd,
-      },
-    };
-    if (combo.deviceType) where.deviceType = combo.deviceType;
-    if (combo.referrer) where.referrer = combo.referrer;
-    if (combo.region) where.region = combo.region;
-
-    const baselineData = await this.prisma.pageViewsHourly.findMany({ where });
-    if (baselineData.length === 0) return [];
+  private evaluateRecentRows<T extends HourlyRow>(
+    history: T[],
+    recentData: T[],
+    rules: AlertRule[],
+    window: DetectionWindow,
+    metricType: string,
+    metricName: string,
+    valueExtractor: (data: T) => number,
+    slice?: SliceKey,
+  ): AnomalyDetectionResult[] {
+    const anomalies: AnomalyDetectionResult[] = [];
+    const baselineCache = new Map<
+      string,
+      {
+        mean: number;
+        stdDev: number;
+        fitted: FittedBaseline;
+        summary: BaselineSummary;
+      }
+    >();
 
-    const baselineValues = baselineData.map((d) => d.viewCount);
-    const baselineMean = this.calculateMean(baselineValues);
-    const baselineStdDev = this.calculateStdDev(baselineValues, baselineMean);
+    for (const recent of recentData) {
+      const currentValue = valueExtractor(recent);
+      // Page aggregates match page/category rules; slices also match their dimensions
+      const rule = this.alertRules.resolveRule(
+        rules,
+        metricName,
+        slice
+          ? { pageCategory: recent.pageCategory, ...slice }
+          : { page: recent.page, pageCategory: recent.pageCategory },
+      );
 
-    const recentWhere: any = {
-      page: combo.page,
-      timestamp: { gte: recentStart },
-    };
-    if (combo.deviceType) recentWhere.deviceType = combo.deviceType;
-    if (combo.referrer) recentWhere.referrer = combo.referrer;
-    if (combo.region) recentWhere.region = combo.region;
+      const selectionKey =
+        rule.baselineStrategy === 'flat'
+          ? 'flat'
+          : `${rule.baselineStrategy}:${rule.baselinePeriods}:${recent.timestamp.getTime()}`;
+      const cacheKey = `${selectionKey}:${rule.algorithm}`;
+      let baseline = baselineCache.get(cacheKey);
+      if (!baseline) {
+        const selection = selectBaselineSamples(
+          history,
+          rule.baselineStrategy,
+          rule.baselinePeriods,
+          recent.timestamp,
+          window,
+        );
+        const values = selection.samples.map(valueExtractor);
+        const baselineMean = mean(values);
+        baseline = {
+          mean: baselineMean,
+          stdDev: stdDev(values, baselineMean),
+          fitted: getAnomalyAlgorithm(rule.algorithm).fit(values),
+          summary: {
+            strategy: rule.baselineStrategy,
+            periods: rule.baselinePeriods,
+            sampleSize: values.length,
+            from: selection.from,
+            to: selection.to,
+          },
+        };
+        baselineCache.set(cacheKey, baseline);
+      }
 
-    const recentData = await this.prisma.pageViewsHourly.findMany({ where: recentWhere });
-    const anomalies: AnomalyDetectionResult[] = [];
+      if (baseline.summary.sampleSize === 0) continue;
 
-    for (const recent of recentData) {
-      const deviation = Math.abs(recent.viewCount - baselineMean);
-      const threshold = 2.5 * baselineStdDev;
+      if (
+        this.exceedsThreshold(
+          rule,
+          currentValue,
+          baseline.fitted,
+          baseline.summary.sampleSize,
+        )
+      ) {
+        const { expected } = baseline.fitted;
+        const percentageChange = ((currentValue - expected) / expected) * 100;
 
-      if (deviation > threshold && baselineMean > 0) {
-        const percentageChange = ((recent.viewCount - baselineMean) / baselineMean) * 100;
         anomalies.push({
           page: recent.page,
-          metricType: 'Traffic',
-          metric: 'PageViews',
-          currentValue: recent.viewCount,
-          baselineMean,
-          baselineStdDev,
+          metricType,
+          metric: metricName,
+          currentValue,
+          baselineMean: baseline.mean,
+          baselineStdDev: baseline.stdDev,
+          expectedValue: expected,
           percentageChange,
           timestamp: recent.timestamp,
+          algorithm: rule.algorithm,
+          anomalyScore: baseline.fitted.score(currentValue),
+          alertRuleId: rule.id,
+          baseline: baseline.summary,
           context: {
             deviceType: recent.deviceType,
             region: recent.region,
             referrer: recent.referrer,
             pageCategory: recent.pageCategory,
+            package: recent.package,
+            currency: recent.currency,
+            ...(slice && { slice, sliceKey: formatSliceKey(slice) }),
           },
         });
       }
@@ -426,65 +495,167 @@ export class AnomalyDetectorService {
     return anomalies;
   }
 
-  private async detectEngagementAnomaliesGranular(
-    combo: { page: string; deviceType?: string; referrer?: string; region?: string },
-    recentStart: Date,
-    baselineStart: Date,
-    baselineEnd: Date,
-  ): Promise<AnomalyDetectionResult[]> {
-    // Similar implementation for granular engagement anomalies
-    // For brevity, focusing on aggregated detection first
-    return [];
+  /**
+   * Split grouped rows into one series per slice of the given combination
+   */
+  private toSliceSeries(
+    rows: HourlyRecord[],
+    combination: SliceDimension[],
+  ): Map<string, SliceSeries> {
+    const series = new Map<string, SliceSeries>();
+
+    for (const row of rows) {
+      const slice: SliceKey = {};
+      for (const dimension of combination) {
+        slice[dimension] = row[dimension] as string;
+      }
+
+      const key = formatSliceKey(slice);
+      let entry = series.get(key);
+      if (!entry) {
+        entry = { slice, points: [] };
+        series.set(key, entry);
+      }
+      entry.points.push({
+        ...row,
+        page: slice.page ?? `category:${row.pageCategory}`,
+      });
+    }
+
+    return series;
   }
 
-  private async detectPerformanceAnomaliesGranular(
-    combo: { page: string; deviceType?: string; referrer?: string; region?: string },
-    recentStart: Date,
-    baselineStart: Date,
-    baselineEnd: Date,
-  ): Promise<AnomalyDetectionResult[]> {
-    // Similar implementation for granular performance anomalies
-    return [];
+  /**
+   * Average hourly pageviews of each slice over the baseline period
+   */
+  private sliceVolumes(
+    pageviews: Map<string, SliceSeries>,
+    window: DetectionWindow,
+  ): Map<string, number> {
+    const volumes = new Map<string, number>();
+
+    for (const [key, { points }] of pageviews) {
+      const total = points
+        .filter(
+          (point) =>
+            point.timestamp >= window.baselineStart &&
+            point.timestamp < window.baselineEnd,
+        )
+        .reduce((sum, point) => sum + (point.viewCount as number), 0);
+      volumes.set(key, total / window.baselineHours);
+    }
+
+    return volumes;
+  }
+
+  private async fetchSeries(query: MetricSeriesQuery): Promise<HourlyRecord[]> {
+    return this.prisma.$queryRaw<HourlyRecord[]>(metricSeriesSql(query));
+  }
+
+  /**
+   * Earliest history needed by the baseline strategies of a table's metrics
+   */
+  private sourceHistoryStart(
+    rules: AlertRule[],
+    source: MetricSource,
+    window: DetectionWindow,
+  ): Date {
+    let start = window.baselineStart;
+    for (const rule of rules) {
+      const definition = METRIC_DEFINITIONS.find(
+        (d) => d.metric === rule.metric,
+      );
+      if (definition?.source !== source) continue;
+
+      const ruleStart = baselineRangeStart(
+        rule.baselineStrategy as BaselineStrategy,
+        rule.baselinePeriods,
+        window,
+      );
+      if (ruleStart < start) start = ruleStart;
+    }
+    return start;
   }
 
   /**
-   * Perform correlation analysis (simple and cross-table)
+   * Perform correlation analysis (simple and cross-table). Engagement of all
+   * pages involved is loaded by a single grouped query.
    */
   async analyzeCorrelations(
+    tenantId: string,
     anomalies: AnomalyDetectionResult[],
+    window: DetectionWindow,
   ): Promise<CorrelationResult[]> {
     const correlations: CorrelationResult[] = [];
 
-    for (const anomaly of anomalies) {
+    // Only traffic increases and load time increases are cross-checked
+    const candidates = anomalies.filter(
+      (anomaly) =>
+        anomaly.percentageChange > 0 &&
+        (anomaly.metricType === 'Traffic' ||
+          (anomaly.metricType === 'Performance' &&
+            anomaly.metric === 'Load Time')),
+    );
+    if (candidates.length === 0) return correlations;
+
+    const engagement = groupRows(
+      await this.fetchSeries({
+        tenantId,
+        source: 'useractions',
+        groupBy: ['page'],
+        from: window.baselineStart,
+        to: window.asOf,
+        filters: {
+          page: [...new Set(candidates.map((anomaly) => anomaly.page))],
+        },
+      }),
+      (row) => row.page,
+    );
+
+    for (const anomaly of candidates) {
       const correlated: CorrelationResult['correlatedMetrics'] = [];
+      const rows = engagement.get(anomaly.page) ?? [];
 
       // Cross-table correlation: Check if traffic increase correlates with conversion drop
-      if (anomaly.metricType === 'Traffic' && anomaly.percentageChange > 0) {
-        const conversionData = await this.getConversionDataForPage(
-          anomaly.page,
+      if (anomaly.metricType === 'Traffic') {
+        const conversionData = this.compareToBaseline(
+          rows,
+          'conversionRate',
           anomaly.timestamp,
+          window,
         );
-        if (conversionData && conversionData.conversionRate < conversionData.baselineRate * 0.9) {
+        if (
+          conversionData &&
+          conversionData.current < conversionData.baseline * 0.9
+        ) {
           correlated.push({
             metric: 'Conversion Rate',
-            value: conversionData.conversionRate,
-            change: ((conversionData.conversionRate - conversionData.baselineRate) / conversionData.baselineRate) * 100,
+            value: conversionData.current,
+            change:
+              ((conversionData.current - conversionData.baseline) /
+                conversionData.baseline) *
+              100,
             correlation: 'traffic_up_conversions_down',
           });
         }
       }
 
       // Cross-table correlation: Check if load time increase correlates with bounce rate increase
-      if (anomaly.metricType === 'Performance' && anomaly.metric === 'Load Time' && anomaly.percentageChange > 0) {
-        const bounceData = await this.getBounceRateForPage(
-          anomaly.page,
+      if (anomaly.metric === 'Load Time') {
+        const bounceData = this.compareToBaseline(
+          rows,
+          'bounceRate',
           anomaly.timestamp,
+          window,
         );
-        if (bounceData && bounceData.bounceRate > bounceData.baselineBounceRate * 1.1) {
+        if (bounceData && bounceData.current > bounceData.baseline * 1.1) {
           correlated.push({
             metric: 'Bounce Rate',
-            value: bounceData.bounceRate,
-            change: ((bounceData.bounceRate - bounceData.baselineBounceRate) / bounceData.baselineBounceRate) * 100,
+            value: bounceData.current,
+            change:
+              ((bounceData.current - bounceData.baseline) /
+                bounceData.baseline) *
+              100,
             correlation: 'load_time_up_bounce_rate_up',
           });
         }
@@ -502,121 +673,78 @@ export class AnomalyDetectorService {
   }
 
   /**
-   * Helper methods
+   * Check a recent value against the alert rule resolved for its metric/scope.
+   * sigma: |algorithm score| > threshold, absolute: |deviation| > threshold,
+   * percentage: |deviation| / expected × 100 > threshold
    */
-  private calculateMean(values: number[]): number {
-    if (values.length === 0) return 0;
-    return values.reduce((sum, val) => sum + val, 0) / values.length;
-  }
-
-  private calculateStdDev(values: number[], mean: number): number {
-    if (values.length === 0) return 0;
-    const variance =
-      values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
-    return Math.sqrt(variance);
-  }
-
-  private async getUniquePages(): Promise<string[]> {
-    const pages = await this.prisma.pageViewsHourly.findMany({
-      select: { page: true },
-      distinct: ['page'],
-    });
-    return pages.map((p) => p.page);
-  }
+  exceedsThreshold(
+    rule: ResolvedAlertRule,
+    currentValue: number,
+    fitted: FittedBaseline,
+    baselineHours: number,
+  ): boolean {
+    if (fitted.expected <= 0 || baselineHours < rule.minBaselineHours) {
+      return false;
+    }
 
-  private async getUniqueCombinations(): Promise<
-    Array<{ page: string; deviceType?: string; referrer?: string; region?: string }>
-  > {
-    // Get unique combinations for granular analysis
-    // For now, return page-level combinations
-    const pages = await this.getUniquePages();
-    return pages.map((page) => ({ page }));
+    const deviation = currentValue - fitted.expected;
+    if (rule.direction === 'up' && deviation <= 0) return false;
+    if (rule.direction === 'down' && deviation >= 0) return false;
+
+    switch (rule.thresholdType) {
+      case 'sigma':
+        return Math.abs(fitted.score(currentValue)) > rule.threshold;
+      case 'absolute':
+        return Math.abs(deviation) > rule.threshold;
+      case 'percentage':
+        return (Math.abs(deviation) / fitted.expected) * 100 > rule.threshold;
+    }
   }
 
-  private async getConversionDataForPage(
-    page: string,
+  /**
+   * A page's value of an engagement metric in the anomaly hour vs. its
+   * baseline average (falls back to the hour itself without baseline data)
+   */
+  private compareToBaseline(
+    rows: HourlyRecord[],
+    field: string,
     timestamp: Date,
-  ): Promise<{ conversionRate: number; baselineRate: number } | null> {
+    window: DetectionWindow,
+  ): { current: number; baseline: number } | null {
     const hourStart = new Date(timestamp);
     hourStart.setMinutes(0, 0, 0);
-    const hourEnd = new Date(hourStart.getTime() + 60 * 60 * 1000);
-
-    const recent = await this.prisma.userActionsHourly.findFirst({
-      where: {
-        page,
-        timestamp: {
-          gte: hourStart,
-          lt: hourEnd,
-        },
-      },
-    });
 
+    const recent = rows.find(
+      (row) => row.timestamp.getTime() === hourStart.getTime(),
+    );
     if (!recent) return null;
 
-    const baselineStart = new Date(timestamp.getTime() - 30 * 60 * 60 * 1000);
-    const baselineEnd = new Date(timestamp.getTime() - 6 * 60 * 60 * 1000);
-
-    const baseline = await this.prisma.userActionsHourly.findMany({
-      where: {
-        page,
-        timestamp: {
-          gte: baselineStart,
-          lt: baselineEnd,
-        },
-      },
-    });
-
-    const baselineRate = baseline.length > 0
-      ? baseline.reduce((sum, d) => sum + d.conversionRate, 0) / baseline.length
-      : recent.conversionRate;
+    const current = recent[field] as number;
+    const baseline = rows
+      .filter(
+        (row) =>
+          row.timestamp >= window.baselineStart &&
+          row.timestamp < window.baselineEnd,
+      )
+      .map((row) => row[field] as number);
 
     return {
-      conversionRate: recent.conversionRate,
-      baselineRate,
+      current,
+      baseline: baseline.length > 0 ? mean(baseline) : current,
     };
   }
+}
 
-  private async getBounceRateForPage(
-    page: string,
-    timestamp: Date,
-  ): Promise<{ bounceRate: number; baselineBounceRate: number } | null> {
-    const hourStart = new Date(timestamp);
-    hourStart.setMinutes(0, 0, 0);
-    const hourEnd = new Date(hourStart.getTime() + 60 * 60 * 1000);
-
-    const recent = await this.prisma.userActionsHourly.findFirst({
-      where: {
-        page,
-        timestamp: {
-          gte: hourStart,
-          lt: hourEnd,
-        },
-      },
-    });
-
-    if (!recent) return null;
-
-    const baselineStart = new Date(timestamp.getTime() - 30 * 60 * 60 * 1000);
-    const baselineEnd = new Date(timestamp.getTime() - 6 * 60 * 60 * 1000);
-
-    const baseline = await this.prisma.userActionsHourly.findMany({
-      where: {
-        page,
-        timestamp: {
-          gte: baselineStart,
-          lt: baselineEnd,
-        },
-      },
-    });
-
-    const baselineBounceRate = baseline.length > 0
-      ? baseline.reduce((sum, d) => sum + d.bounceRate, 0) / baseline.length
-      : recent.bounceRate;
-
-    return {
-      bounceRate: recent.bounceRate,
-      baselineBounceRate,
-    };
+function groupRows<T>(rows: T[], keyOf: (row: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
   }
+  return groups;
 }
-
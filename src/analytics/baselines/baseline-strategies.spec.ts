@@ -0,0 +1,62 @@
+import { selectBaselineSamples } from './baseline-strategies';
+import { DetectionWindow } from '../interfaces/detection-window.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('selectBaselineSamples', () => {
+  const asOf = new Date('2025-11-19T12:00:00Z');
+  const window: DetectionWindow = {
+    asOf,
+    recentHours: 6,
+    baselineHours: 24,
+    recentStart: new Date(asOf.getTime() - 6 * HOUR_MS),
+    baselineStart: new Date(asOf.getTime() - 30 * HOUR_MS),
+    baselineEnd: new Date(asOf.getTime() - 6 * HOUR_MS),
+  };
+  // One sample per hour for the previous 15 days
+  const history = Array.from({ length: 15 * 24 }, (_, index) => ({
+    timestamp: new Date(window.baselineEnd.getTime() - (index + 1) * HOUR_MS),
+  }));
+  const at = new Date('2025-11-19T08:00:00Z');
+
+  it('uses the whole baseline period for the flat strategy', () => {
+    const selection = selectBaselineSamples(history, 'flat', 7, at, window);
+
+    expect(selection.samples).toHaveLength(24);
+    expect(selection.from).toEqual(window.baselineStart);
+    expect(selection.to).toEqual(window.baselineEnd);
+  });
+
+  it('uses the same hour on each of the previous N days', () => {
+    const selection = selectBaselineSamples(
+      history,
+      'same_hour_of_day',
+      3,
+      at,
+      window,
+    );
+
+    expect(selection.samples.map((s) => s.timestamp.toISOString())).toEqual([
+      '2025-11-18T08:00:00.000Z',
+      '2025-11-17T08:00:00.000Z',
+      '2025-11-16T08:00:00.000Z',
+    ]);
+  });
+
+  it('uses the same hour and weekday on each of the previous N weeks', () => {
+    const selection = selectBaselineSamples(
+      history,
+      'same_hour_of_week',
+      4,
+      at,
+      window,
+    );
+
+    // Only two weeks of history are available
+    expect(selection.samples.map((s) => s.timestamp.toISOString())).toEqual([
+      '2025-11-12T08:00:00.000Z',
+      '2025-11-05T08:00:00.000Z',
+    ]);
+    expect(selection.from.toISOString()).toBe('2025-10-22T08:00:00.000Z');
+  });
+});
@@ -0,0 +1,84 @@
+import { startOfHour } from 'date-fns';
+import { BaselineStrategy } from '../../alert-rules/alert-rule.constants';
+import { DetectionWindow } from '../interfaces/detection-window.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const WEEK_MS = 7 * DAY_MS;
+
+export interface BaselineSelection<T> {
+  samples: T[];
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Earliest timestamp a strategy can reach back to, so callers can fetch
+ * all history a run needs in one query
+ */
+export function baselineRangeStart(
+  strategy: BaselineStrategy,
+  periods: number,
+  window: DetectionWindow,
+): Date {
+  switch (strategy) {
+    case 'flat':
+      return window.baselineStart;
+    case 'same_hour_of_day':
+      return new Date(
+        startOfHour(window.recentStart).getTime() - periods * DAY_MS,
+      );
+    case 'same_hour_of_week':
+      return new Date(
+        startOfHour(window.recentStart).getTime() - periods * WEEK_MS,
+      );
+  }
+}
+
+/**
+ * Select the baseline samples for a value observed at `at`.
+ * - flat: every sample in the window's baseline period
+ * - same_hour_of_day: samples from the same hour on each of the previous N days
+ * - same_hour_of_week: samples from the same hour and weekday on each of the previous N weeks
+ * Samples at or after the end of the baseline period are never used.
+ */
+export function selectBaselineSamples<T extends { timestamp: Date }>(
+  history: T[],
+  strategy: BaselineStrategy,
+  periods: number,
+  at: Date,
+  window: DetectionWindow,
+): BaselineSelection<T> {
+  const baselineEnd = window.baselineEnd.getTime();
+
+  if (strategy === 'flat') {
+    const from = window.baselineStart.getTime();
+    return {
+      samples: history.filter((row) => {
+        const time = row.timestamp.getTime();
+        return time >= from && time < baselineEnd;
+      }),
+      from: window.baselineStart,
+      to: window.baselineEnd,
+    };
+  }
+
+  const step = strategy === 'same_hour_of_day' ? DAY_MS : WEEK_MS;
+  const hour = startOfHour(at).getTime();
+  const targetHours = new Set<number>();
+  for (let period = 1; period <= periods; period++) {
+    targetHours.add(hour - period * step);
+  }
+
+  return {
+    samples: history.filter((row) => {
+      const time = row.timestamp.getTime();
+      return (
+        time < baselineEnd &&
+        targetHours.has(startOfHour(row.timestamp).getTime())
+      );
+    }),
+    from: new Date(hour - periods * step),
+    to: new Date(hour - step + HOUR_MS),
+  };
+}
@@ -0,0 +1,119 @@
+import { PrismaService } from 'prisma/prisma.service';
+import { ContributionAnalysisService } from './contribution-analysis.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ContributionAnalysisService', () => {
+  const baselineStart = new Date('2025-11-19T00:00:00Z');
+  const baselineEnd = new Date('2025-11-19T02:00:00Z');
+  const at = new Date('2025-11-19T03:00:00Z');
+
+  const row = (
+    timestamp: Date,
+    referrer: string,
+    fields: Record<string, number>,
+  ) => ({
+    page: '/checkout',
+    pageCategory: 'Checkout',
+    deviceType: 'Mobile',
+    region: 'Kerala',
+    referrer,
+    timestamp,
+    ...fields,
+  });
+
+  const serviceWith = (rows: object[]) =>
+    new ContributionAnalysisService({
+      pageViewsHourly: { findMany: jest.fn().mockResolvedValue(rows) },
+      userActionsHourly: { findMany: jest.fn().mockResolvedValue(rows) },
+    } as unknown as PrismaService);
+
+  it('attributes a traffic change to the slices whose volume moved', async () => {
+    const hour2 = new Date(baselineStart.getTime() + HOUR_MS);
+    const service = serviceWith([
+      row(baselineStart, 'Google', { viewCount: 100 }),
+      row(baselineStart, 'Instagram', { viewCount: 20 }),
+      row(hour2, 'Google', { viewCount: 100 }),
+      row(hour2, 'Instagram', { viewCount: 20 }),
+      row(at, 'Google', { viewCount: 110 }),
+      row(at, 'Instagram', { viewCount: 210 }),
+    ]);
+
+    const breakdown = await service.analyze(
+      {
+        tenantId: 'default',
+        page: '/checkout',
+        metric: 'PageViews',
+        timestamp: at,
+      },
+      { baselineStart, baselineEnd },
+    );
+
+    expect(breakdown).toMatchObject({
+      baselineValue: 120,
+      currentValue: 320,
+      totalChange: 200,
+    });
+    expect(breakdown?.dimensions.map((d) => d.dimension)).toEqual([
+      'deviceType',
+      'referrer',
+      'region',
+    ]);
+    expect(breakdown?.topContributors[0]).toMatchObject({
+      dimension: 'referrer',
+      value: 'Instagram',
+      delta: 190,
+      share: 0.95,
+    });
+  });
+
+  it('splits a rate change into weighted terms that add up to the total', async () => {
+    const service = serviceWith([
+      row(baselineStart, 'Google', { conversionRate: 4, sessionCount: 50 }),
+      row(baselineStart, 'Instagram', { conversionRate: 4, sessionCount: 50 }),
+      row(at, 'Google', { conversionRate: 4, sessionCount: 20 }),
+      row(at, 'Instagram', { conversionRate: 1, sessionCount: 80 }),
+    ]);
+
+    const breakdown = await service.analyze(
+      {
+        tenantId: 'default',
+        page: '/checkout',
+        metric: 'Conversion Rate',
+        timestamp: at,
+      },
+      { baselineStart, baselineEnd },
+    );
+    const referrers = breakdown?.dimensions.find(
+      (d) => d.dimension === 'referrer',
+    );
+
+    expect(breakdown?.totalChange).toBeCloseTo(-2.4);
+    expect(
+      referrers?.contributors.reduce((sum, c) => sum + c.delta, 0),
+    ).toBeCloseTo(-2.4);
+    expect(referrers?.contributors[0]).toMatchObject({
+      value: 'Google',
+      delta: -1.2,
+      share: 0.5,
+    });
+  });
+
+  it('returns null for metrics without data in the anomaly hour', async () => {
+    const service = serviceWith([
+      row(baselineStart, 'Google', { viewCount: 100 }),
+    ]);
+
+    await expect(
+      service.analyze(
+        {
+          tenantId: 'default',
+          page: '/checkout',
+          metric: 'PageViews',
+          timestamp: at,
+        },
+        { baselineStart, baselineEnd },
+      ),
+    ).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,259 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from 'prisma/prisma.service';
+import {
+  METRIC_DEFINITIONS,
+  MetricDefinition,
+  MetricSource,
+  SOURCE_DIMENSIONS,
+} from './metrics/metric-definitions';
+import { SliceDimension, SliceKey } from './interfaces/slice.interface';
+import {
+  ContributionBreakdown,
+  ContributionOptions,
+  DimensionBreakdown,
+  SliceContribution,
+} from './interfaces/contribution.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_TOP_CONTRIBUTORS = 3;
+
+type ContributionRow = Record<string, string | number | Date>;
+
+/**
+ * What to decompose: one metric of a tenant's page (or slice) at one hour
+ */
+export interface ContributionTarget {
+  tenantId: string;
+  page: string;
+  metric: string;
+  timestamp: Date;
+  slice?: SliceKey;
+}
+
+@Injectable()
+export class ContributionAnalysisService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Decompose the change of a metric between its baseline and the anomaly hour
+   * across the dimensions not already fixed by the target's scope.
+   *
+   * Counts: each slice contributes its own change in hourly volume.
+   * Rates/durations: each slice contributes the change in its weighted term
+   * (weight share × value), so contributions add up to the aggregate change
+   * and capture both mix shifts and value shifts.
+   */
+  async analyze(
+    target: ContributionTarget,
+    options: ContributionOptions,
+  ): Promise<ContributionBreakdown | null> {
+    const definition = METRIC_DEFINITIONS.find(
+      (d) => d.metric === target.metric,
+    );
+    if (!definition) return null;
+
+    const scope: SliceKey = target.slice ?? { page: target.page };
+    const hourEnd = new Date(target.timestamp.getTime() + HOUR_MS);
+    const rows = await this.fetchRows(
+      target.tenantId,
+      definition.source,
+      scope,
+      options,
+      target.timestamp,
+      hourEnd,
+    );
+
+    const current = rows.filter((row) => row.timestamp >= target.timestamp);
+    const baseline = rows.filter((row) => row.timestamp < options.baselineEnd);
+    if (current.length === 0 || baseline.length === 0) return null;
+
+    const baselineHours = Math.max(
+      (options.baselineEnd.getTime() - options.baselineStart.getTime()) /
+        HOUR_MS,
+      1,
+    );
+    const weightOf = this.weighting(definition, rows);
+    const baselineTotal = this.aggregate(
+      definition,
+      baseline,
+      weightOf,
+      baselineHours,
+    );
+    const currentTotal = this.aggregate(definition, current, weightOf, 1);
+    const totalChange = currentTotal - baselineTotal;
+
+    const dimensions: DimensionBreakdown[] = SOURCE_DIMENSIONS[
+      definition.source
+    ]
+      .filter(
+        (dimension) => dimension !== 'pageCategory' && !(dimension in scope),
+      )
+      .map((dimension) => ({
+        dimension: dimension as SliceDimension,
+        contributors: this.contributionsFor(
+          dimension as SliceDimension,
+          definition,
+          baseline,
+          current,
+          weightOf,
+          baselineHours,
+          totalChange,
+        ),
+      }));
+
+    // A dimension with a single value cannot explain anything
+    const topContributors = dimensions
+      .filter((d) => d.contributors.length > 1)
+      .flatMap((d) => d.contributors)
+      .sort((a, b) => b.share - a.share)
+      .slice(0, options.topN ?? DEFAULT_TOP_CONTRIBUTORS);
+
+    return {
+      page: target.page,
+      metric: target.metric,
+      timestamp: target.timestamp,
+      scope,
+      baselineStart: options.baselineStart,
+      baselineEnd: options.baselineEnd,
+      baselineValue: round(baselineTotal),
+      currentValue: round(currentTotal),
+      totalChange: round(totalChange),
+      dimensions,
+      topContributors,
+    };
+  }
+
+  private contributionsFor(
+    dimension: SliceDimension,
+    definition: MetricDefinition,
+    baseline: ContributionRow[],
+    current: ContributionRow[],
+    weightOf: (row: ContributionRow) => number,
+    baselineHours: number,
+    totalChange: number,
+  ): SliceContribution[] {
+    const values = new Set(
+      [...baseline, ...current].map((row) => row[dimension] as string),
+    );
+
+    return [...values]
+      .map((value) => {
+        const matches = (row: ContributionRow) => row[dimension] === value;
+        const baselineValue = this.term(
+          definition,
+          baseline,
+          matches,
+          weightOf,
+          baselineHours,
+        );
+        const currentValue = this.term(
+          definition,
+          current,
+          matches,
+          weightOf,
+          1,
+        );
+        const delta = currentValue - baselineValue;
+
+        return {
+          dimension,
+          value,
+          baselineValue: round(baselineValue),
+          currentValue: round(currentValue),
+          delta: round(delta),
+          share: totalChange === 0 ? 0 : round(delta / totalChange, 4),
+        };
+      })
+      .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+  }
+
+  /**
+   * A slice's part of the aggregate: hourly volume for counts, weighted
+   * term (Σ weight × value / Σ weight of all rows) for averages
+   */
+  private term(
+    definition: MetricDefinition,
+    rows: ContributionRow[],
+    matches: (row: ContributionRow) => boolean,
+    weightOf: (row: ContributionRow) => number,
+    hours: number,
+  ): number {
+    const field = definition.field;
+
+    if (definition.aggregation === 'sum') {
+      return (
+        rows
+          .filter(matches)
+          .reduce((sum, row) => sum + (row[field] as number), 0) / hours
+      );
+    }
+
+    const totalWeight = rows.reduce((sum, row) => sum + weightOf(row), 0);
+    if (totalWeight === 0) return 0;
+    return (
+      rows
+        .filter(matches)
+        .reduce((sum, row) => sum + weightOf(row) * (row[field] as number), 0) /
+      totalWeight
+    );
+  }
+
+  private aggregate(
+    definition: MetricDefinition,
+    rows: ContributionRow[],
+    weightOf: (row: ContributionRow) => number,
+    hours: number,
+  ): number {
+    return this.term(definition, rows, () => true, weightOf, hours);
+  }
+
+  /**
+   * Weight averages by sessions/samples only when every row carries them
+   */
+  private weighting(
+    definition: MetricDefinition,
+    rows: ContributionRow[],
+  ): (row: ContributionRow) => number {
+    const weightField = definition.weightField;
+    if (weightField && rows.every((row) => (row[weightField] as number) > 0)) {
+      return (row) => row[weightField] as number;
+    }
+    return () => 1;
+  }
+
+  private async fetchRows(
+    tenantId: string,
+    source: MetricSource,
+    scope: SliceKey,
+    options: ContributionOptions,
+    hourStart: Date,
+    hourEnd: Date,
+  ): Promise<ContributionRow[]> {
+    const where = {
+      ...scope,
+      tenantId,
+      OR: [
+        {
+          timestamp: { gte: options.baselineStart, lt: options.baselineEnd },
+        },
+        { timestamp: { gte: hourStart, lt: hourEnd } },
+      ],
+    };
+
+    switch (source) {
+      case 'pageviews':
+        return this.prisma.pageViewsHourly.findMany({ where });
+      case 'useractions':
+        return this.prisma.userActionsHourly.findMany({ where });
+      case 'performance':
+        return this.prisma.performanceHourly.findMany({ where });
+      case 'bookings':
+        return this.prisma.bookingsHourly.findMany({ where });
+    }
+  }
+}
+
+function round(value: number, digits = 2): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
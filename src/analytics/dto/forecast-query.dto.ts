@@ -0,0 +1,65 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { TIMESERIES_METRICS } from './timeseries-query.dto';
+import {
+  FORECAST_LEVELS,
+  FORECAST_MODELS,
+  MAX_FORECAST_HORIZON,
+} from '../forecasting/forecast.constants';
+import type {
+  ForecastLevel,
+  ForecastModelName,
+} from '../forecasting/forecast.constants';
+
+export class ForecastQueryDto {
+  @IsIn(TIMESERIES_METRICS)
+  metric: string;
+
+  /**
+   * Page to forecast; omit for the total across all pages
+   */
+  @IsOptional()
+  @Matches(/^\//, { message: 'page must be a path starting with "/"' })
+  page?: string;
+
+  /**
+   * Hours ahead, starting with the current hour (default 24)
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(MAX_FORECAST_HORIZON)
+  horizon?: number;
+
+  /**
+   * Defaults to Holt-Winters, or seasonal naive with under two days of history
+   */
+  @IsOptional()
+  @IsIn(FORECAST_MODELS)
+  model?: ForecastModelName;
+
+  /**
+   * Prediction interval coverage in percent (default 95)
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsIn(FORECAST_LEVELS)
+  level?: ForecastLevel;
+
+  /**
+   * Forecast as of this time instead of now (history ends at its hour)
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  asOf?: Date;
+}
@@ -0,0 +1,19 @@
+export class ForecastPointDto {
+  timestamp: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export class ForecastResponseDto {
+  success: boolean;
+  timestamp: string;
+  metric: string;
+  page: string | null;
+  model: string;
+  level: number;
+  horizon: number;
+  historyFrom: string;
+  historyTo: string;
+  points: ForecastPointDto[];
+}
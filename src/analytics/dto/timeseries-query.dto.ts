@@ -0,0 +1,60 @@
+import { Transform, Type } from 'class-transformer';
+import { IsArray, IsDate, IsIn, IsObject, IsOptional } from 'class-validator';
+import { METRIC_DEFINITIONS } from '../metrics/metric-definitions';
+import { TIME_GRANULARITIES } from '../metrics/metric-series';
+import type { TimeGranularity } from '../metrics/metric-series';
+import { SLICE_DIMENSIONS } from '../interfaces/slice.interface';
+import type { SliceDimension } from '../interfaces/slice.interface';
+
+/**
+ * Metrics can be named like alert rules ("Conversion Rate") or by column ("conversionRate")
+ */
+export const TIMESERIES_METRICS = METRIC_DEFINITIONS.flatMap((definition) => [
+  definition.metric,
+  definition.field,
+]);
+
+export class TimeseriesQueryDto {
+  @IsIn(TIMESERIES_METRICS)
+  metric: string;
+
+  /**
+   * Defaults to 24 hours, 30 days or 12 weeks before `to`, by granularity
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  /**
+   * Exclusive end of the range; defaults to now
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @IsOptional()
+  @IsIn(TIME_GRANULARITIES)
+  granularity?: TimeGranularity;
+
+  /**
+   * Comma-separated dimensions, e.g. `deviceType,region`
+   */
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value.split(',').map((dimension) => dimension.trim())
+      : value,
+  )
+  @IsArray()
+  @IsIn(SLICE_DIMENSIONS, { each: true })
+  groupBy?: SliceDimension[];
+
+  /**
+   * `filter[deviceType]=Mobile`; repeat a key to allow several values
+   */
+  @IsOptional()
+  @IsObject()
+  filter?: Record<string, string | string[]>;
+}
@@ -0,0 +1,22 @@
+export class TimeseriesPointDto {
+  timestamp: string;
+  value: number;
+}
+
+export class TimeseriesSeriesDto {
+  group: Record<string, string>; // empty when not grouped
+  points: TimeseriesPointDto[];
+}
+
+export class TimeseriesResponseDto {
+  success: boolean;
+  timestamp: string;
+  metric: string;
+  aggregation: 'sum' | 'weighted_average';
+  granularity: string;
+  from: string;
+  to: string;
+  groupBy: string[];
+  filters: Record<string, string[]>;
+  series: TimeseriesSeriesDto[];
+}
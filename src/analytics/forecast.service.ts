@@ -0,0 +1,109 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { startOfHour } from 'date-fns';
+import { PrismaService } from 'prisma/prisma.service';
+import { METRIC_DEFINITIONS } from './metrics/metric-definitions';
+import { metricSeriesSql } from './metrics/metric-series';
+import {
+  DEFAULT_FORECAST_HISTORY_DAYS,
+  DEFAULT_FORECAST_HORIZON,
+  DEFAULT_FORECAST_LEVEL,
+  FORECAST_SEASON_HOURS,
+} from './forecasting/forecast.constants';
+import {
+  chooseForecastModel,
+  fillHourlyGaps,
+  getForecastModel,
+  predictionIntervals,
+} from './forecasting/forecast-models';
+import {
+  ForecastOptions,
+  ForecastResult,
+} from './interfaces/forecast.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+@Injectable()
+export class ForecastService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Hourly forecast of one metric for a page (or all pages) from its last
+   * weeks of history, with prediction intervals. The current, incomplete
+   * hour is forecast rather than used as history.
+   */
+  async forecast(
+    tenantId: string,
+    options: ForecastOptions,
+  ): Promise<ForecastResult> {
+    const definition = METRIC_DEFINITIONS.find(
+      (d) => d.metric === options.metric || d.field === options.metric,
+    );
+    if (!definition) {
+      throw new BadRequestException(`Unknown metric ${options.metric}`);
+    }
+
+    const horizon = options.horizon ?? DEFAULT_FORECAST_HORIZON;
+    const level = options.level ?? DEFAULT_FORECAST_LEVEL;
+    const historyTo = startOfHour(options.asOf ?? new Date());
+    const from = new Date(
+      historyTo.getTime() - DEFAULT_FORECAST_HISTORY_DAYS * 24 * HOUR_MS,
+    );
+
+    const rows = await this.prisma.$queryRaw<
+      (Record<string, number> & { timestamp: Date })[]
+    >(
+      metricSeriesSql({
+        tenantId,
+        source: definition.source,
+        groupBy: [],
+        from,
+        to: historyTo,
+        filters: options.page ? { page: [options.page] } : {},
+        metrics: [definition],
+      }),
+    );
+    const history = fillHourlyGaps(
+      rows.map((row) => ({
+        timestamp: row.timestamp,
+        value: row[definition.field],
+      })),
+      historyTo,
+      definition.aggregation,
+    );
+
+    const model = options.model
+      ? getForecastModel(options.model)
+      : chooseForecastModel(history.values.length, FORECAST_SEASON_HOURS);
+    const minHours = (model?.minSeasons ?? 1) * FORECAST_SEASON_HOURS;
+    if (!model || !history.start || history.values.length < minHours) {
+      throw new BadRequestException(
+        `Not enough ${definition.metric} history to forecast${options.page ? ` ${options.page}` : ''}: ${history.values.length} hours, need at least ${minHours}`,
+      );
+    }
+
+    const intervals = predictionIntervals(
+      model.fit(history.values, FORECAST_SEASON_HOURS, horizon),
+      level,
+    );
+
+    return {
+      metric: definition.metric,
+      page: options.page ?? null,
+      model: model.name,
+      level,
+      horizon,
+      historyFrom: history.start,
+      historyTo,
+      points: intervals.map(({ value, lower, upper }, index) => ({
+        timestamp: new Date(historyTo.getTime() + index * HOUR_MS),
+        value: round(value),
+        lower: round(lower),
+        upper: round(upper),
+      })),
+    };
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,22 @@
+import { ForecastModelName } from './forecast.constants';
+
+/**
+ * Forecasts for the `horizon` hours following the history, one per step
+ */
+export interface ForecastFit {
+  model: ForecastModelName;
+  point: number[];
+  standardError: number[]; // of the forecast error at each step
+}
+
+export interface ForecastModel {
+  readonly name: ForecastModelName;
+  /**
+   * Full seasons of history needed to fit
+   */
+  readonly minSeasons: number;
+  /**
+   * Fit to an hourly series in chronological order, without gaps
+   */
+  fit(history: number[], season: number, horizon: number): ForecastFit;
+}
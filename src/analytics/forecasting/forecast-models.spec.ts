@@ -0,0 +1,74 @@
+import {
+  chooseForecastModel,
+  fillHourlyGaps,
+  getForecastModel,
+  predictionIntervals,
+} from './forecast-models';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('forecast models', () => {
+  // Daily traffic cycle peaking in the evening, with a little noise
+  const dailyCycle = (hours: number) =>
+    Array.from(
+      { length: hours },
+      (_, hour) =>
+        500 +
+        300 * Math.sin(((hour % 24) / 24) * 2 * Math.PI) +
+        ((hour * 7) % 11) -
+        5,
+    );
+
+  it('Holt-Winters follows the daily cycle with widening intervals', () => {
+    const history = dailyCycle(7 * 24);
+    const fit = getForecastModel('holt_winters').fit(history, 24, 48);
+    const intervals = predictionIntervals(fit, 95);
+
+    // 6am the next day is the daily peak (sin = 1), 6pm the trough
+    expect(intervals[6].value).toBeGreaterThan(750);
+    expect(intervals[18].value).toBeLessThan(250);
+    expect(intervals[6].lower).toBeLessThan(intervals[6].value);
+    expect(intervals[6].upper).toBeGreaterThan(intervals[6].value);
+    expect(intervals[47].standardError).toBeGreaterThan(
+      intervals[0].standardError,
+    );
+  });
+
+  it('seasonal naive repeats the last season and clamps intervals at 0', () => {
+    const history = [
+      ...Array<number>(24).fill(2),
+      ...Array<number>(24).fill(4),
+    ];
+    const intervals = predictionIntervals(
+      getForecastModel('seasonal_naive').fit(history, 24, 30),
+      99,
+    );
+
+    expect(intervals[0].value).toBe(4);
+    expect(intervals[0].lower).toBe(0);
+    expect(intervals[24].standardError).toBeCloseTo(
+      intervals[0].standardError * Math.SQRT2,
+    );
+  });
+
+  it('picks the model the history length allows', () => {
+    expect(chooseForecastModel(48, 24)?.name).toBe('holt_winters');
+    expect(chooseForecastModel(30, 24)?.name).toBe('seasonal_naive');
+    expect(chooseForecastModel(12, 24)).toBeNull();
+  });
+
+  it('fills missing hours with 0 for counts and the previous value for averages', () => {
+    const start = new Date('2025-11-19T00:00:00Z');
+    const points = [
+      { timestamp: start, value: 10 },
+      { timestamp: new Date(start.getTime() + 2 * HOUR_MS), value: 30 },
+    ];
+    const to = new Date(start.getTime() + 4 * HOUR_MS);
+
+    expect(fillHourlyGaps(points, to, 'sum').values).toEqual([10, 0, 30, 0]);
+    expect(fillHourlyGaps(points, to, 'average')).toEqual({
+      start,
+      values: [10, 10, 30, 30],
+    });
+  });
+});
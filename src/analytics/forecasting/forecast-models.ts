@@ -0,0 +1,87 @@
+import {
+  FORECAST_LEVEL_Z,
+  ForecastLevel,
+  ForecastModelName,
+} from './forecast.constants';
+import { ForecastFit, ForecastModel } from './forecast-model.interface';
+import { HoltWintersModel } from './holt-winters.model';
+import { SeasonalNaiveModel } from './seasonal-naive.model';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MODELS: Record<ForecastModelName, ForecastModel> = {
+  holt_winters: new HoltWintersModel(),
+  seasonal_naive: new SeasonalNaiveModel(),
+};
+
+export interface ForecastInterval {
+  value: number;
+  lower: number;
+  upper: number;
+  standardError: number;
+}
+
+export function getForecastModel(name: ForecastModelName): ForecastModel {
+  return MODELS[name];
+}
+
+/**
+ * Holt-Winters once there are two full seasons of history, else seasonal
+ * naive; null while there is not even one season
+ */
+export function chooseForecastModel(
+  historyLength: number,
+  season: number,
+): ForecastModel | null {
+  if (historyLength >= 2 * season) return MODELS.holt_winters;
+  if (historyLength >= season) return MODELS.seasonal_naive;
+  return null;
+}
+
+/**
+ * Point forecasts with symmetric normal intervals. Every metric is a count,
+ * rate or duration, so values and lower bounds are clamped at 0.
+ */
+export function predictionIntervals(
+  fit: ForecastFit,
+  level: ForecastLevel,
+): ForecastInterval[] {
+  const z = FORECAST_LEVEL_Z[level];
+
+  return fit.point.map((point, index) => {
+    const standardError = fit.standardError[index];
+    return {
+      value: Math.max(point, 0),
+      lower: Math.max(point - z * standardError, 0),
+      upper: Math.max(point + z * standardError, 0),
+      standardError,
+    };
+  });
+}
+
+/**
+ * Hourly values from the first observation up to (excluding) `to`, one per
+ * hour. Missing hours of summed metrics had nothing to count and become 0;
+ * averages carry the previous hour's value forward.
+ */
+export function fillHourlyGaps(
+  points: { timestamp: Date; value: number }[],
+  to: Date,
+  aggregation: 'sum' | 'average',
+): { start: Date | null; values: number[] } {
+  if (points.length === 0) return { start: null, values: [] };
+
+  const byHour = new Map(
+    points.map((point) => [point.timestamp.getTime(), point.value]),
+  );
+  const start = Math.min(...byHour.keys());
+  const values: number[] = [];
+  let previous = 0;
+  for (let hour = start; hour < to.getTime(); hour += HOUR_MS) {
+    const value = byHour.get(hour) ?? (aggregation === 'sum' ? 0 : previous);
+    values.push(value);
+    previous = value;
+  }
+
+  return { start: new Date(start), values };
+}
@@ -0,0 +1,55 @@
+export const FORECAST_MODELS = ['holt_winters', 'seasonal_naive'] as const;
+
+/**
+ * Prediction interval coverage in percent
+ */
+export const FORECAST_LEVELS = [80, 90, 95, 99] as const;
+
+export type ForecastModelName = (typeof FORECAST_MODELS)[number];
+export type ForecastLevel = (typeof FORECAST_LEVELS)[number];
+
+/**
+ * Two-sided standard normal quantile of each interval level
+ */
+export const FORECAST_LEVEL_Z: Record<ForecastLevel, number> = {
+  80: 1.2816,
+  90: 1.6449,
+  95: 1.96,
+  99: 2.5758,
+};
+
+export const FORECAST_SEASON_HOURS = 24;
+export const DEFAULT_FORECAST_HORIZON = 24;
+export const MAX_FORECAST_HORIZON = 72;
+export const DEFAULT_FORECAST_LEVEL: ForecastLevel = 95;
+export const DEFAULT_FORECAST_DETECTION_LEVEL: ForecastLevel = 99;
+export const DEFAULT_FORECAST_HISTORY_DAYS = 14;
+
+export interface ForecastDetectionConfig {
+  enabled: boolean;
+  level: ForecastLevel;
+  historyDays: number;
+}
+
+/**
+ * Forecast-interval detection from FORECAST_DETECTION ("true" to enable),
+ * FORECAST_DETECTION_LEVEL (default 99, wider than the endpoint's 95 so
+ * normal hours are rarely flagged) and FORECAST_HISTORY_DAYS
+ */
+export function loadForecastDetectionConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): ForecastDetectionConfig {
+  const level = Number(env.FORECAST_DETECTION_LEVEL);
+  const historyDays = Number(env.FORECAST_HISTORY_DAYS);
+
+  return {
+    enabled: env.FORECAST_DETECTION === 'true',
+    level: (FORECAST_LEVELS as readonly number[]).includes(level)
+      ? (level as ForecastLevel)
+      : DEFAULT_FORECAST_DETECTION_LEVEL,
+    historyDays:
+      Number.isInteger(historyDays) && historyDays >= 2
+        ? historyDays
+        : DEFAULT_FORECAST_HISTORY_DAYS,
+  };
+}
@@ -0,0 +1,101 @@
+import { ForecastFit, ForecastModel } from './forecast-model.interface';
+import { mean } from '../algorithms/statistics';
+
+interface SmoothingParams {
+  alpha: number; // level
+  beta: number; // trend
+  gamma: number; // seasonality
+}
+
+interface SmoothingState {
+  level: number;
+  trend: number;
+  seasonals: number[];
+  sse: number;
+  errors: number;
+}
+
+const ALPHAS = [0.1, 0.2, 0.4, 0.6, 0.8];
+const BETAS = [0, 0.01, 0.05];
+const GAMMAS = [0.05, 0.1, 0.3, 0.5];
+
+/**
+ * Additive Holt-Winters (level + trend + hourly seasonality). Smoothing
+ * parameters are picked from a small grid by one-step-ahead squared error,
+ * and the error variance h steps ahead follows the usual additive
+ * approximation σ² (1 + Σ_{j<h} (α (1 + jβ) + γ [j mod m = 0])²).
+ */
+export class HoltWintersModel implements ForecastModel {
+  readonly name = 'holt_winters' as const;
+  readonly minSeasons = 2;
+
+  fit(history: number[], season: number, horizon: number): ForecastFit {
+    const candidates = ALPHAS.flatMap((alpha) =>
+      BETAS.flatMap((beta) => GAMMAS.map((gamma) => ({ alpha, beta, gamma }))),
+    );
+    const { params, state } = candidates
+      .map((params) => ({
+        params,
+        state: this.smooth(history, season, params),
+      }))
+      .reduce((best, fit) => (fit.state.sse < best.state.sse ? fit : best));
+
+    const n = history.length;
+    const sigma = state.errors > 0 ? Math.sqrt(state.sse / state.errors) : 0;
+
+    const point: number[] = [];
+    const standardError: number[] = [];
+    let variance = 1;
+    for (let h = 1; h <= horizon; h++) {
+      if (h > 1) {
+        const j = h - 1;
+        const c =
+          params.alpha * (1 + j * params.beta) +
+          (j % season === 0 ? params.gamma : 0);
+        variance += c * c;
+      }
+      point.push(
+        state.level + h * state.trend + state.seasonals[(n + h - 1) % season],
+      );
+      standardError.push(sigma * Math.sqrt(variance));
+    }
+
+    return { model: this.name, point, standardError };
+  }
+
+  /**
+   * Run the recursions over the history; errors of the first season, which
+   * initializes the components, are not counted
+   */
+  private smooth(
+    history: number[],
+    season: number,
+    { alpha, beta, gamma }: SmoothingParams,
+  ): SmoothingState {
+    const first = mean(history.slice(0, season));
+    const second = mean(history.slice(season, 2 * season));
+    let level = first;
+    let trend = (second - first) / season;
+    const seasonals = history.slice(0, season).map((value) => value - first);
+    let sse = 0;
+    let errors = 0;
+
+    for (let t = 0; t < history.length; t++) {
+      const index = t % season;
+      if (t >= season) {
+        const error = history[t] - (level + trend + seasonals[index]);
+        sse += error * error;
+        errors++;
+      }
+
+      const previousLevel = level;
+      level =
+        alpha * (history[t] - seasonals[index]) + (1 - alpha) * (level + trend);
+      trend = beta * (level - previousLevel) + (1 - beta) * trend;
+      seasonals[index] =
+        gamma * (history[t] - level) + (1 - gamma) * seasonals[index];
+    }
+
+    return { level, trend, seasonals, sse, errors };
+  }
+}
@@ -0,0 +1,35 @@
+import { ForecastFit, ForecastModel } from './forecast-model.interface';
+import { stdDev } from '../algorithms/statistics';
+
+/**
+ * Seasonal naive: each hour repeats the same hour of the last season. The
+ * error scale comes from the history's season-over-season differences and
+ * grows with the number of seasons ahead.
+ */
+export class SeasonalNaiveModel implements ForecastModel {
+  readonly name = 'seasonal_naive' as const;
+  readonly minSeasons = 1;
+
+  fit(history: number[], season: number, horizon: number): ForecastFit {
+    const n = history.length;
+    const residuals = history
+      .slice(season)
+      .map((value, index) => value - history[index]);
+    const sigma =
+      residuals.length > 0
+        ? Math.sqrt(
+            residuals.reduce((sum, error) => sum + error * error, 0) /
+              residuals.length,
+          )
+        : stdDev(history);
+
+    const point: number[] = [];
+    const standardError: number[] = [];
+    for (let h = 1; h <= horizon; h++) {
+      point.push(history[n - season + ((h - 1) % season)]);
+      standardError.push(sigma * Math.sqrt(Math.floor((h - 1) / season) + 1));
+    }
+
+    return { model: this.name, point, standardError };
+  }
+}
@@ -0,0 +1,38 @@
+import { SliceDimension, SliceKey } from './slice.interface';
+
+/**
+ * How much one dimension value (e.g. referrer=Instagram) moved the metric
+ */
+export interface SliceContribution {
+  dimension: SliceDimension;
+  value: string;
+  baselineValue: number; // slice's hourly baseline (sum) or weighted term (average)
+  currentValue: number;
+  delta: number; // contribution to the total change, in metric units
+  share: number; // delta / totalChange; negative when moving against the change
+}
+
+export interface DimensionBreakdown {
+  dimension: SliceDimension;
+  contributors: SliceContribution[]; // sorted by |delta| descending
+}
+
+export interface ContributionBreakdown {
+  page: string;
+  metric: string;
+  timestamp: Date;
+  scope: SliceKey; // dimensions held fixed (the anomaly's page or slice)
+  baselineStart: Date;
+  baselineEnd: Date;
+  baselineValue: number;
+  currentValue: number;
+  totalChange: number;
+  dimensions: DimensionBreakdown[];
+  topContributors: SliceContribution[];
+}
+
+export interface ContributionOptions {
+  baselineStart: Date;
+  baselineEnd: Date;
+  topN?: number;
+}
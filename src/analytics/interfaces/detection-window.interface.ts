@@ -0,0 +1,25 @@
+export const DEFAULT_RECENT_HOURS = 6;
+export const DEFAULT_BASELINE_HOURS = 24;
+
+/**
+ * Caller-supplied detection settings; anything omitted falls back to the defaults
+ */
+export interface DetectionOptions {
+  recentHours?: number;
+  baselineHours?: number;
+  asOf?: Date;
+}
+
+/**
+ * Resolved time ranges for a detection run.
+ * Recent period: [recentStart, asOf)
+ * Baseline period: [baselineStart, baselineEnd), immediately before the recent period
+ */
+export interface DetectionWindow {
+  asOf: Date;
+  recentHours: number;
+  baselineHours: number;
+  recentStart: Date;
+  baselineStart: Date;
+  baselineEnd: Date;
+}
@@ -0,0 +1,31 @@
+import {
+  ForecastLevel,
+  ForecastModelName,
+} from '../forecasting/forecast.constants';
+
+export interface ForecastOptions {
+  metric: string;
+  page?: string; // omit for the site-wide total
+  horizon?: number; // hours
+  model?: ForecastModelName; // default: best the history allows
+  level?: ForecastLevel;
+  asOf?: Date; // the forecast starts at this hour; defaults to the current hour
+}
+
+export interface ForecastPoint {
+  timestamp: Date; // hour bucket
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface ForecastResult {
+  metric: string;
+  page: string | null;
+  model: ForecastModelName;
+  level: ForecastLevel;
+  horizon: number;
+  historyFrom: Date;
+  historyTo: Date;
+  points: ForecastPoint[];
+}
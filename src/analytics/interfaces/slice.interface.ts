@@ -0,0 +1,55 @@
+export const SLICE_DIMENSIONS = [
+  'page',
+  'pageCategory',
+  'deviceType',
+  'referrer',
+  'region',
+  'package',
+  'currency',
+] as const;
+
+export type SliceDimension = (typeof SLICE_DIMENSIONS)[number];
+
+/**
+ * Dimension values identifying one slice, e.g. `{ page: '/checkout', deviceType: 'Mobile' }`
+ */
+export type SliceKey = Partial<Record<SliceDimension, string>>;
+
+/**
+ * Allowed values per dimension, e.g. `{ deviceType: ['Mobile', 'Tablet'] }`
+ */
+export type SliceFilter = Partial<Record<SliceDimension, string[]>>;
+
+export interface GranularDetectionConfig {
+  /**
+   * Dimension combinations to slice by; each must include page or pageCategory
+   */
+  combinations: SliceDimension[][];
+  /**
+   * Slices averaging fewer baseline pageviews per hour are skipped as noise
+   */
+  minSliceVolume: number;
+}
+
+export const DEFAULT_GRANULAR_DETECTION_CONFIG: GranularDetectionConfig = {
+  combinations: [
+    ['page', 'deviceType'],
+    ['page', 'referrer'],
+    ['page', 'region'],
+  ],
+  minSliceVolume: 20,
+};
+
+/**
+ * Category rollups ("All Beach packages down 30% on mobile"); slices without
+ * a page, reported with page `category:<name>`
+ */
+export const DEFAULT_CATEGORY_DETECTION_CONFIG: GranularDetectionConfig = {
+  combinations: [
+    ['pageCategory'],
+    ['pageCategory', 'deviceType'],
+    ['pageCategory', 'referrer'],
+    ['pageCategory', 'region'],
+  ],
+  minSliceVolume: 50,
+};
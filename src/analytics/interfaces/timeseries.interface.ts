@@ -0,0 +1,32 @@
+import { TimeGranularity } from '../metrics/metric-series';
+import { SliceDimension, SliceFilter, SliceKey } from './slice.interface';
+
+export interface TimeseriesOptions {
+  metric: string;
+  from?: Date;
+  to?: Date;
+  granularity?: TimeGranularity;
+  groupBy?: SliceDimension[];
+  filter?: Record<string, string | string[]>;
+}
+
+export interface TimeseriesPoint {
+  timestamp: Date; // bucket start
+  value: number;
+}
+
+export interface Timeseries {
+  group: SliceKey;
+  points: TimeseriesPoint[];
+}
+
+export interface TimeseriesResult {
+  metric: string;
+  aggregation: 'sum' | 'weighted_average';
+  granularity: TimeGranularity;
+  from: Date;
+  to: Date;
+  groupBy: SliceDimension[];
+  filters: SliceFilter;
+  series: Timeseries[];
+}
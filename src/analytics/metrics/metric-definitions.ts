@@ -0,0 +1,118 @@
+import { AlertRuleMetric } from '../../alert-rules/alert-rule.constants';
+
+export type MetricSource =
+  | 'pageviews'
+  | 'useractions'
+  | 'performance'
+  | 'bookings';
+
+export const METRIC_SOURCES: MetricSource[] = [
+  'pageviews',
+  'useractions',
+  'performance',
+  'bookings',
+];
+
+export interface MetricDefinition {
+  metric: AlertRuleMetric;
+  metricType: string;
+  source: MetricSource;
+  field: string;
+  /**
+   * How hourly rows combine when rolled up: counts are summed, rates and
+   * durations are averaged (weighted by `weightField` when it is populated)
+   */
+  aggregation: 'sum' | 'average';
+  weightField?: string;
+}
+
+export const METRIC_DEFINITIONS: MetricDefinition[] = [
+  {
+    metric: 'PageViews',
+    metricType: 'Traffic',
+    source: 'pageviews',
+    field: 'viewCount',
+    aggregation: 'sum',
+  },
+  {
+    metric: 'Session Duration',
+    metricType: 'UserActions',
+    source: 'useractions',
+    field: 'avgSessionDuration',
+    aggregation: 'average',
+    weightField: 'sessionCount',
+  },
+  {
+    metric: 'Bounce Rate',
+    metricType: 'Engagement',
+    source: 'useractions',
+    field: 'bounceRate',
+    aggregation: 'average',
+    weightField: 'sessionCount',
+  },
+  {
+    metric: 'Conversion Rate',
+    metricType: 'Conversion',
+    source: 'useractions',
+    field: 'conversionRate',
+    aggregation: 'average',
+    weightField: 'sessionCount',
+  },
+  {
+    metric: 'Load Time',
+    metricType: 'Performance',
+    source: 'performance',
+    field: 'avgLoadTime',
+    aggregation: 'average',
+    weightField: 'sampleCount',
+  },
+  {
+    metric: 'Error Rate',
+    metricType: 'Performance',
+    source: 'performance',
+    field: 'errorRate',
+    aggregation: 'average',
+    weightField: 'sampleCount',
+  },
+  {
+    metric: 'Bookings',
+    metricType: 'Bookings',
+    source: 'bookings',
+    field: 'bookingCount',
+    aggregation: 'sum',
+  },
+  {
+    metric: 'Revenue',
+    metricType: 'Revenue',
+    source: 'bookings',
+    field: 'revenue',
+    aggregation: 'sum',
+  },
+  {
+    metric: 'Cancellation Rate',
+    metricType: 'Bookings',
+    source: 'bookings',
+    field: 'cancellationRate',
+    aggregation: 'average',
+    weightField: 'bookingCount',
+  },
+];
+
+/**
+ * Dimensions present on each hourly table (performance is not split by
+ * referrer; only bookings carry the package and currency)
+ */
+export const SOURCE_DIMENSIONS: Record<MetricSource, string[]> = {
+  pageviews: ['page', 'pageCategory', 'deviceType', 'referrer', 'region'],
+  useractions: ['page', 'pageCategory', 'deviceType', 'referrer', 'region'],
+  performance: ['page', 'pageCategory', 'deviceType', 'region'],
+  bookings: [
+    'page',
+    'pageCategory',
+    'deviceType',
+    'referrer',
+    'region',
+    'package',
+    'currency',
+  ],
+};
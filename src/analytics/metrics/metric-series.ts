@@ -0,0 +1,142 @@
+import { Prisma } from '@prisma/client';
+import {
+  METRIC_DEFINITIONS,
+  MetricDefinition,
+  MetricSource,
+  SOURCE_DIMENSIONS,
+} from './metric-definitions';
+import { SliceDimension, SliceFilter } from '../interfaces/slice.interface';
+
+const SOURCE_TABLES: Record<MetricSource, string> = {
+  pageviews: 'pageviews_hourly',
+  useractions: 'useractions_hourly',
+  performance: 'performance_hourly',
+  bookings: 'bookings_hourly',
+};
+
+/**
+ * Column ranking rows within a group when describing it by its dominant
+ * dimension values (e.g. the referrer bringing most views in that hour)
+ */
+const SOURCE_VOLUME_FIELDS: Record<MetricSource, string> = {
+  pageviews: 'viewCount',
+  useractions: 'sessionCount',
+  performance: 'sampleCount',
+  bookings: 'bookingCount',
+};
+
+export const TIME_GRANULARITIES = ['hour', 'day', 'week'] as const;
+
+export type TimeGranularity = (typeof TIME_GRANULARITIES)[number];
+
+export interface MetricSeriesQuery {
+  tenantId: string;
+  source: MetricSource;
+  groupBy: SliceDimension[];
+  from: Date;
+  to: Date;
+  /**
+   * Bucket size; rows are stored hourly so `hour` keeps their timestamps
+   */
+  granularity?: TimeGranularity;
+  /**
+   * Ungrouped dimensions to report by their dominant value per group
+   */
+  describe?: SliceDimension[];
+  filters?: SliceFilter;
+  /**
+   * Metrics to aggregate (default: every metric of the table)
+   */
+  metrics?: MetricDefinition[];
+}
+
+/**
+ * One grouped query rolling a tenant's table up into time series: one row
+ * per bucket and group (bucket start as `timestamp`), with each metric aggregated under
+ * its column name. Counts are summed; averages are weighted by `weightField`
+ * when every row in the group carries it, and plain averages otherwise.
+ *
+ * Identifiers come from the metric/dimension constants, never from input.
+ */
+export function metricSeriesSql(query: MetricSeriesQuery): Prisma.Sql {
+  const {
+    tenantId,
+    source,
+    groupBy,
+    from,
+    to,
+    granularity = 'hour',
+    describe = [],
+    filters = {},
+  } = query;
+  const metrics =
+    query.metrics ??
+    METRIC_DEFINITIONS.filter((definition) => definition.source === source);
+  const available = SOURCE_DIMENSIONS[source];
+  const volumeField = SOURCE_VOLUME_FIELDS[source];
+
+  const bucket =
+    granularity === 'hour'
+      ? Prisma.sql`"timestamp"`
+      : Prisma.sql`date_trunc(${Prisma.raw(`'${granularity}'`)}, "timestamp")`;
+  const groupColumns = groupBy.map((dimension) => identifier(dimension));
+  const selections = [
+    Prisma.sql`${bucket} AS "timestamp"`,
+    ...groupColumns,
+    ...(groupBy.includes('pageCategory')
+      ? []
+      : [Prisma.sql`MIN("pageCategory") AS "pageCategory"`]),
+    ...describe
+      .filter(
+        (dimension) =>
+          available.includes(dimension) && !groupBy.includes(dimension),
+      )
+      .map(
+        (dimension) =>
+          Prisma.sql`(array_agg(${identifier(dimension)} ORDER BY ${identifier(volumeField)} DESC))[1] AS ${identifier(dimension)}`,
+      ),
+    ...metrics.map(
+      (definition) =>
+        Prisma.sql`${aggregateExpression(definition)} AS ${identifier(definition.field)}`,
+    ),
+  ];
+
+  const conditions = [
+    Prisma.sql`"tenantId" = ${tenantId}`,
+    Prisma.sql`"timestamp" >= ${from}`,
+    Prisma.sql`"timestamp" < ${to}`,
+    ...Object.entries(filters).map(
+      ([dimension, values]) =>
+        Prisma.sql`${identifier(dimension)} = ANY(${values})`,
+    ),
+  ];
+
+  return Prisma.sql`
+    SELECT ${Prisma.join(selections)}
+    FROM ${identifier(SOURCE_TABLES[source])}
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    GROUP BY ${Prisma.join([bucket, ...groupColumns])}
+    ORDER BY ${bucket}
+  `;
+}
+
+function aggregateExpression(definition: MetricDefinition): Prisma.Sql {
+  const field = identifier(definition.field);
+
+  if (definition.aggregation === 'sum') {
+    return Prisma.sql`SUM(${field})::float8`;
+  }
+  if (!definition.weightField) {
+    return Prisma.sql`AVG(${field})::float8`;
+  }
+
+  const weight = identifier(definition.weightField);
+  return Prisma.sql`CASE
+    WHEN bool_and(${weight} > 0) THEN SUM(${field} * ${weight})::float8 / SUM(${weight})
+    ELSE AVG(${field})::float8
+  END`;
+}
+
+function identifier(name: string): Prisma.Sql {
+  return Prisma.raw(`"${name}"`);
+}
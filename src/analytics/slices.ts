@@ -0,0 +1,108 @@
+import {
+  DEFAULT_CATEGORY_DETECTION_CONFIG,
+  DEFAULT_GRANULAR_DETECTION_CONFIG,
+  GranularDetectionConfig,
+  SLICE_DIMENSIONS,
+  SliceDimension,
+  SliceKey,
+} from './interfaces/slice.interface';
+import { SOURCE_DIMENSIONS } from './metrics/metric-definitions';
+
+/**
+ * Stable string form of a slice, e.g. `page=/checkout|deviceType=Mobile`
+ */
+export function formatSliceKey(slice: SliceKey): string {
+  return SLICE_DIMENSIONS.filter((dimension) => slice[dimension] !== undefined)
+    .map((dimension) => `${dimension}=${slice[dimension]}`)
+    .join('|');
+}
+
+/**
+ * Category-level slices roll up every page of a category
+ */
+export function isCategorySlice(slice: SliceKey): boolean {
+  return slice.page === undefined && slice.pageCategory !== undefined;
+}
+
+/**
+ * Parse combinations such as `page:deviceType,pageCategory:deviceType`.
+ * Each must include page or pageCategory, or only pageCategory at the
+ * category level. Slices are gated on their pageviews, so dimensions only
+ * bookings carry (package, currency) are rejected. Returns null when any
+ * combination is invalid.
+ */
+export function parseSliceCombinations(
+  value: string,
+  level: 'any' | 'category' = 'any',
+): SliceDimension[][] | null {
+  const combinations = value
+    .split(',')
+    .map((combination) => combination.trim())
+    .filter((combination) => combination !== '')
+    .map((combination) =>
+      combination.split(':').map((dimension) => dimension.trim()),
+    );
+
+  const valid = combinations.every(
+    (dimensions) =>
+      dimensions.every((dimension) =>
+        SOURCE_DIMENSIONS.pageviews.includes(dimension),
+      ) &&
+      (level === 'category'
+        ? dimensions.includes('pageCategory') && !dimensions.includes('page')
+        : dimensions.includes('page') || dimensions.includes('pageCategory')) &&
+      new Set(dimensions).size === dimensions.length,
+  );
+
+  return valid && combinations.length > 0
+    ? (combinations as SliceDimension[][])
+    : null;
+}
+
+/**
+ * Granular detection settings from GRANULAR_SLICES and GRANULAR_MIN_SLICE_VOLUME
+ */
+export function loadGranularDetectionConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): GranularDetectionConfig {
+  return loadSliceConfig(
+    env.GRANULAR_SLICES,
+    env.GRANULAR_MIN_SLICE_VOLUME,
+    DEFAULT_GRANULAR_DETECTION_CONFIG,
+    'any',
+  );
+}
+
+/**
+ * Category detection settings from CATEGORY_SLICES and CATEGORY_MIN_SLICE_VOLUME
+ */
+export function loadCategoryDetectionConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): GranularDetectionConfig {
+  return loadSliceConfig(
+    env.CATEGORY_SLICES,
+    env.CATEGORY_MIN_SLICE_VOLUME,
+    DEFAULT_CATEGORY_DETECTION_CONFIG,
+    'category',
+  );
+}
+
+function loadSliceConfig(
+  slices: string | undefined,
+  minVolume: string | undefined,
+  defaults: GranularDetectionConfig,
+  level: 'any' | 'category',
+): GranularDetectionConfig {
+  const combinations = slices ? parseSliceCombinations(slices, level) : null;
+  const minSliceVolume = Number(minVolume);
+
+  return {
+    combinations: combinations ?? defaults.combinations,
+    minSliceVolume:
+      minVolume !== undefined &&
+      Number.isFinite(minSliceVolume) &&
+      minSliceVolume >= 0
+        ? minSliceVolume
+        : defaults.minSliceVolume,
+  };
+}
@@ -1,25 +1,48 @@
-import { Module } from '@nestjs/common';
+import { MiddlewareConsumer, Module, NestModule } from '@nestjs/common';
 import { CacheModule } from '@nestjs/cache-manager';
+import { ScheduleModule } from '@nestjs/schedule';
 import { AppController } from './app.controller';
 import { AppService } from './app.service';
 import { PrismaModule } from 'prisma/prisma.module';
 import { InsightsModule } from './insights/insights.module';
 import { AnalyticsModule } from './analytics/analytics.module';
 import { SeedModule } from './seed/seed.module';
+import { IngestModule } from './ingest/ingest.module';
+import { AlertRulesModule } from './alert-rules/alert-rules.module';
+import { FunnelsModule } from './funnels/funnels.module';
+import { DetectionModule } from './detection/detection.module';
+import { WebhooksModule } from './webhooks/webhooks.module';
+import { DigestModule } from './digest/digest.module';
+import { BookingValuesModule } from './booking-values/booking-values.module';
+import { AuthModule } from './auth/auth.module';
+import { TenantMiddleware } from './tenants/tenant.middleware';
 
 @Module({
   imports: [
     PrismaModule,
+    AuthModule,
     CacheModule.register({
       isGlobal: true, // Make cache available to all modules
       ttl: 900, // 15 minutes in seconds
       max: 100, // maximum number of items in cache
     }),
+    ScheduleModule.forRoot(),
     InsightsModule,
     AnalyticsModule,
     SeedModule,
+    IngestModule,
+    AlertRulesModule,
+    FunnelsModule,
+    DetectionModule,
+    WebhooksModule,
+    DigestModule,
+    BookingValuesModule,
   ],
   controllers: [AppController],
   providers: [AppService],
 })
-export class AppModule {}
+export class AppModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer.apply(TenantMiddleware).forRoutes('{*path}');
+  }
+}
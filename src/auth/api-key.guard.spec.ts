@@ -0,0 +1,112 @@
+import {
+  ExecutionContext,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiKeyGuard } from './api-key.guard';
+import { ApiKeysService } from './api-keys.service';
+import { ApiKeyRole } from './auth.constants';
+import {
+  AuthenticatedRequest,
+  PublicApiKey,
+} from './interfaces/api-key.interface';
+import { Public, RequireRole } from './roles.decorator';
+
+class TestController {
+  @Public()
+  health() {}
+
+  list() {}
+
+  @RequireRole('admin')
+  configure() {}
+}
+
+describe('ApiKeyGuard', () => {
+  const keys: Record<string, PublicApiKey> = {};
+  const apiKeys = {
+    authenticate: jest.fn((key: string) => Promise.resolve(keys[key] ?? null)),
+  };
+  const guard = new ApiKeyGuard(
+    new Reflector(),
+    apiKeys as unknown as ApiKeysService,
+  );
+
+  const addKey = (key: string, role: ApiKeyRole, tenantId = 'default') => {
+    keys[key] = {
+      id: Object.keys(keys).length + 1,
+      tenantId,
+      name: key,
+      role,
+      keyPrefix: key.slice(0, 10),
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+  };
+
+  const request = (headers: Record<string, string>, tenantId = 'default') =>
+    ({
+      tenantId,
+      header: (name: string) => headers[name],
+    }) as unknown as AuthenticatedRequest;
+
+  const context = (
+    handler: keyof TestController,
+    req: AuthenticatedRequest,
+  ): ExecutionContext =>
+    ({
+      getHandler: () => TestController.prototype[handler],
+      getClass: () => TestController,
+      switchToHttp: () => ({ getRequest: () => req }),
+    }) as unknown as ExecutionContext;
+
+  beforeAll(() => {
+    addKey('ie_viewer', 'viewer');
+    addKey('ie_admin', 'admin', 'agents');
+  });
+
+  it('serves public routes without a key and rejects missing or unknown keys', async () => {
+    await expect(
+      guard.canActivate(context('health', request({}))),
+    ).resolves.toBe(true);
+    await expect(
+      guard.canActivate(context('list', request({}))),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(
+      guard.canActivate(
+        context('list', request({ 'x-api-key': 'ie_unknown' })),
+      ),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+
+  it('checks the role the route requires', async () => {
+    const viewer = request({ 'x-api-key': 'ie_viewer' });
+
+    await expect(guard.canActivate(context('list', viewer))).resolves.toBe(
+      true,
+    );
+    expect(viewer.apiKey.role).toBe('viewer');
+    await expect(
+      guard.canActivate(context('configure', viewer)),
+    ).rejects.toThrow(ForbiddenException);
+  });
+
+  it("switches requests to the key's tenant unless they name another one", async () => {
+    const implicit = request({ 'x-api-key': 'ie_admin' });
+
+    await expect(
+      guard.canActivate(context('configure', implicit)),
+    ).resolves.toBe(true);
+    expect(implicit.tenantId).toBe('agents');
+    await expect(
+      guard.canActivate(
+        context(
+          'configure',
+          request({ 'x-api-key': 'ie_admin', 'x-tenant-id': 'default' }),
+        ),
+      ),
+    ).rejects.toThrow(ForbiddenException);
+  });
+});
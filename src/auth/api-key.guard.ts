@@ -0,0 +1,64 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { TENANT_HEADER } from '../tenants/tenant.constants';
+import { API_KEY_HEADER, ApiKeyRole, hasRole } from './auth.constants';
+import { ApiKeysService } from './api-keys.service';
+import { AuthenticatedRequest } from './interfaces/api-key.interface';
+import { IS_PUBLIC_KEY, REQUIRED_ROLE_KEY } from './roles.decorator';
+
+/**
+ * Authenticate every request by its X-Api-Key header and check the key's
+ * role against the route's @RequireRole (viewer when absent). A key acts for
+ * its own tenant: requests without X-Tenant-Id are switched to it, requests
+ * naming another tenant are refused.
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private apiKeys: ApiKeysService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const targets = [context.getHandler(), context.getClass()];
+    if (this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets)) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const key = request.header(API_KEY_HEADER)?.trim();
+    if (!key) {
+      throw new UnauthorizedException(
+        `Missing API key; send it in the ${API_KEY_HEADER} header`,
+      );
+    }
+    const apiKey = await this.apiKeys.authenticate(key);
+    if (!apiKey) {
+      throw new UnauthorizedException('Invalid or revoked API key');
+    }
+
+    if (request.header(TENANT_HEADER) && request.tenantId !== apiKey.tenantId) {
+      throw new ForbiddenException(
+        `API key is not valid for tenant ${request.tenantId}`,
+      );
+    }
+    const requiredRole =
+      this.reflector.getAllAndOverride<ApiKeyRole>(
+        REQUIRED_ROLE_KEY,
+        targets,
+      ) ?? 'viewer';
+    if (!hasRole(apiKey.role, requiredRole)) {
+      throw new ForbiddenException(`Requires the ${requiredRole} role`);
+    }
+
+    request.tenantId = apiKey.tenantId;
+    request.apiKey = apiKey;
+    return true;
+  }
+}
@@ -0,0 +1,110 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ApiKey } from '@prisma/client';
+import { createHash, randomBytes } from 'crypto';
+import { PrismaService } from 'prisma/prisma.service';
+import {
+  API_KEY_BYTES,
+  API_KEY_PREFIX,
+  ApiKeyRole,
+  KEY_PREFIX_LENGTH,
+  LAST_USED_INTERVAL_MS,
+  isApiKeyRole,
+} from './auth.constants';
+import { CreatedApiKey, PublicApiKey } from './interfaces/api-key.interface';
+
+@Injectable()
+export class ApiKeysService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Generate a key for a tenant; only its hash is stored
+   */
+  async create(
+    tenantId: string,
+    name: string,
+    role: ApiKeyRole,
+  ): Promise<CreatedApiKey> {
+    const key = `${API_KEY_PREFIX}${randomBytes(API_KEY_BYTES).toString('base64url')}`;
+    const apiKey = await this.prisma.apiKey.create({
+      data: {
+        tenantId,
+        name,
+        role,
+        keyPrefix: key.slice(0, KEY_PREFIX_LENGTH),
+        keyHash: hashApiKey(key),
+      },
+    });
+
+    return { apiKey: toPublic(apiKey), key };
+  }
+
+  async findAll(tenantId?: string): Promise<PublicApiKey[]> {
+    const apiKeys = await this.prisma.apiKey.findMany({
+      where: tenantId ? { tenantId } : {},
+      orderBy: { id: 'asc' },
+    });
+    return apiKeys.map(toPublic);
+  }
+
+  async revoke(id: number): Promise<PublicApiKey> {
+    const apiKey = await this.prisma.apiKey.findUnique({ where: { id } });
+    if (!apiKey) {
+      throw new NotFoundException(`API key ${id} not found`);
+    }
+    if (apiKey.revokedAt) {
+      return toPublic(apiKey);
+    }
+
+    return toPublic(
+      await this.prisma.apiKey.update({
+        where: { id },
+        data: { revokedAt: new Date() },
+      }),
+    );
+  }
+
+  /**
+   * The active key matching a presented key, or null. Keys are random 256-bit
+   * values, so an unsalted SHA-256 lookup is enough; no slow hash is needed.
+   */
+  async authenticate(key: string): Promise<PublicApiKey | null> {
+    const apiKey = await this.prisma.apiKey.findUnique({
+      where: { keyHash: hashApiKey(key) },
+    });
+    if (!apiKey || apiKey.revokedAt || !isApiKeyRole(apiKey.role)) {
+      return null;
+    }
+
+    const now = new Date();
+    if (
+      !apiKey.lastUsedAt ||
+      now.getTime() - apiKey.lastUsedAt.getTime() >= LAST_USED_INTERVAL_MS
+    ) {
+      // Bookkeeping only: a failed write must not fail the request
+      this.prisma.apiKey
+        .update({ where: { id: apiKey.id }, data: { lastUsedAt: now } })
+        .catch((error) =>
+          console.warn(`Failed to record use of API key ${apiKey.id}:`, error),
+        );
+    }
+
+    return toPublic(apiKey);
+  }
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toPublic(apiKey: ApiKey): PublicApiKey {
+  return {
+    id: apiKey.id,
+    tenantId: apiKey.tenantId,
+    name: apiKey.name,
+    role: isApiKeyRole(apiKey.role) ? apiKey.role : 'viewer',
+    keyPrefix: apiKey.keyPrefix,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Request header carrying the API key
+ */
+export const API_KEY_HEADER = 'x-api-key';
+
+/**
+ * Roles from least to most privileged; each role may do everything the
+ * roles before it may
+ */
+export const API_KEY_ROLES = ['viewer', 'analyst', 'admin'] as const;
+
+export type ApiKeyRole = (typeof API_KEY_ROLES)[number];
+
+/**
+ * Keys look like `ie_<43 base64url characters>`; the prefix makes leaked keys
+ * easy to recognize and the first KEY_PREFIX_LENGTH characters are kept to
+ * tell keys apart in listings
+ */
+export const API_KEY_PREFIX = 'ie_';
+export const API_KEY_BYTES = 32;
+export const KEY_PREFIX_LENGTH = 10;
+
+/**
+ * lastUsedAt is written at most this often per key
+ */
+export const LAST_USED_INTERVAL_MS = 5 * 60 * 1000;
+
+export function hasRole(role: ApiKeyRole, required: ApiKeyRole): boolean {
+  return API_KEY_ROLES.indexOf(role) >= API_KEY_ROLES.indexOf(required);
+}
+
+export function isApiKeyRole(value: unknown): value is ApiKeyRole {
+  return (API_KEY_ROLES as readonly unknown[]).includes(value);
+}
@@ -0,0 +1,22 @@
+import { ApiKey } from '@prisma/client';
+import { TenantRequest } from '../../tenants/tenant-request.interface';
+import { ApiKeyRole } from '../auth.constants';
+
+/**
+ * Stored key without its hash
+ */
+export type PublicApiKey = Omit<ApiKey, 'keyHash' | 'role'> & {
+  role: ApiKeyRole;
+};
+
+/**
+ * A newly created key; `key` is shown once and cannot be recovered
+ */
+export interface CreatedApiKey {
+  apiKey: PublicApiKey;
+  key: string;
+}
+
+export interface AuthenticatedRequest extends TenantRequest {
+  apiKey: PublicApiKey; // set by ApiKeyGuard
+}
@@ -0,0 +1,17 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiKeyRole } from './auth.constants';
+
+export const REQUIRED_ROLE_KEY = 'requiredRole';
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/**
+ * Least privileged role allowed to call a handler or every handler of a
+ * controller. Routes without it are open to every valid key (viewer).
+ */
+export const RequireRole = (role: ApiKeyRole) =>
+  SetMetadata(REQUIRED_ROLE_KEY, role);
+
+/**
+ * Serve the route without an API key
+ */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
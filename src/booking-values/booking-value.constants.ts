@@ -0,0 +1,29 @@
+/**
+ * Used for pages with neither a page nor a category booking value
+ */
+export const DEFAULT_AVG_BOOKING_VALUE = 20000;
+export const DEFAULT_BOOKING_CURRENCY = 'INR';
+
+export interface BookingValueConfig {
+  defaultAvgBookingValue: number;
+  currency: string;
+}
+
+/**
+ * Fallback value and currency from DEFAULT_AVG_BOOKING_VALUE and BOOKING_CURRENCY
+ */
+export function loadBookingValueConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): BookingValueConfig {
+  const value = Number(env.DEFAULT_AVG_BOOKING_VALUE);
+
+  return {
+    defaultAvgBookingValue:
+      env.DEFAULT_AVG_BOOKING_VALUE !== undefined &&
+      Number.isFinite(value) &&
+      value >= 0
+        ? value
+        : DEFAULT_AVG_BOOKING_VALUE,
+    currency: env.BOOKING_CURRENCY || DEFAULT_BOOKING_CURRENCY,
+  };
+}
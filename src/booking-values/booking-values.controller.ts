@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { BookingValue } from '@prisma/client';
+import { BookingValuesService } from './booking-values.service';
+import { CreateBookingValueDto } from './dto/create-booking-value.dto';
+import { UpdateBookingValueDto } from './dto/update-booking-value.dto';
+import { TenantId } from '../tenants/tenant.decorator';
+import { RequireRole } from '../auth/roles.decorator';
+
+@Controller('booking-values')
+export class BookingValuesController {
+  constructor(private readonly bookingValuesService: BookingValuesService) {}
+
+  @Post()
+  @RequireRole('admin')
+  async create(
+    @TenantId() tenantId: string,
+    @Body() dto: CreateBookingValueDto,
+  ): Promise<BookingValue> {
+    return this.bookingValuesService.create(tenantId, dto);
+  }
+
+  @Get()
+  async findAll(@TenantId() tenantId: string): Promise<BookingValue[]> {
+    return this.bookingValuesService.findAll(tenantId);
+  }
+
+  @Get(':id')
+  async findOne(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<BookingValue> {
+    return this.bookingValuesService.findOne(tenantId, id);
+  }
+
+  @Patch(':id')
+  @RequireRole('admin')
+  async update(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateBookingValueDto,
+  ): Promise<BookingValue> {
+    return this.bookingValuesService.update(tenantId, id, dto);
+  }
+
+  @Delete(':id')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.bookingValuesService.remove(tenantId, id);
+  }
+}
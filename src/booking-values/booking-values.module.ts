@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { BookingValuesController } from './booking-values.controller';
+import { BookingValuesService } from './booking-values.service';
+
+@Module({
+  controllers: [BookingValuesController],
+  providers: [BookingValuesService],
+  exports: [BookingValuesService],
+})
+export class BookingValuesModule {}
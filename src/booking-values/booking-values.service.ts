@@ -0,0 +1,137 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { BookingValue, Prisma } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { CreateBookingValueDto } from './dto/create-booking-value.dto';
+import { UpdateBookingValueDto } from './dto/update-booking-value.dto';
+import { loadBookingValueConfig } from './booking-value.constants';
+
+/**
+ * Average booking value that applies to a page, and where it came from
+ */
+export interface ResolvedBookingValue {
+  avgBookingValue: number;
+  currency: string;
+  source: 'page' | 'category' | 'default';
+}
+
+@Injectable()
+export class BookingValuesService {
+  private readonly config = loadBookingValueConfig();
+
+  constructor(private prisma: PrismaService) {}
+
+  async create(
+    tenantId: string,
+    dto: CreateBookingValueDto,
+  ): Promise<BookingValue> {
+    this.assertScope(dto.page, dto.pageCategory);
+    return this.withUniqueScope(() =>
+      this.prisma.bookingValue.create({ data: { ...dto, tenantId } }),
+    );
+  }
+
+  async findAll(tenantId: string): Promise<BookingValue[]> {
+    return this.prisma.bookingValue.findMany({
+      where: { tenantId },
+      orderBy: [{ pageCategory: 'asc' }, { page: 'asc' }],
+    });
+  }
+
+  async findOne(tenantId: string, id: number): Promise<BookingValue> {
+    const value = await this.prisma.bookingValue.findFirst({
+      where: { id, tenantId },
+    });
+    if (!value) {
+      throw new NotFoundException(`Booking value ${id} not found`);
+    }
+    return value;
+  }
+
+  async update(
+    tenantId: string,
+    id: number,
+    dto: UpdateBookingValueDto,
+  ): Promise<BookingValue> {
+    const existing = await this.findOne(tenantId, id);
+    // Setting one scope field replaces the other
+    const scope =
+      dto.page !== undefined
+        ? { page: dto.page, pageCategory: null }
+        : dto.pageCategory !== undefined
+          ? { page: null, pageCategory: dto.pageCategory }
+          : { page: existing.page, pageCategory: existing.pageCategory };
+    this.assertScope(scope.page, scope.pageCategory);
+
+    return this.withUniqueScope(() =>
+      this.prisma.bookingValue.update({
+        where: { id },
+        data: { ...scope, avgBookingValue: dto.avgBookingValue },
+      }),
+    );
+  }
+
+  async remove(tenantId: string, id: number): Promise<void> {
+    await this.findOne(tenantId, id);
+    await this.prisma.bookingValue.delete({ where: { id } });
+  }
+
+  /**
+   * Value for a page: its own, else its category's, else the configured
+   * default. `values` is loaded once per detection run with findAll for
+   * the run's tenant.
+   */
+  resolveValue(
+    values: BookingValue[],
+    page: string | undefined,
+    pageCategory: string | undefined,
+  ): ResolvedBookingValue {
+    const pageValue = page && values.find((value) => value.page === page);
+    if (pageValue) {
+      return this.resolved(pageValue.avgBookingValue, 'page');
+    }
+    const categoryValue =
+      pageCategory &&
+      values.find((value) => value.pageCategory === pageCategory);
+    if (categoryValue) {
+      return this.resolved(categoryValue.avgBookingValue, 'category');
+    }
+    return this.resolved(this.config.defaultAvgBookingValue, 'default');
+  }
+
+  private resolved(
+    avgBookingValue: number,
+    source: ResolvedBookingValue['source'],
+  ): ResolvedBookingValue {
+    return { avgBookingValue, currency: this.config.currency, source };
+  }
+
+  private assertScope(
+    page: string | null | undefined,
+    pageCategory: string | null | undefined,
+  ): void {
+    if (!page === !pageCategory) {
+      throw new BadRequestException('Set exactly one of page or pageCategory');
+    }
+  }
+
+  private async withUniqueScope<T>(write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'A booking value for this page or category already exists',
+        );
+      }
+      throw error;
+    }
+  }
+}
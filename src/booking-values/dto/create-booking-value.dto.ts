@@ -0,0 +1,29 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+
+export class CreateBookingValueDto {
+  /**
+   * Page the value applies to; set either page or pageCategory
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  page?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  pageCategory?: string;
+
+  /**
+   * Average revenue of one booking, in BOOKING_CURRENCY
+   */
+  @IsNumber()
+  @Min(0)
+  avgBookingValue: number;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateBookingValueDto } from './create-booking-value.dto';
+
+export class UpdateBookingValueDto extends PartialType(CreateBookingValueDto) {}
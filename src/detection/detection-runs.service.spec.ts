@@ -0,0 +1,89 @@
+import { ConflictException } from '@nestjs/common';
+import { PrismaService } from 'prisma/prisma.service';
+import { InsightsService } from '../insights/insights.service';
+import { InsightsCacheService } from '../insights/insights-cache.service';
+import { DetectionRunsService } from './detection-runs.service';
+
+describe('DetectionRunsService', () => {
+  const startedAt = new Date('2025-11-19T10:00:00Z');
+  const window = {
+    asOf: startedAt,
+    recentStart: startedAt,
+    baselineStart: startedAt,
+    baselineEnd: startedAt,
+  };
+
+  const setup = (runDetection: jest.Mock) => {
+    const update = jest.fn((args: { data: object }) =>
+      Promise.resolve({ id: 1, ...args.data }),
+    );
+    const insightsCache = new InsightsCacheService();
+    const service = new DetectionRunsService(
+      {
+        detectionRun: {
+          create: jest.fn().mockResolvedValue({ id: 1, startedAt }),
+          update,
+        },
+      } as unknown as PrismaService,
+      {
+        resolveWindow: () => window,
+        runDetection,
+        storeInsights: jest.fn().mockResolvedValue([7]),
+      } as unknown as InsightsService,
+      insightsCache,
+    );
+    return { service, update, insightsCache };
+  };
+
+  it('records the outcome of a completed run with stored insight ids', async () => {
+    const { service, insightsCache } = setup(
+      jest.fn().mockResolvedValue({
+        insights: [{ page: '/checkout', metric: 'PageViews' }],
+        anomalyCount: 4,
+      }),
+    );
+
+    await expect(service.run('default', 'manual')).resolves.toMatchObject({
+      status: 'completed',
+      anomalyCount: 4,
+      insightCount: 1,
+      insights: [{ id: 7, page: '/checkout' }],
+    });
+    // Only this tenant's cached insights are invalidated
+    expect(insightsCache.generation('default')).toBe(1);
+    expect(insightsCache.generation('acme')).toBe(0);
+  });
+
+  it('records errors on the run instead of throwing', async () => {
+    const { service } = setup(
+      jest.fn().mockRejectedValue(new Error('connection lost')),
+    );
+
+    await expect(service.run('default', 'scheduled')).resolves.toMatchObject({
+      status: 'failed',
+      error: 'connection lost',
+    });
+    expect(service.isRunning('default')).toBe(false);
+  });
+
+  it('refuses to start a second run for a tenant while one is in progress', async () => {
+    const finishers: ((value: unknown) => void)[] = [];
+    const { service } = setup(
+      jest.fn(() => new Promise((resolve) => finishers.push(resolve))),
+    );
+
+    const first = service.run('default', 'scheduled');
+    await expect(service.run('default', 'manual')).rejects.toBeInstanceOf(
+      ConflictException,
+    );
+    const otherTenant = service.run('agents', 'manual');
+    expect(service.isRunning('agents')).toBe(true);
+
+    // Let both runs reach detection before finishing them
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(finishers).toHaveLength(2);
+    finishers.forEach((finish) => finish({ insights: [], anomalyCount: 0 }));
+    await expect(first).resolves.toMatchObject({ status: 'completed' });
+    await expect(otherTenant).resolves.toMatchObject({ status: 'completed' });
+  });
+});
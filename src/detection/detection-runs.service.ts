@@ -0,0 +1,121 @@
+import { ConflictException, Injectable } from '@nestjs/common';
+import { DetectionRun, Prisma } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { InsightsService } from '../insights/insights.service';
+import { InsightsCacheService } from '../insights/insights-cache.service';
+import { DetectionRunQueryDto } from './dto/detection-run-query.dto';
+import { DetectionRunTrigger } from './detection.constants';
+import { StoredRunInsight } from '../insights/interfaces/insight.interface';
+
+@Injectable()
+export class DetectionRunsService {
+  // One run per tenant at a time per process; a second one would repeat the
+  // same work
+  private readonly activeRuns = new Map<string, Promise<DetectionRun>>();
+
+  constructor(
+    private prisma: PrismaService,
+    private insightsService: InsightsService,
+    private insightsCache: InsightsCacheService,
+  ) {}
+
+  isRunning(tenantId: string): boolean {
+    return this.activeRuns.has(tenantId);
+  }
+
+  /**
+   * Run detection for a tenant over the default window, store its insights
+   * and record the run. Failures are recorded on the run rather than thrown.
+   */
+  async run(
+    tenantId: string,
+    trigger: DetectionRunTrigger,
+  ): Promise<DetectionRun> {
+    if (this.activeRuns.has(tenantId)) {
+      throw new ConflictException(
+        `A detection run for tenant ${tenantId} is already in progress`,
+      );
+    }
+
+    const activeRun = this.execute(tenantId, trigger);
+    this.activeRuns.set(tenantId, activeRun);
+    try {
+      return await activeRun;
+    } finally {
+      this.activeRuns.delete(tenantId);
+    }
+  }
+
+  async findAll(
+    tenantId: string,
+    query: DetectionRunQueryDto = {},
+  ): Promise<DetectionRun[]> {
+    return this.prisma.detectionRun.findMany({
+      where: { tenantId, status: query.status },
+      orderBy: { startedAt: 'desc' },
+      take: query.limit ?? 20,
+    });
+  }
+
+  private async execute(
+    tenantId: string,
+    trigger: DetectionRunTrigger,
+  ): Promise<DetectionRun> {
+    const window = this.insightsService.resolveWindow();
+    const run = await this.prisma.detectionRun.create({
+      data: {
+        tenantId,
+        trigger,
+        window: {
+          asOf: window.asOf.toISOString(),
+          recentStart: window.recentStart.toISOString(),
+          baselineStart: window.baselineStart.toISOString(),
+          baselineEnd: window.baselineEnd.toISOString(),
+        },
+      },
+    });
+
+    try {
+      const { insights, anomalyCount } =
+        await this.insightsService.runDetection(tenantId, window);
+      const ids =
+        insights.length > 0
+          ? await this.insightsService.storeInsights(tenantId, insights)
+          : [];
+      const runInsights: StoredRunInsight[] = insights.map(
+        (insight, index) => ({
+          id: ids[index],
+          ...insight,
+        }),
+      );
+
+      const finishedAt = new Date();
+      const completed = await this.prisma.detectionRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'completed',
+          finishedAt,
+          durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+          anomalyCount,
+          insightCount: insights.length,
+          insights: runInsights as unknown as Prisma.InputJsonArray,
+        },
+      });
+
+      // The tenant's cached business insights predate this run
+      this.insightsCache.invalidate(tenantId);
+      return completed;
+    } catch (error) {
+      const finishedAt = new Date();
+      return this.prisma.detectionRun.update({
+        where: { id: run.id },
+        data: {
+          status: 'failed',
+          finishedAt,
+          durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+}
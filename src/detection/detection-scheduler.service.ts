@@ -0,0 +1,62 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { DetectionRunsService } from './detection-runs.service';
+import {
+  DETECTION_CRON_JOB,
+  loadDetectionScheduleConfig,
+} from './detection.constants';
+import { loadTenantIds } from '../tenants/tenant.constants';
+
+@Injectable()
+export class DetectionSchedulerService implements OnApplicationBootstrap {
+  private readonly config = loadDetectionScheduleConfig();
+  private readonly tenantIds = loadTenantIds();
+
+  constructor(
+    private schedulerRegistry: SchedulerRegistry,
+    private detectionRuns: DetectionRunsService,
+  ) {}
+
+  /**
+   * Register the detection cron job (DETECTION_CRON, default every 15 minutes)
+   * unless DETECTION_SCHEDULE_ENABLED=false. Each tick runs every tenant in
+   * turn.
+   */
+  onApplicationBootstrap(): void {
+    if (!this.config.enabled) return;
+
+    const job = CronJob.from({
+      cronTime: this.config.cron,
+      onTick: () => this.tick(),
+      start: true,
+    });
+    this.schedulerRegistry.addCronJob(DETECTION_CRON_JOB, job);
+  }
+
+  private async tick(): Promise<void> {
+    for (const tenantId of this.tenantIds) {
+      // Skip rather than queue when the tenant's previous run is still going
+      if (this.detectionRuns.isRunning(tenantId)) {
+        console.warn(
+          `Skipping scheduled detection run for tenant ${tenantId}: previous run still active`,
+        );
+        continue;
+      }
+
+      try {
+        const run = await this.detectionRuns.run(tenantId, 'scheduled');
+        if (run.status === 'failed') {
+          console.error(
+            `Detection run ${run.id} for tenant ${tenantId} failed: ${run.error}`,
+          );
+        }
+      } catch (error) {
+        console.error(
+          `Scheduled detection run for tenant ${tenantId} failed:`,
+          error,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { validateCronExpression } from 'cron';
+
+export const DETECTION_RUN_TRIGGERS = ['scheduled', 'manual'] as const;
+
+export const DETECTION_RUN_STATUSES = [
+  'running',
+  'completed',
+  'failed',
+] as const;
+
+export type DetectionRunTrigger = (typeof DETECTION_RUN_TRIGGERS)[number];
+export type DetectionRunStatus = (typeof DETECTION_RUN_STATUSES)[number];
+
+export const DETECTION_CRON_JOB = 'detection-run';
+
+/**
+ * Every 15 minutes, matching how long business insights used to be cached
+ */
+export const DEFAULT_DETECTION_CRON = '*/15 * * * *';
+
+export interface DetectionScheduleConfig {
+  enabled: boolean;
+  cron: string;
+}
+
+/**
+ * Schedule settings from DETECTION_SCHEDULE_ENABLED and DETECTION_CRON
+ */
+export function loadDetectionScheduleConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): DetectionScheduleConfig {
+  const cron = env.DETECTION_CRON?.trim();
+
+  return {
+    enabled: env.DETECTION_SCHEDULE_ENABLED !== 'false',
+    cron:
+      cron && validateCronExpression(cron).valid
+        ? cron
+        : DEFAULT_DETECTION_CRON,
+  };
+}
@@ -0,0 +1,29 @@
+import { Controller, Get, Post, Query } from '@nestjs/common';
+import { DetectionRun } from '@prisma/client';
+import { DetectionRunsService } from './detection-runs.service';
+import { DetectionRunQueryDto } from './dto/detection-run-query.dto';
+import { TenantId } from '../tenants/tenant.decorator';
+import { RequireRole } from '../auth/roles.decorator';
+
+@Controller('detection')
+export class DetectionController {
+  constructor(private readonly detectionRunsService: DetectionRunsService) {}
+
+  /**
+   * Run detection for the tenant now and return the finished run (409 if one
+   * is in progress)
+   */
+  @Post('runs')
+  @RequireRole('analyst')
+  async triggerRun(@TenantId() tenantId: string): Promise<DetectionRun> {
+    return this.detectionRunsService.run(tenantId, 'manual');
+  }
+
+  @Get('runs')
+  async findRuns(
+    @TenantId() tenantId: string,
+    @Query() query: DetectionRunQueryDto,
+  ): Promise<DetectionRun[]> {
+    return this.detectionRunsService.findAll(tenantId, query);
+  }
+}
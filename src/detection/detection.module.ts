@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { InsightsModule } from '../insights/insights.module';
+import { DetectionController } from './detection.controller';
+import { DetectionRunsService } from './detection-runs.service';
+import { DetectionSchedulerService } from './detection-scheduler.service';
+
+@Module({
+  imports: [InsightsModule],
+  controllers: [DetectionController],
+  providers: [DetectionRunsService, DetectionSchedulerService],
+  exports: [DetectionRunsService],
+})
+export class DetectionModule {}
@@ -0,0 +1,17 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { DETECTION_RUN_STATUSES } from '../detection.constants';
+import type { DetectionRunStatus } from '../detection.constants';
+
+export class DetectionRunQueryDto {
+  @IsOptional()
+  @IsIn(DETECTION_RUN_STATUSES)
+  status?: DetectionRunStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
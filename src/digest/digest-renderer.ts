@@ -0,0 +1,103 @@
+import {
+  DigestItem,
+  InsightDigest,
+  RenderedDigest,
+} from './interfaces/digest.interface';
+
+/**
+ * HTML and plain-text bodies of a digest email, with matching sections
+ */
+export function renderDigest(digest: InsightDigest): RenderedDigest {
+  const scope =
+    digest.pageCategories.length > 0
+      ? ` (${digest.pageCategories.join(', ')})`
+      : '';
+  const subject = `Insights digest${scope}: ${digest.newInsights.length} new, ${digest.unresolvedCount} unresolved`;
+  const period = `${formatTime(digest.since)} to ${formatTime(digest.until)}`;
+
+  const sections: [string, DigestItem[], string][] = [
+    ['New insights', digest.newInsights, 'No insights reported.'],
+    ['Top movers', digest.topMovers, 'No significant changes.'],
+    [
+      `Unresolved (${digest.unresolvedCount})`,
+      digest.unresolved,
+      'Nothing open.',
+    ],
+  ];
+
+  const text = [
+    subject,
+    period,
+    ...sections.map(([title, items, empty]) =>
+      [
+        '',
+        title,
+        '-'.repeat(title.length),
+        ...(items.length > 0 ? items.map(textItem) : [empty]),
+      ].join('\n'),
+    ),
+  ].join('\n');
+
+  const html = `<!DOCTYPE html>
+<html>
+<body style="font-family: Arial, sans-serif; color: #1f2328;">
+<h1 style="font-size: 20px;">${escapeHtml(subject)}</h1>
+<p style="color: #656d76;">${escapeHtml(period)}</p>
+${sections.map(([title, items, empty]) => htmlSection(title, items, empty)).join('\n')}
+</body>
+</html>
+`;
+
+  return { subject, html, text };
+}
+
+function textItem(item: DigestItem): string {
+  const change = item.change ? ` ${item.change}` : '';
+  return [
+    `* [${item.impactScore}] ${item.type} on ${item.page}${change} (#${item.id}, ${describeStatus(item)})`,
+    `  ${item.insightText}`,
+    `  Action: ${item.suggestedAction}`,
+  ].join('\n');
+}
+
+function htmlSection(title: string, items: DigestItem[], empty: string) {
+  if (items.length === 0) {
+    return `<h2 style="font-size: 16px;">${escapeHtml(title)}</h2>\n<p>${escapeHtml(empty)}</p>`;
+  }
+
+  const rows = items
+    .map(
+      (item) => `<tr>
+<td style="padding: 6px; font-weight: bold;">${item.impactScore}</td>
+<td style="padding: 6px;"><strong>${escapeHtml(item.type)}</strong> on <code>${escapeHtml(item.page)}</code>${item.change ? ` ${escapeHtml(item.change)}` : ''}<br>${escapeHtml(item.insightText)}<br><em>${escapeHtml(item.suggestedAction)}</em></td>
+<td style="padding: 6px;">#${item.id}<br>${escapeHtml(describeStatus(item))}</td>
+</tr>`,
+    )
+    .join('\n');
+
+  return `<h2 style="font-size: 16px;">${escapeHtml(title)}</h2>
+<table style="border-collapse: collapse; width: 100%;">
+${rows}
+</table>`;
+}
+
+function describeStatus(item: DigestItem): string {
+  const seen =
+    item.occurrenceCount > 1 ? `, seen ${item.occurrenceCount}x` : '';
+  return item.assignee
+    ? `${item.status}, ${item.assignee}${seen}`
+    : `${item.status}${seen}`;
+}
+
+function formatTime(date: Date): string {
+  return date.toISOString().slice(0, 16).replace('T', ' ') + ' UTC';
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,49 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { SchedulerRegistry } from '@nestjs/schedule';
+import { CronJob } from 'cron';
+import { DigestService } from './digest.service';
+import { DIGEST_CRON_JOB, loadDigestScheduleConfig } from './digest.constants';
+import { loadTenantIds } from '../tenants/tenant.constants';
+
+@Injectable()
+export class DigestSchedulerService implements OnApplicationBootstrap {
+  private readonly config = loadDigestScheduleConfig();
+  private readonly tenantIds = loadTenantIds();
+
+  constructor(
+    private schedulerRegistry: SchedulerRegistry,
+    private digestService: DigestService,
+  ) {}
+
+  /**
+   * Register the daily digest job (DIGEST_CRON, default 08:00) unless
+   * DIGEST_SCHEDULE_ENABLED=false; each tenant's subscribers get that
+   * tenant's digest
+   */
+  onApplicationBootstrap(): void {
+    if (!this.config.enabled) return;
+
+    const job = CronJob.from({
+      cronTime: this.config.cron,
+      timeZone: this.config.timeZone,
+      onTick: () => this.tick(),
+      start: true,
+    });
+    this.schedulerRegistry.addCronJob(DIGEST_CRON_JOB, job);
+  }
+
+  private async tick(): Promise<void> {
+    for (const tenantId of this.tenantIds) {
+      try {
+        const result = await this.digestService.sendDigests(tenantId);
+        for (const failure of result.failed) {
+          console.error(
+            `Failed to send ${tenantId} digest to ${failure.email}: ${failure.error}`,
+          );
+        }
+      } catch (error) {
+        console.error(`Daily digest for tenant ${tenantId} failed:`, error);
+      }
+    }
+  }
+}
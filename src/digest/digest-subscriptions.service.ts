@@ -0,0 +1,73 @@
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { DigestSubscription, Prisma } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { CreateDigestSubscriptionDto } from './dto/create-digest-subscription.dto';
+import { UpdateDigestSubscriptionDto } from './dto/update-digest-subscription.dto';
+
+@Injectable()
+export class DigestSubscriptionsService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(
+    tenantId: string,
+    dto: CreateDigestSubscriptionDto,
+  ): Promise<DigestSubscription> {
+    return this.withUniqueEmail(dto.email, () =>
+      this.prisma.digestSubscription.create({ data: { ...dto, tenantId } }),
+    );
+  }
+
+  async findAll(tenantId: string): Promise<DigestSubscription[]> {
+    return this.prisma.digestSubscription.findMany({
+      where: { tenantId },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  async findOne(tenantId: string, id: number): Promise<DigestSubscription> {
+    const subscription = await this.prisma.digestSubscription.findFirst({
+      where: { id, tenantId },
+    });
+    if (!subscription) {
+      throw new NotFoundException(`Digest subscription ${id} not found`);
+    }
+    return subscription;
+  }
+
+  async update(
+    tenantId: string,
+    id: number,
+    dto: UpdateDigestSubscriptionDto,
+  ): Promise<DigestSubscription> {
+    await this.findOne(tenantId, id);
+    return this.withUniqueEmail(dto.email, () =>
+      this.prisma.digestSubscription.update({ where: { id }, data: dto }),
+    );
+  }
+
+  async remove(tenantId: string, id: number): Promise<void> {
+    await this.findOne(tenantId, id);
+    await this.prisma.digestSubscription.delete({ where: { id } });
+  }
+
+  private async withUniqueEmail<T>(
+    email: string | undefined,
+    write: () => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(`${email} is already subscribed`);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,62 @@
+import { validateCronExpression } from 'cron';
+
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+export const DIGEST_CRON_JOB = 'insight-digest';
+
+/**
+ * Every morning at 08:00 (in DIGEST_TIMEZONE, or the server's time zone)
+ */
+export const DEFAULT_DIGEST_CRON = '0 8 * * *';
+
+export const DIGEST_PERIOD_HOURS = 24;
+
+export interface DigestScheduleConfig {
+  enabled: boolean;
+  cron: string;
+  timeZone?: string;
+}
+
+export interface MailConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+  from: string;
+}
+
+/**
+ * Schedule settings from DIGEST_SCHEDULE_ENABLED, DIGEST_CRON and DIGEST_TIMEZONE
+ */
+export function loadDigestScheduleConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): DigestScheduleConfig {
+  const cron = env.DIGEST_CRON?.trim();
+
+  return {
+    enabled: env.DIGEST_SCHEDULE_ENABLED !== 'false',
+    cron:
+      cron && validateCronExpression(cron).valid ? cron : DEFAULT_DIGEST_CRON,
+    timeZone: env.DIGEST_TIMEZONE || undefined,
+  };
+}
+
+/**
+ * SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASS
+ * and DIGEST_FROM. Defaults target a local SMTP sink such as Mailpit.
+ */
+export function loadMailConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): MailConfig {
+  const port = Number(env.SMTP_PORT);
+
+  return {
+    host: env.SMTP_HOST || 'localhost',
+    port: Number.isInteger(port) && port > 0 ? port : 1025,
+    secure: env.SMTP_SECURE === 'true',
+    user: env.SMTP_USER || undefined,
+    pass: env.SMTP_PASS || undefined,
+    from: env.DIGEST_FROM || 'Business Insights <insights@localhost>',
+  };
+}
@@ -0,0 +1,107 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { DigestSubscription } from '@prisma/client';
+import { DigestService } from './digest.service';
+import { DigestSubscriptionsService } from './digest-subscriptions.service';
+import { renderDigest } from './digest-renderer';
+import { CreateDigestSubscriptionDto } from './dto/create-digest-subscription.dto';
+import { UpdateDigestSubscriptionDto } from './dto/update-digest-subscription.dto';
+import { DigestPreviewQueryDto } from './dto/digest-preview-query.dto';
+import { DigestPreviewResponseDto } from './dto/digest-preview-response.dto';
+import { DigestSendResult } from './interfaces/digest.interface';
+import { TenantId } from '../tenants/tenant.decorator';
+import { RequireRole } from '../auth/roles.decorator';
+
+@Controller('digest')
+export class DigestController {
+  constructor(
+    private readonly digestService: DigestService,
+    private readonly subscriptionsService: DigestSubscriptionsService,
+  ) {}
+
+  /**
+   * The digest as it would be emailed now, without sending it
+   */
+  @Get('preview')
+  async preview(
+    @TenantId() tenantId: string,
+    @Query() query: DigestPreviewQueryDto,
+  ): Promise<DigestPreviewResponseDto> {
+    const digest = await this.digestService.compileDigest(
+      tenantId,
+      query.pageCategories,
+    );
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...renderDigest(digest),
+      digest,
+    };
+  }
+
+  /**
+   * Send every subscriber of the tenant their digest now
+   */
+  @Post('send')
+  @RequireRole('analyst')
+  @HttpCode(HttpStatus.OK)
+  async send(@TenantId() tenantId: string): Promise<DigestSendResult> {
+    return this.digestService.sendDigests(tenantId);
+  }
+
+  @Post('subscriptions')
+  @RequireRole('admin')
+  async create(
+    @TenantId() tenantId: string,
+    @Body() dto: CreateDigestSubscriptionDto,
+  ): Promise<DigestSubscription> {
+    return this.subscriptionsService.create(tenantId, dto);
+  }
+
+  @Get('subscriptions')
+  @RequireRole('admin')
+  async findAll(@TenantId() tenantId: string): Promise<DigestSubscription[]> {
+    return this.subscriptionsService.findAll(tenantId);
+  }
+
+  @Get('subscriptions/:id')
+  @RequireRole('admin')
+  async findOne(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<DigestSubscription> {
+    return this.subscriptionsService.findOne(tenantId, id);
+  }
+
+  @Patch('subscriptions/:id')
+  @RequireRole('admin')
+  async update(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateDigestSubscriptionDto,
+  ): Promise<DigestSubscription> {
+    return this.subscriptionsService.update(tenantId, id, dto);
+  }
+
+  @Delete('subscriptions/:id')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.subscriptionsService.remove(tenantId, id);
+  }
+}
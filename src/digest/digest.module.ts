@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { createTransport } from 'nodemailer';
+import { DigestController } from './digest.controller';
+import { DigestService } from './digest.service';
+import { DigestSubscriptionsService } from './digest-subscriptions.service';
+import { DigestSchedulerService } from './digest-scheduler.service';
+import { loadMailConfig, MAIL_TRANSPORT } from './digest.constants';
+
+@Module({
+  controllers: [DigestController],
+  providers: [
+    DigestService,
+    DigestSubscriptionsService,
+    DigestSchedulerService,
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: () => {
+        const config = loadMailConfig();
+        return createTransport({
+          host: config.host,
+          port: config.port,
+          secure: config.secure,
+          auth: config.user
+            ? { user: config.user, pass: config.pass }
+            : undefined,
+        });
+      },
+    },
+  ],
+  exports: [DigestService],
+})
+export class DigestModule {}
@@ -0,0 +1,96 @@
+import { createTransport } from 'nodemailer';
+import { PrismaService } from 'prisma/prisma.service';
+import { DigestService } from './digest.service';
+
+describe('DigestService', () => {
+  const until = new Date('2025-11-20T08:00:00Z');
+  const insight = (id: number, change: string, impactScore: number) => ({
+    id,
+    metricType: 'Traffic Drop',
+    metric: 'PageViews',
+    page: `/kerala-${id}`,
+    change,
+    impactScore,
+    insightText: `Traffic changed by ${change}.`,
+    suggestedAction: 'Check campaigns & <tracking>.',
+    status: 'open',
+    assignee: null,
+    lastSeenAt: until,
+    occurrenceCount: 1,
+  });
+
+  const setup = (recent: object[]) => {
+    const findMany = jest
+      .fn<Promise<object[]>, [object]>()
+      .mockResolvedValueOnce([{ page: '/kerala-1' }, { page: '/kerala-2' }])
+      .mockResolvedValueOnce(recent)
+      .mockResolvedValueOnce(recent);
+    const transport = createTransport({ jsonTransport: true });
+    const sendMail = jest.spyOn(transport, 'sendMail');
+    const service = new DigestService(
+      {
+        businessInsight: {
+          findMany,
+          count: jest.fn().mockResolvedValue(recent.length),
+        },
+        pageViewsHourly: { findMany },
+        digestSubscription: {
+          findMany: jest
+            .fn()
+            .mockResolvedValue([
+              { id: 1, email: 'pm@example.com', pageCategories: ['Kerala'] },
+            ]),
+          update: jest.fn(),
+        },
+      } as unknown as PrismaService,
+      transport,
+    );
+    return { service, findMany, sendMail };
+  };
+
+  it('ranks top movers by the size of the change within the categories', async () => {
+    const { service, findMany } = setup([
+      insight(1, '-20%', 80),
+      insight(2, '+150%', 60),
+    ]);
+
+    const digest = await service.compileDigest('default', ['Kerala'], until);
+
+    expect(digest.topMovers.map((item) => item.id)).toEqual([2, 1]);
+    expect(digest.newInsights.map((item) => item.id)).toEqual([1, 2]);
+    expect(findMany.mock.calls[1][0]).toMatchObject({
+      where: {
+        tenantId: 'default',
+        page: { in: ['/kerala-1', '/kerala-2', 'category:Kerala'] },
+        lastSeenAt: { gte: new Date('2025-11-19T08:00:00Z'), lt: until },
+      },
+    });
+  });
+
+  it('emails HTML and plain-text digests, escaping insight text', async () => {
+    const { service, sendMail } = setup([insight(1, '-20%', 80)]);
+
+    await expect(service.sendDigests('default', until)).resolves.toEqual({
+      sent: 1,
+      skipped: 0,
+      failed: [],
+    });
+    const message = sendMail.mock.calls[0][0];
+    expect(message.to).toBe('pm@example.com');
+    expect(message.subject).toBe(
+      'Insights digest (Kerala): 1 new, 1 unresolved',
+    );
+    expect(message.html).toContain('Check campaigns &amp; &lt;tracking&gt;.');
+    expect(message.text).toContain('* [80] Traffic Drop on /kerala-1 -20%');
+  });
+
+  it('skips recipients with nothing to report', async () => {
+    const { service, sendMail } = setup([]);
+
+    await expect(service.sendDigests('default', until)).resolves.toMatchObject({
+      sent: 0,
+      skipped: 1,
+    });
+    expect(sendMail).not.toHaveBeenCalled();
+  });
+});
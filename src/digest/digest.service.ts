@@ -0,0 +1,181 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { BusinessInsight as StoredInsight, Prisma } from '@prisma/client';
+import type { Transporter } from 'nodemailer';
+import { PrismaService } from 'prisma/prisma.service';
+import { renderDigest } from './digest-renderer';
+import {
+  DIGEST_PERIOD_HOURS,
+  loadMailConfig,
+  MAIL_TRANSPORT,
+} from './digest.constants';
+import {
+  DigestItem,
+  DigestSendResult,
+  InsightDigest,
+} from './interfaces/digest.interface';
+
+const NEW_INSIGHTS_LIMIT = 10;
+const TOP_MOVERS_LIMIT = 5;
+const UNRESOLVED_LIMIT = 10;
+
+@Injectable()
+export class DigestService {
+  private readonly from = loadMailConfig().from;
+
+  constructor(
+    private prisma: PrismaService,
+    @Inject(MAIL_TRANSPORT) private transport: Pick<Transporter, 'sendMail'>,
+  ) {}
+
+  /**
+   * A tenant's insights reported in the 24 hours before `until` plus
+   * everything still open or acknowledged, optionally limited to some page
+   * categories
+   */
+  async compileDigest(
+    tenantId: string,
+    pageCategories: string[] = [],
+    until: Date = new Date(),
+  ): Promise<InsightDigest> {
+    const since = new Date(
+      until.getTime() - DIGEST_PERIOD_HOURS * 60 * 60 * 1000,
+    );
+    const scope: Prisma.BusinessInsightWhereInput =
+      pageCategories.length > 0
+        ? {
+            tenantId,
+            page: {
+              in: await this.pagesInCategories(tenantId, pageCategories),
+            },
+          }
+        : { tenantId };
+
+    const recent = await this.prisma.businessInsight.findMany({
+      where: { ...scope, lastSeenAt: { gte: since, lt: until } },
+      orderBy: [{ impactScore: 'desc' }, { id: 'desc' }],
+    });
+    const unresolvedWhere: Prisma.BusinessInsightWhereInput = {
+      ...scope,
+      status: { in: ['open', 'acknowledged'] },
+    };
+    const unresolved = await this.prisma.businessInsight.findMany({
+      where: unresolvedWhere,
+      orderBy: [{ impactScore: 'desc' }, { id: 'desc' }],
+      take: UNRESOLVED_LIMIT,
+    });
+    const unresolvedCount = await this.prisma.businessInsight.count({
+      where: unresolvedWhere,
+    });
+
+    const topMovers = recent
+      .filter((insight) => changeSize(insight) > 0)
+      .sort((a, b) => changeSize(b) - changeSize(a))
+      .slice(0, TOP_MOVERS_LIMIT);
+
+    return {
+      since,
+      until,
+      pageCategories,
+      newInsights: recent.slice(0, NEW_INSIGHTS_LIMIT).map(toDigestItem),
+      topMovers: topMovers.map(toDigestItem),
+      unresolved: unresolved.map(toDigestItem),
+      unresolvedCount,
+    };
+  }
+
+  /**
+   * Email every enabled subscriber of the tenant their digest. Recipients
+   * with nothing new and nothing unresolved in their categories are skipped.
+   */
+  async sendDigests(
+    tenantId: string,
+    until: Date = new Date(),
+  ): Promise<DigestSendResult> {
+    const subscriptions = await this.prisma.digestSubscription.findMany({
+      where: { tenantId, enabled: true },
+      orderBy: { id: 'asc' },
+    });
+    const result: DigestSendResult = { sent: 0, skipped: 0, failed: [] };
+
+    for (const subscription of subscriptions) {
+      const digest = await this.compileDigest(
+        tenantId,
+        subscription.pageCategories,
+        until,
+      );
+      if (digest.newInsights.length === 0 && digest.unresolvedCount === 0) {
+        result.skipped++;
+        continue;
+      }
+
+      const { subject, html, text } = renderDigest(digest);
+      try {
+        await this.transport.sendMail({
+          from: this.from,
+          to: subscription.name
+            ? { name: subscription.name, address: subscription.email }
+            : subscription.email,
+          subject,
+          html,
+          text,
+        });
+        await this.prisma.digestSubscription.update({
+          where: { id: subscription.id },
+          data: { lastSentAt: new Date() },
+        });
+        result.sent++;
+      } catch (error) {
+        result.failed.push({
+          email: subscription.email,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Pages whose traffic is tagged with the categories, plus the categories'
+   * own rollup pages (`category:<name>`)
+   */
+  private async pagesInCategories(
+    tenantId: string,
+    pageCategories: string[],
+  ): Promise<string[]> {
+    const rows = await this.prisma.pageViewsHourly.findMany({
+      where: { tenantId, pageCategory: { in: pageCategories } },
+      select: { page: true },
+      distinct: ['page'],
+    });
+    return [
+      ...rows.map((row) => row.page),
+      ...pageCategories.map((category) => `category:${category}`),
+    ];
+  }
+}
+
+function toDigestItem(insight: StoredInsight): DigestItem {
+  return {
+    id: insight.id,
+    type: insight.metricType,
+    metric: insight.metric,
+    page: insight.page,
+    change: insight.change,
+    impactScore: insight.impactScore,
+    insightText: insight.insightText,
+    suggestedAction: insight.suggestedAction,
+    status: insight.status,
+    assignee: insight.assignee,
+    lastSeenAt: insight.lastSeenAt,
+    occurrenceCount: insight.occurrenceCount,
+  };
+}
+
+/**
+ * Absolute percentage change, e.g. 45 for "-45%" (0 when unknown)
+ */
+function changeSize(insight: StoredInsight): number {
+  const change = Number.parseFloat(insight.change ?? '');
+  return Number.isFinite(change) ? Math.abs(change) : 0;
+}
@@ -0,0 +1,32 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsEmail,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateDigestSubscriptionDto {
+  @IsEmail()
+  email: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  /**
+   * Only include insights for these page categories; empty or omitted means all
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(50)
+  @IsString({ each: true })
+  pageCategories?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
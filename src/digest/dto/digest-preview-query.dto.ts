@@ -0,0 +1,20 @@
+import { Transform } from 'class-transformer';
+import { IsArray, IsOptional, IsString } from 'class-validator';
+
+export class DigestPreviewQueryDto {
+  /**
+   * Comma-separated page categories, e.g. `Kerala,Beach`; omitted means all
+   */
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === 'string'
+      ? value
+          .split(',')
+          .map((category) => category.trim())
+          .filter((category) => category !== '')
+      : value,
+  )
+  @IsArray()
+  @IsString({ each: true })
+  pageCategories?: string[];
+}
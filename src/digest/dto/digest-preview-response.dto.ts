@@ -0,0 +1,10 @@
+import { InsightDigest } from '../interfaces/digest.interface';
+
+export class DigestPreviewResponseDto {
+  success: boolean;
+  timestamp: string;
+  subject: string;
+  html: string;
+  text: string;
+  digest: InsightDigest;
+}
@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateDigestSubscriptionDto } from './create-digest-subscription.dto';
+
+export class UpdateDigestSubscriptionDto extends PartialType(
+  CreateDigestSubscriptionDto,
+) {}
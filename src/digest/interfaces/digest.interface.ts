@@ -0,0 +1,36 @@
+export interface DigestItem {
+  id: number;
+  type: string;
+  metric: string | null;
+  page: string;
+  change: string | null;
+  impactScore: number;
+  insightText: string;
+  suggestedAction: string;
+  status: string;
+  assignee: string | null;
+  lastSeenAt: Date;
+  occurrenceCount: number;
+}
+
+export interface InsightDigest {
+  since: Date;
+  until: Date;
+  pageCategories: string[]; // empty = every category
+  newInsights: DigestItem[]; // reported during the period, by impact score
+  topMovers: DigestItem[]; // reported during the period, by size of the change
+  unresolved: DigestItem[]; // open or acknowledged, by impact score
+  unresolvedCount: number;
+}
+
+export interface RenderedDigest {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface DigestSendResult {
+  sent: number;
+  skipped: number; // nothing to report for the recipient's categories
+  failed: { email: string; error: string }[];
+}
@@ -0,0 +1,58 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  ValidateNested,
+} from 'class-validator';
+import { FUNNEL_STEP_METRICS, MAX_FUNNEL_STEPS } from '../funnel.constants';
+import type { FunnelStepMetric } from '../funnel.constants';
+
+export class FunnelStepDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsIn(FUNNEL_STEP_METRICS)
+  metric: FunnelStepMetric;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @Matches(/^\//, {
+    each: true,
+    message: 'pages must be paths starting with "/"',
+  })
+  pages?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  @IsNotEmpty({ each: true })
+  pageCategories?: string[];
+}
+
+export class CreateFunnelDto {
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  /**
+   * Ordered steps, e.g. package pages → /checkout views → /checkout conversions
+   */
+  @IsArray()
+  @ArrayMinSize(2)
+  @ArrayMaxSize(MAX_FUNNEL_STEPS)
+  @ValidateNested({ each: true })
+  @Type(() => FunnelStepDto)
+  steps: FunnelStepDto[];
+}
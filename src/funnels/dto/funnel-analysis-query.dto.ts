@@ -0,0 +1,37 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class FunnelAnalysisQueryDto {
+  /**
+   * Start of the range for step volumes and drop-off; defaults to 24 hours before `to`
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  /**
+   * End of the range (exclusive); also the as-of time of anomaly detection
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  /**
+   * Hours of step conversion checked for anomalies
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(72)
+  recentHours?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(24 * 30)
+  baselineHours?: number;
+}
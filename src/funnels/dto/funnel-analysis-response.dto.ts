@@ -0,0 +1,18 @@
+import {
+  FunnelConversionAnomaly,
+  FunnelSegment,
+  FunnelStepSummary,
+} from '../interfaces/funnel.interface';
+
+export class FunnelAnalysisResponseDto {
+  success: boolean;
+  timestamp: string;
+  funnel: { id: number; name: string };
+  from: string;
+  to: string;
+  steps: FunnelStepSummary[];
+  dropOff: Record<string, FunnelSegment[]>;
+  anomalies: (Omit<FunnelConversionAnomaly, 'timestamp'> & {
+    timestamp: string;
+  })[];
+}
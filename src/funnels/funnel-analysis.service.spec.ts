@@ -0,0 +1,121 @@
+import { PrismaService } from 'prisma/prisma.service';
+import { AnomalyDetectorService } from '../analytics/anomaly-detector.service';
+import { AlertRulesService } from '../alert-rules/alert-rules.service';
+import { FunnelAnalysisService } from './funnel-analysis.service';
+import { FunnelsService } from './funnels.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('FunnelAnalysisService', () => {
+  const to = new Date('2025-11-19T12:00:00Z');
+  const steps = [
+    { name: 'Package page', metric: 'pageviews', pageCategories: ['Beach'] },
+    { name: 'Checkout', metric: 'pageviews', pages: ['/checkout'] },
+    { name: 'Booking', metric: 'conversions', pages: ['/checkout'] },
+  ];
+
+  // 30 hours of traffic; checkout conversion collapses in the last hour
+  const hours = Array.from(
+    { length: 30 },
+    (_, index) => new Date(to.getTime() - (30 - index) * HOUR_MS),
+  );
+  const rows = (volume: (hour: Date, deviceType: string) => number) =>
+    hours.flatMap((timestamp) =>
+      ['Mobile', 'Desktop'].map((deviceType) => ({
+        timestamp,
+        deviceType,
+        referrer: 'Google',
+        region: 'South India',
+        volume: volume(timestamp, deviceType),
+      })),
+    );
+  const lastHour = hours[hours.length - 1];
+  const jitter = (hour: Date) => (hour.getTime() / HOUR_MS) % 3;
+
+  const setup = (rules: object[] = []) => {
+    const queryRaw = jest
+      .fn()
+      .mockResolvedValueOnce(rows(() => 1000))
+      .mockResolvedValueOnce(
+        rows(
+          (hour, device) => (device === 'Mobile' ? 150 : 250) + jitter(hour),
+        ),
+      )
+      .mockResolvedValueOnce(
+        rows((hour, device) =>
+          hour === lastHour && device === 'Mobile' ? 2 : 40 + jitter(hour),
+        ),
+      );
+    const prisma = {
+      $queryRaw: queryRaw,
+      alertRule: { findMany: jest.fn().mockResolvedValue(rules) },
+    } as unknown as PrismaService;
+    const alertRules = new AlertRulesService(prisma);
+
+    return new FunnelAnalysisService(
+      prisma,
+      {
+        findOne: jest.fn().mockResolvedValue({ id: 1, name: 'Beach', steps }),
+      } as unknown as FunnelsService,
+      new AnomalyDetectorService(prisma, alertRules),
+      alertRules,
+    );
+  };
+  const range = { from: new Date(to.getTime() - 2 * HOUR_MS), to };
+
+  it('reports step volumes, drop-off by dimension and conversion anomalies', async () => {
+    const analysis = await setup().analyze('default', 1, range);
+
+    expect(analysis.steps[0].volume).toBe(4000);
+    expect(analysis.steps[1].conversionFromPrevious).toBeCloseTo(20, 0);
+    expect(analysis.dropOff.deviceType[0].value).toBe('Mobile');
+    expect(analysis.anomalies).toHaveLength(1);
+    expect(analysis.anomalies[0]).toMatchObject({
+      fromStep: 'Checkout',
+      toStep: 'Booking',
+      timestamp: lastHour,
+    });
+  });
+
+  const checkoutRule = (overrides: object) => ({
+    id: 7,
+    tenantId: 'default',
+    metric: 'Conversion Rate',
+    algorithm: 'zscore',
+    thresholdType: 'sigma',
+    threshold: 2.5,
+    minBaselineHours: 0,
+    direction: 'both',
+    baselineStrategy: 'flat',
+    baselinePeriods: 7,
+    enabled: true,
+    page: '/checkout',
+    pageCategory: null,
+    deviceType: null,
+    region: null,
+    updatedAt: to,
+    ...overrides,
+  });
+
+  it("applies the tenant's conversion rule for the step's page", async () => {
+    // A tenant that only alerts on checkout conversion moves beyond 95%
+    const rule = checkoutRule({ thresholdType: 'percentage', threshold: 95 });
+
+    const analysis = await setup([rule]).analyze('default', 1, range);
+
+    expect(analysis.anomalies).toEqual([]);
+  });
+
+  it('needs minBaselineHours baseline hours before alerting', async () => {
+    // The default detection window has 24 baseline hours
+    const enough = checkoutRule({ minBaselineHours: 24 });
+    const tooFew = checkoutRule({ minBaselineHours: 25 });
+
+    expect(
+      (await setup([enough]).analyze('default', 1, range)).anomalies,
+    ).toHaveLength(1);
+    expect(
+      (await setup([tooFew]).analyze('default', 1, range)).anomalies,
+    ).toEqual([]);
+  });
+});
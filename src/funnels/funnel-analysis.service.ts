@@ -0,0 +1,306 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { AlertRule, Prisma } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { AnomalyDetectorService } from '../analytics/anomaly-detector.service';
+import { AlertRulesService } from '../alert-rules/alert-rules.service';
+import { AlertRuleScope } from '../alert-rules/interfaces/alert-rule.interface';
+import { getAnomalyAlgorithm } from '../analytics/algorithms/anomaly-algorithms';
+import {
+  DetectionOptions,
+  DetectionWindow,
+} from '../analytics/interfaces/detection-window.interface';
+import { FunnelsService } from './funnels.service';
+import {
+  FUNNEL_DIMENSIONS,
+  FunnelDimension,
+  FunnelStepMetric,
+} from './funnel.constants';
+import {
+  FunnelAnalysis,
+  FunnelConversionAnomaly,
+  FunnelSegment,
+  FunnelStep,
+  FunnelStepSummary,
+} from './interfaces/funnel.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Table and column holding each step metric's hourly volume
+ */
+const STEP_SOURCES: Record<
+  FunnelStepMetric,
+  { table: string; column: string }
+> = {
+  pageviews: { table: 'pageviews_hourly', column: 'viewCount' },
+  conversions: { table: 'useractions_hourly', column: 'conversionCount' },
+};
+
+/**
+ * Hourly volume of one step per device/referrer/region bucket
+ */
+interface StepRow {
+  timestamp: Date;
+  deviceType: string;
+  referrer: string;
+  region: string;
+  volume: number;
+}
+
+export interface FunnelAnalysisOptions extends DetectionOptions {
+  from?: Date;
+  to?: Date;
+}
+
+@Injectable()
+export class FunnelAnalysisService {
+  constructor(
+    private prisma: PrismaService,
+    private funnels: FunnelsService,
+    private anomalyDetector: AnomalyDetectorService,
+    private alertRules: AlertRulesService,
+  ) {}
+
+  /**
+   * Step volumes, step conversion and drop-off by dimension over [from, to),
+   * plus anomaly detection on the hourly step-to-step conversion as of `to`.
+   *
+   * Volumes are aggregate hourly counts, not tracked users, so a step's
+   * conversion is its volume relative to the previous step's.
+   */
+  async analyze(
+    tenantId: string,
+    id: number,
+    options: FunnelAnalysisOptions = {},
+  ): Promise<FunnelAnalysis> {
+    const funnel = await this.funnels.findOne(tenantId, id);
+    const steps = funnel.steps as unknown as FunnelStep[];
+
+    const to = options.to ?? new Date();
+    const from = options.from ?? new Date(to.getTime() - 24 * HOUR_MS);
+    if (from >= to) {
+      throw new BadRequestException('from must be before to');
+    }
+    const window = this.anomalyDetector.resolveWindow({
+      asOf: to,
+      recentHours: options.recentHours,
+      baselineHours: options.baselineHours,
+    });
+
+    // One grouped query per step covers both the range and the detection window
+    const loadFrom = from < window.baselineStart ? from : window.baselineStart;
+    const rules = await this.alertRules.findEnabledRules(tenantId);
+    const stepRows: StepRow[][] = [];
+    for (const step of steps) {
+      stepRows.push(await this.loadStep(tenantId, step, loadFrom, to));
+    }
+
+    const inRange = stepRows.map((rows) =>
+      rows.filter((row) => row.timestamp >= from && row.timestamp < to),
+    );
+
+    const dropOff = {} as Record<FunnelDimension, FunnelSegment[]>;
+    for (const dimension of FUNNEL_DIMENSIONS) {
+      dropOff[dimension] = this.segmentsBy(dimension, inRange);
+    }
+
+    return {
+      funnelId: funnel.id,
+      name: funnel.name,
+      from,
+      to,
+      steps: this.summarizeSteps(
+        steps,
+        inRange.map((rows) => sumVolume(rows)),
+      ),
+      dropOff,
+      anomalies: this.detectConversionAnomalies(steps, stepRows, window, rules),
+    };
+  }
+
+  private summarizeSteps(
+    steps: FunnelStep[],
+    volumes: number[],
+  ): FunnelStepSummary[] {
+    return steps.map((step, index) => ({
+      index,
+      name: step.name,
+      volume: volumes[index],
+      conversionFromPrevious:
+        index === 0 ? null : percentage(volumes[index], volumes[index - 1]),
+      conversionFromFirst: percentage(volumes[index], volumes[0]),
+      dropOff: index === 0 ? 0 : volumes[index - 1] - volumes[index],
+    }));
+  }
+
+  /**
+   * Funnel per value of a dimension, weakest overall conversion first
+   */
+  private segmentsBy(
+    dimension: FunnelDimension,
+    stepRows: StepRow[][],
+  ): FunnelSegment[] {
+    const values = new Set(stepRows.flat().map((row) => row[dimension]));
+
+    return [...values]
+      .map((value) => {
+        const volumes = stepRows.map((rows) =>
+          sumVolume(rows.filter((row) => row[dimension] === value)),
+        );
+        return {
+          value,
+          volumes,
+          stepConversions: volumes.map((volume, index) =>
+            index === 0 ? null : percentage(volume, volumes[index - 1]),
+          ),
+          overallConversion: percentage(
+            volumes[volumes.length - 1],
+            volumes[0],
+          ),
+        };
+      })
+      .sort((a, b) => a.overallConversion - b.overallConversion);
+  }
+
+  /**
+   * Score each recent hour's step-to-step conversion against the baseline
+   * hours with the tenant's Conversion Rate alert rule for the step's page or
+   * category (the default rule when none matches). Baselines are always the
+   * flat baseline window.
+   */
+  private detectConversionAnomalies(
+    steps: FunnelStep[],
+    stepRows: StepRow[][],
+    window: DetectionWindow,
+    rules: AlertRule[],
+  ): FunnelConversionAnomaly[] {
+    const hourly = stepRows.map((rows) => hourlyVolumes(rows));
+    const anomalies: FunnelConversionAnomaly[] = [];
+
+    for (let index = 1; index < steps.length; index++) {
+      const rule = this.alertRules.resolveRule(
+        rules,
+        'Conversion Rate',
+        stepScope(steps[index]),
+      );
+      const conversions = new Map<number, number>();
+      for (const [hour, previous] of hourly[index - 1]) {
+        if (previous > 0) {
+          conversions.set(
+            hour,
+            percentage(hourly[index].get(hour) ?? 0, previous),
+          );
+        }
+      }
+
+      const baseline = [...conversions]
+        .filter(
+          ([hour]) =>
+            hour >= window.baselineStart.getTime() &&
+            hour < window.baselineEnd.getTime(),
+        )
+        .map(([, conversion]) => conversion);
+      if (baseline.length === 0) continue;
+
+      const fitted = getAnomalyAlgorithm(rule.algorithm).fit(baseline);
+      for (const [hour, conversion] of conversions) {
+        if (hour < window.recentStart.getTime()) continue;
+        if (
+          !this.anomalyDetector.exceedsThreshold(
+            rule,
+            conversion,
+            fitted,
+            baseline.length,
+          )
+        ) {
+          continue;
+        }
+
+        const anomalyScore = fitted.score(conversion);
+
+        anomalies.push({
+          fromStep: steps[index - 1].name,
+          toStep: steps[index].name,
+          timestamp: new Date(hour),
+          conversion,
+          expectedConversion: round(fitted.expected),
+          percentageChange: round(
+            ((conversion - fitted.expected) / fitted.expected) * 100,
+          ),
+          anomalyScore,
+          algorithm: rule.algorithm,
+        });
+      }
+    }
+
+    return anomalies.sort(
+      (a, b) => Math.abs(b.anomalyScore) - Math.abs(a.anomalyScore),
+    );
+  }
+
+  private async loadStep(
+    tenantId: string,
+    step: FunnelStep,
+    from: Date,
+    to: Date,
+  ): Promise<StepRow[]> {
+    const source = STEP_SOURCES[step.metric];
+    const selectors: Prisma.Sql[] = [];
+    if (step.pages?.length) {
+      selectors.push(Prisma.sql`"page" = ANY(${step.pages})`);
+    }
+    if (step.pageCategories?.length) {
+      selectors.push(Prisma.sql`"pageCategory" = ANY(${step.pageCategories})`);
+    }
+    const pageFilter =
+      selectors.length > 0
+        ? Prisma.sql`AND (${Prisma.join(selectors, ' OR ')})`
+        : Prisma.empty;
+
+    return this.prisma.$queryRaw<StepRow[]>`
+      SELECT "timestamp", "deviceType", "referrer", "region",
+        SUM(${Prisma.raw(`"${source.column}"`)})::float8 AS "volume"
+      FROM ${Prisma.raw(`"${source.table}"`)}
+      WHERE "tenantId" = ${tenantId}
+        AND "timestamp" >= ${from} AND "timestamp" < ${to} ${pageFilter}
+      GROUP BY "timestamp", "deviceType", "referrer", "region"
+    `;
+  }
+}
+
+function sumVolume(rows: StepRow[]): number {
+  return rows.reduce((sum, row) => sum + row.volume, 0);
+}
+
+function hourlyVolumes(rows: StepRow[]): Map<number, number> {
+  const volumes = new Map<number, number>();
+  for (const row of rows) {
+    const hour = row.timestamp.getTime();
+    volumes.set(hour, (volumes.get(hour) ?? 0) + row.volume);
+  }
+  return volumes;
+}
+
+/**
+ * Alert rule scope of a step: its page or category when it selects exactly
+ * one, so page- and category-scoped rules apply to single-page steps
+ */
+function stepScope(step: FunnelStep): AlertRuleScope {
+  const pages = step.pages ?? [];
+  const categories = step.pageCategories ?? [];
+  if (pages.length === 1 && categories.length === 0) {
+    return { page: pages[0] };
+  }
+  if (categories.length === 1 && pages.length === 0) {
+    return { pageCategory: categories[0] };
+  }
+  return {};
+}
+
+function percentage(part: number, whole: number): number {
+  return whole > 0 ? round((part / whole) * 100) : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
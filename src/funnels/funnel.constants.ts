@@ -0,0 +1,13 @@
+/**
+ * Volume counted at a funnel step: page views of the matched pages, or the
+ * conversions (bookings) recorded on them
+ */
+export const FUNNEL_STEP_METRICS = ['pageviews', 'conversions'] as const;
+
+export type FunnelStepMetric = (typeof FUNNEL_STEP_METRICS)[number];
+
+export const FUNNEL_DIMENSIONS = ['deviceType', 'referrer', 'region'] as const;
+
+export type FunnelDimension = (typeof FUNNEL_DIMENSIONS)[number];
+
+export const MAX_FUNNEL_STEPS = 10;
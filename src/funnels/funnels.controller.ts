@@ -0,0 +1,94 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { Funnel } from '@prisma/client';
+import { FunnelsService } from './funnels.service';
+import { FunnelAnalysisService } from './funnel-analysis.service';
+import { CreateFunnelDto } from './dto/create-funnel.dto';
+import { UpdateFunnelDto } from './dto/update-funnel.dto';
+import { FunnelAnalysisQueryDto } from './dto/funnel-analysis-query.dto';
+import { FunnelAnalysisResponseDto } from './dto/funnel-analysis-response.dto';
+import { TenantId } from '../tenants/tenant.decorator';
+import { RequireRole } from '../auth/roles.decorator';
+
+@Controller('analytics/funnels')
+export class FunnelsController {
+  constructor(
+    private readonly funnelsService: FunnelsService,
+    private readonly funnelAnalysisService: FunnelAnalysisService,
+  ) {}
+
+  @Post()
+  @RequireRole('analyst')
+  async create(
+    @TenantId() tenantId: string,
+    @Body() dto: CreateFunnelDto,
+  ): Promise<Funnel> {
+    return this.funnelsService.create(tenantId, dto);
+  }
+
+  @Get()
+  async findAll(@TenantId() tenantId: string): Promise<Funnel[]> {
+    return this.funnelsService.findAll(tenantId);
+  }
+
+  /**
+   * Step volumes, conversion, drop-off by dimension and conversion anomalies
+   */
+  @Get(':id')
+  async analyze(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: FunnelAnalysisQueryDto,
+  ): Promise<FunnelAnalysisResponseDto> {
+    const analysis = await this.funnelAnalysisService.analyze(
+      tenantId,
+      id,
+      query,
+    );
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      funnel: { id: analysis.funnelId, name: analysis.name },
+      from: analysis.from.toISOString(),
+      to: analysis.to.toISOString(),
+      steps: analysis.steps,
+      dropOff: analysis.dropOff,
+      anomalies: analysis.anomalies.map((anomaly) => ({
+        ...anomaly,
+        timestamp: anomaly.timestamp.toISOString(),
+      })),
+    };
+  }
+
+  @Patch(':id')
+  @RequireRole('analyst')
+  async update(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateFunnelDto,
+  ): Promise<Funnel> {
+    return this.funnelsService.update(tenantId, id, dto);
+  }
+
+  @Delete(':id')
+  @RequireRole('analyst')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.funnelsService.remove(tenantId, id);
+  }
+}
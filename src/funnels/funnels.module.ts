@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { FunnelsController } from './funnels.controller';
+import { FunnelsService } from './funnels.service';
+import { FunnelAnalysisService } from './funnel-analysis.service';
+import { AnalyticsModule } from '../analytics/analytics.module';
+import { AlertRulesModule } from '../alert-rules/alert-rules.module';
+
+@Module({
+  imports: [AnalyticsModule, AlertRulesModule],
+  controllers: [FunnelsController],
+  providers: [FunnelsService, FunnelAnalysisService],
+  exports: [FunnelsService, FunnelAnalysisService],
+})
+export class FunnelsModule {}
@@ -0,0 +1,57 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { Funnel, Prisma } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { CreateFunnelDto } from './dto/create-funnel.dto';
+import { UpdateFunnelDto } from './dto/update-funnel.dto';
+
+@Injectable()
+export class FunnelsService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(tenantId: string, dto: CreateFunnelDto): Promise<Funnel> {
+    return this.prisma.funnel.create({
+      data: {
+        ...dto,
+        tenantId,
+        steps: dto.steps as unknown as Prisma.InputJsonArray,
+      },
+    });
+  }
+
+  async findAll(tenantId: string): Promise<Funnel[]> {
+    return this.prisma.funnel.findMany({
+      where: { tenantId },
+      orderBy: { id: 'asc' },
+    });
+  }
+
+  async findOne(tenantId: string, id: number): Promise<Funnel> {
+    const funnel = await this.prisma.funnel.findFirst({
+      where: { id, tenantId },
+    });
+    if (!funnel) {
+      throw new NotFoundException(`Funnel ${id} not found`);
+    }
+    return funnel;
+  }
+
+  async update(
+    tenantId: string,
+    id: number,
+    dto: UpdateFunnelDto,
+  ): Promise<Funnel> {
+    await this.findOne(tenantId, id);
+    return this.prisma.funnel.update({
+      where: { id },
+      data: {
+        ...dto,
+        steps: dto.steps as unknown as Prisma.InputJsonArray | undefined,
+      },
+    });
+  }
+
+  async remove(tenantId: string, id: number): Promise<void> {
+    await this.findOne(tenantId, id);
+    await this.prisma.funnel.delete({ where: { id } });
+  }
+}
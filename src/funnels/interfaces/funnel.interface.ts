@@ -0,0 +1,50 @@
+import { AnomalyAlgorithmName } from '../../alert-rules/alert-rule.constants';
+import { FunnelDimension, FunnelStepMetric } from '../funnel.constants';
+
+/**
+ * Stored step definition; pages and categories are OR-ed, and a step with
+ * neither matches every page
+ */
+export interface FunnelStep {
+  name: string;
+  metric: FunnelStepMetric;
+  pages?: string[];
+  pageCategories?: string[];
+}
+
+export interface FunnelStepSummary {
+  index: number;
+  name: string;
+  volume: number;
+  conversionFromPrevious: number | null; // % of the previous step, null for the first
+  conversionFromFirst: number; // % of the first step
+  dropOff: number; // volume lost since the previous step
+}
+
+export interface FunnelSegment {
+  value: string;
+  volumes: number[]; // per step
+  stepConversions: (number | null)[]; // % per step, null for the first
+  overallConversion: number; // last step as % of the first
+}
+
+export interface FunnelConversionAnomaly {
+  fromStep: string;
+  toStep: string;
+  timestamp: Date;
+  conversion: number; // % in that hour
+  expectedConversion: number;
+  percentageChange: number;
+  anomalyScore: number;
+  algorithm: AnomalyAlgorithmName;
+}
+
+export interface FunnelAnalysis {
+  funnelId: number;
+  name: string;
+  from: Date;
+  to: Date;
+  steps: FunnelStepSummary[];
+  dropOff: Record<FunnelDimension, FunnelSegment[]>;
+  anomalies: FunnelConversionAnomaly[];
+}
@@ -0,0 +1,20 @@
+import { Transform } from 'class-transformer';
+import { IsBoolean, IsIn, IsOptional } from 'class-validator';
+import type { ImportFormat, ImportModel } from '../interfaces/import.interface';
+
+export class ImportQueryDto {
+  @IsIn(['pageviews', 'useractions', 'performance', 'bookings'])
+  model: ImportModel;
+
+  /**
+   * Defaults to the uploaded file's extension
+   */
+  @IsOptional()
+  @IsIn(['csv', 'ndjson'])
+  format?: ImportFormat;
+
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true' || value === '1')
+  @IsBoolean()
+  dryRun?: boolean;
+}
@@ -0,0 +1,7 @@
+import { ImportReport } from '../interfaces/import.interface';
+
+export class ImportResponseDto {
+  success: boolean;
+  timestamp: string;
+  report: ImportReport;
+}
@@ -0,0 +1,95 @@
+import {
+  IsBoolean,
+  IsEnum,
+  IsISO8601,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+
+export enum IngestEventType {
+  PageView = 'pageview',
+  Session = 'session',
+  Conversion = 'conversion',
+  PageLoad = 'page_load',
+  Booking = 'booking',
+  Cancellation = 'cancellation',
+}
+
+const isBookingEvent = (event: IngestEventDto) =>
+  event.type === IngestEventType.Booking ||
+  event.type === IngestEventType.Cancellation;
+
+export class IngestEventDto {
+  @IsEnum(IngestEventType)
+  type: IngestEventType;
+
+  @IsISO8601()
+  timestamp: string;
+
+  @IsString()
+  @Matches(/^\//, { message: 'page must be a path starting with "/"' })
+  page: string;
+
+  @IsString()
+  @IsNotEmpty()
+  pageCategory: string;
+
+  @IsString()
+  @IsNotEmpty()
+  deviceType: string;
+
+  @IsString()
+  @IsNotEmpty()
+  referrer: string;
+
+  @IsString()
+  @IsNotEmpty()
+  region: string;
+
+  // Session events
+  @ValidateIf((event: IngestEventDto) => event.type === IngestEventType.Session)
+  @IsNumber()
+  @Min(0)
+  @Max(24 * 60 * 60)
+  durationSeconds?: number;
+
+  @ValidateIf((event: IngestEventDto) => event.type === IngestEventType.Session)
+  @IsBoolean()
+  bounced?: boolean;
+
+  // Page load events
+  @ValidateIf(
+    (event: IngestEventDto) => event.type === IngestEventType.PageLoad,
+  )
+  @IsNumber()
+  @Min(0)
+  @Max(10 * 60 * 1000)
+  loadTimeMs?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  error?: boolean;
+
+  // Booking and cancellation events
+  @ValidateIf(isBookingEvent)
+  @IsString()
+  @IsNotEmpty()
+  package?: string;
+
+  @ValidateIf(isBookingEvent)
+  @Matches(/^[A-Z]{3}$/, {
+    message: 'currency must be an ISO 4217 code such as "INR"',
+  })
+  currency?: string;
+
+  @ValidateIf((event: IngestEventDto) => event.type === IngestEventType.Booking)
+  @IsNumber()
+  @Min(0)
+  amount?: number;
+}
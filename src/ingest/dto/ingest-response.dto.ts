@@ -0,0 +1,11 @@
+export class IngestResponseDto {
+  success: boolean;
+  timestamp: string;
+  accepted: number;
+  buckets: {
+    pageviews: number;
+    userActions: number;
+    performance: number;
+    bookings: number;
+  };
+}
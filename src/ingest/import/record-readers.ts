@@ -0,0 +1,87 @@
+import { Readable } from 'stream';
+import { createInterface } from 'readline';
+import { parse } from 'csv-parse';
+import { ImportFormat, ImportRecord } from '../interfaces/import.interface';
+
+/**
+ * Stream records out of a CSV (header row required) or NDJSON source.
+ * Malformed NDJSON lines and CSV rows whose column count differs from the
+ * header are yielded with an `error` instead of aborting the import.
+ */
+export async function* readRecords(
+  source: Readable,
+  format: ImportFormat,
+): AsyncGenerator<ImportRecord & { error?: string }> {
+  if (format === 'csv') {
+    yield* readCsv(source);
+  } else {
+    yield* readNdjson(source);
+  }
+}
+
+async function* readCsv(
+  source: Readable,
+): AsyncGenerator<ImportRecord & { error?: string }> {
+  const parser = source.pipe(
+    parse({
+      columns: true,
+      relax_column_count: true,
+      skip_empty_lines: true,
+      trim: true,
+      bom: true,
+      info: true,
+    }),
+  );
+
+  for await (const row of parser as AsyncIterable<{
+    record: Record<string, unknown>;
+    info: { lines: number; columns: unknown[]; error?: Error };
+  }>) {
+    if (row.info.error) {
+      yield {
+        line: row.info.lines,
+        record: {},
+        error: `row does not have the ${row.info.columns.length} columns of the header`,
+      };
+    } else {
+      yield { line: row.info.lines, record: row.record };
+    }
+  }
+}
+
+async function* readNdjson(
+  source: Readable,
+): AsyncGenerator<ImportRecord & { error?: string }> {
+  const lines = createInterface({ input: source, crlfDelay: Infinity });
+  let line = 0;
+
+  for await (const text of lines) {
+    line++;
+    if (text.trim() === '') continue;
+
+    try {
+      const parsed: unknown = JSON.parse(text);
+      if (
+        typeof parsed !== 'object' ||
+        parsed === null ||
+        Array.isArray(parsed)
+      ) {
+        yield { line, record: {}, error: 'line is not a JSON object' };
+      } else {
+        yield { line, record: parsed as Record<string, unknown> };
+      }
+    } catch {
+      yield { line, record: {}, error: 'line is not valid JSON' };
+    }
+  }
+}
+
+/**
+ * Infer the import format from a file name, e.g. `pageviews-2025-10.ndjson`
+ */
+export function inferImportFormat(fileName: string): ImportFormat | null {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.csv')) return 'csv';
+  if (lower.endsWith('.ndjson') || lower.endsWith('.jsonl')) return 'ndjson';
+  return null;
+}
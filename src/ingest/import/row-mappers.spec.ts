@@ -0,0 +1,112 @@
+import { Readable } from 'stream';
+import { mapRecord } from './row-mappers';
+import { readRecords } from './record-readers';
+
+describe('mapRecord', () => {
+  it('maps aliased and snake_case columns onto the pageviews model', () => {
+    const result = mapRecord('pageviews', {
+      hour: '2025-11-19T10:00:00Z',
+      page: '/goa-beach-resort',
+      category: 'Beach',
+      view_count: '42',
+      referrer: 'Google',
+      device: 'Mobile',
+      region: 'South India',
+    });
+
+    expect(result.ok).toBe(true);
+    expect(result.ok && result.data).toMatchObject({
+      page: '/goa-beach-resort',
+      pageCategory: 'Beach',
+      viewCount: 42,
+      deviceType: 'Mobile',
+    });
+  });
+
+  it('reports every invalid column of a row', () => {
+    const result = mapRecord('performance', {
+      timestamp: 'not-a-date',
+      page: 'checkout',
+      pageCategory: 'Checkout',
+      avgLoadTime: '-5',
+      errorRate: '120',
+      deviceType: 'Desktop',
+    });
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.errors).toEqual([
+      'timestamp must be a valid date',
+      'region is required',
+      'avgLoadTime must not be less than 0',
+      'errorRate must not be greater than 100',
+      'page must be a path starting with "/"',
+    ]);
+  });
+
+  it('maps booking exports and rejects non-ISO currencies', () => {
+    const row = {
+      timestamp: '2025-11-19T10:00:00Z',
+      page: '/maldives-packages',
+      pageCategory: 'Beach',
+      package_code: 'maldives-5n',
+      bookings: '3',
+      booking_value: '185000.5',
+      referrer: 'Google',
+      deviceType: 'Desktop',
+      region: 'International',
+    };
+
+    const result = mapRecord('bookings', { ...row, currency: 'INR' });
+    expect(result.ok && result.data).toMatchObject({
+      package: 'maldives-5n',
+      currency: 'INR',
+      bookingCount: 3,
+      revenue: 185000.5,
+    });
+
+    const invalid = mapRecord('bookings', { ...row, currency: 'rupees' });
+    expect(!invalid.ok && invalid.errors).toEqual([
+      'currency must be an ISO 4217 code such as "INR"',
+    ]);
+  });
+});
+
+describe('readRecords', () => {
+  const collect = async (text: string, format: 'csv' | 'ndjson') => {
+    const records: unknown[] = [];
+    for await (const record of readRecords(Readable.from([text]), format)) {
+      records.push(record);
+    }
+    return records;
+  };
+
+  it('streams CSV rows with their source line numbers', async () => {
+    const records = await collect('page,views\n/a,1\n\n/b,2\n', 'csv');
+
+    expect(records).toEqual([
+      { line: 2, record: { page: '/a', views: '1' } },
+      { line: 4, record: { page: '/b', views: '2' } },
+    ]);
+  });
+
+  it('flags malformed NDJSON lines without aborting', async () => {
+    const records = await collect('{"page":"/a"}\n{oops\n[1]\n', 'ndjson');
+
+    expect(records).toEqual([
+      { line: 1, record: { page: '/a' } },
+      { line: 2, record: {}, error: 'line is not valid JSON' },
+      { line: 3, record: {}, error: 'line is not a JSON object' },
+    ]);
+  });
+
+  it('flags CSV rows with the wrong column count without aborting', async () => {
+    const records = await collect('page,views\n/a\n/b,2,3\n/c,4\n', 'csv');
+    const error = 'row does not have the 2 columns of the header';
+
+    expect(records).toEqual([
+      { line: 2, record: {}, error },
+      { line: 3, record: {}, error },
+      { line: 4, record: { page: '/c', views: '4' } },
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+import { startOfHour } from 'date-fns';
+import { ImportModel } from '../interfaces/import.interface';
+
+type FieldType = 'string' | 'int' | 'float' | 'date';
+
+interface FieldSpec {
+  type: FieldType;
+  required: boolean;
+  min?: number;
+  max?: number;
+  aliases?: string[];
+}
+
+const DIMENSION_FIELDS: Record<string, FieldSpec> = {
+  timestamp: { type: 'date', required: true, aliases: ['hour', 'time'] },
+  page: { type: 'string', required: true, aliases: ['path'] },
+  pageCategory: { type: 'string', required: true, aliases: ['category'] },
+  deviceType: { type: 'string', required: true, aliases: ['device'] },
+  region: { type: 'string', required: true },
+};
+
+/**
+ * Column specs for each hourly model. Column names are matched
+ * case-insensitively and ignoring separators, so `view_count`,
+ * `ViewCount` and `viewcount` all map onto `viewCount`.
+ */
+const MODEL_FIELDS: Record<ImportModel, Record<string, FieldSpec>> = {
+  pageviews: {
+    ...DIMENSION_FIELDS,
+    referrer: { type: 'string', required: true, aliases: ['source'] },
+    viewCount: { type: 'int', required: true, min: 0, aliases: ['views'] },
+  },
+  useractions: {
+    ...DIMENSION_FIELDS,
+    referrer: { type: 'string', required: true, aliases: ['source'] },
+    avgSessionDuration: { type: 'float', required: true, min: 0 },
+    bounceRate: { type: 'float', required: true, min: 0, max: 100 },
+    conversionRate: { type: 'float', required: true, min: 0, max: 100 },
+    conversionCount: {
+      type: 'int',
+      required: true,
+      min: 0,
+      aliases: ['conversions'],
+    },
+    sessionCount: {
+      type: 'int',
+      required: false,
+      min: 0,
+      aliases: ['sessions'],
+    },
+    bounceCount: { type: 'int', required: false, min: 0, aliases: ['bounces'] },
+  },
+  performance: {
+    ...DIMENSION_FIELDS,
+    avgLoadTime: { type: 'float', required: true, min: 0 },
+    errorRate: { type: 'float', required: true, min: 0, max: 100 },
+    sampleCount: { type: 'int', required: false, min: 0, aliases: ['samples'] },
+    errorCount: { type: 'int', required: false, min: 0, aliases: ['errors'] },
+  },
+  bookings: {
+    ...DIMENSION_FIELDS,
+    referrer: { type: 'string', required: true, aliases: ['source'] },
+    package: { type: 'string', required: true, aliases: ['packageCode'] },
+    currency: { type: 'string', required: true },
+    bookingCount: {
+      type: 'int',
+      required: true,
+      min: 0,
+      aliases: ['bookings'],
+    },
+    cancellationCount: {
+      type: 'int',
+      required: false,
+      min: 0,
+      aliases: ['cancellations'],
+    },
+    revenue: {
+      type: 'float',
+      required: true,
+      min: 0,
+      aliases: ['bookingValue'],
+    },
+    cancellationRate: { type: 'float', required: false, min: 0 },
+  },
+};
+
+export type MappedRow = Record<string, string | number | Date>;
+
+export type MapResult =
+  | { ok: true; data: MappedRow }
+  | { ok: false; errors: string[] };
+
+/**
+ * Map a raw CSV/NDJSON record onto the columns of the given hourly model
+ */
+export function mapRecord(
+  model: ImportModel,
+  record: Record<string, unknown>,
+): MapResult {
+  const fields = MODEL_FIELDS[model];
+  const lookup = normalizeKeys(record);
+  const data: MappedRow = {};
+  const errors: string[] = [];
+
+  for (const [name, spec] of Object.entries(fields)) {
+    const raw = [name, ...(spec.aliases ?? [])]
+      .map((key) => lookup.get(normalizeKey(key)))
+      .find((value) => value !== undefined);
+
+    if (raw === undefined || raw === null || raw === '') {
+      if (spec.required) errors.push(`${name} is required`);
+      continue;
+    }
+
+    const parsed = parseValue(raw, spec.type);
+    if (parsed === null) {
+      errors.push(`${name} must be a valid ${spec.type}`);
+      continue;
+    }
+    if (typeof parsed === 'number') {
+      if (spec.min !== undefined && parsed < spec.min) {
+        errors.push(`${name} must not be less than ${spec.min}`);
+        continue;
+      }
+      if (spec.max !== undefined && parsed > spec.max) {
+        errors.push(`${name} must not be greater than ${spec.max}`);
+        continue;
+      }
+    }
+
+    data[name] = parsed;
+  }
+
+  if (typeof data.page === 'string' && !data.page.startsWith('/')) {
+    errors.push('page must be a path starting with "/"');
+  }
+  if (typeof data.currency === 'string' && !/^[A-Z]{3}$/.test(data.currency)) {
+    errors.push('currency must be an ISO 4217 code such as "INR"');
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, data };
+}
+
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function normalizeKeys(record: Record<string, unknown>): Map<string, unknown> {
+  const lookup = new Map<string, unknown>();
+  for (const [key, value] of Object.entries(record)) {
+    lookup.set(normalizeKey(key), value);
+  }
+  return lookup;
+}
+
+function parseValue(
+  raw: unknown,
+  type: FieldType,
+): string | number | Date | null {
+  switch (type) {
+    case 'string':
+      return typeof raw === 'string' || typeof raw === 'number'
+        ? String(raw).trim() || null
+        : null;
+    case 'int': {
+      const value = Number(raw);
+      return Number.isInteger(value) ? value : null;
+    }
+    case 'float': {
+      const value = Number(raw);
+      return Number.isFinite(value) ? value : null;
+    }
+    case 'date': {
+      if (typeof raw !== 'string' && typeof raw !== 'number') return null;
+      const value = new Date(raw);
+      return Number.isNaN(value.getTime()) ? null : startOfHour(value);
+    }
+  }
+}
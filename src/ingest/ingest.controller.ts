@@ -0,0 +1,107 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { createReadStream } from 'fs';
+import { unlink } from 'fs/promises';
+import { tmpdir } from 'os';
+import { IngestService } from './ingest.service';
+import { MetricsImportService } from './metrics-import.service';
+import { IngestEventDto } from './dto/ingest-event.dto';
+import { IngestResponseDto } from './dto/ingest-response.dto';
+import { ImportQueryDto } from './dto/import-query.dto';
+import { ImportResponseDto } from './dto/import-response.dto';
+import { ParseIngestEventsPipe } from './pipes/parse-ingest-events.pipe';
+import { inferImportFormat } from './import/record-readers';
+import { TenantId } from '../tenants/tenant.decorator';
+import { RequireRole } from '../auth/roles.decorator';
+
+const MAX_IMPORT_FILE_SIZE = 512 * 1024 * 1024; // 512 MB
+
+@Controller('ingest')
+export class IngestController {
+  constructor(
+    private readonly ingestService: IngestService,
+    private readonly metricsImportService: MetricsImportService,
+  ) {}
+
+  /**
+   * Accepts a single event, an array of events or `{ events: [...] }`
+   */
+  @Post('events')
+  @RequireRole('analyst')
+  @HttpCode(HttpStatus.OK)
+  async ingestEvents(
+    @TenantId() tenantId: string,
+    @Body(ParseIngestEventsPipe) events: IngestEventDto[],
+  ): Promise<IngestResponseDto> {
+    const result = await this.ingestService.ingestEvents(tenantId, events);
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      accepted: result.accepted,
+      buckets: result.buckets,
+    };
+  }
+
+  /**
+   * Import a CSV or NDJSON export of hourly aggregates (multipart field `file`).
+   * The upload is spooled to a temp file and stream-parsed from disk.
+   */
+  @Post('import')
+  @RequireRole('analyst')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('file', {
+      dest: tmpdir(),
+      limits: { fileSize: MAX_IMPORT_FILE_SIZE },
+    }),
+  )
+  async importMetrics(
+    @TenantId() tenantId: string,
+    @UploadedFile() file: Express.Multer.File | undefined,
+    @Query() query: ImportQueryDto,
+  ): Promise<ImportResponseDto> {
+    if (!file) {
+      throw new BadRequestException(
+        'A file upload in field "file" is required',
+      );
+    }
+
+    try {
+      const format = query.format ?? inferImportFormat(file.originalname);
+      if (!format) {
+        throw new BadRequestException(
+          'Could not infer the file format, pass ?format=csv or ?format=ndjson',
+        );
+      }
+
+      const report = await this.metricsImportService.importStream(
+        createReadStream(file.path),
+        {
+          tenantId,
+          model: query.model,
+          format,
+          dryRun: query.dryRun ?? false,
+        },
+      );
+
+      return {
+        success: report.failedRows === 0,
+        timestamp: new Date().toISOString(),
+        report,
+      };
+    } finally {
+      await unlink(file.path).catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { IngestController } from './ingest.controller';
+import { IngestService } from './ingest.service';
+import { MetricsImportService } from './metrics-import.service';
+
+@Module({
+  controllers: [IngestController],
+  providers: [IngestService, MetricsImportService],
+  exports: [IngestService, MetricsImportService],
+})
+export class IngestModule {}
@@ -0,0 +1,39 @@
+import { PrismaService } from 'prisma/prisma.service';
+import { IngestEventDto, IngestEventType } from './dto/ingest-event.dto';
+import { IngestService } from './ingest.service';
+
+describe('IngestService', () => {
+  it('recomputes the conversion rate from counts when a conversion-only batch hits a bucket with sessions', async () => {
+    const executeRaw = jest
+      .fn<Promise<number>, [TemplateStringsArray, ...unknown[]]>()
+      .mockResolvedValue(1);
+    const service = new IngestService({
+      $executeRaw: executeRaw,
+    } as unknown as PrismaService);
+
+    await service.ingestEvents('default', [
+      {
+        type: IngestEventType.Conversion,
+        timestamp: '2025-11-19T10:12:31Z',
+        page: '/goa-beach-resort',
+        pageCategory: 'Beach',
+        deviceType: 'Mobile',
+        referrer: 'Instagram',
+        region: 'South India',
+      } as IngestEventDto,
+    ]);
+
+    const [strings, ...values] = executeRaw.mock.calls[0];
+    const sql = strings.join('?').replace(/\s+/g, ' ');
+    // avgSessionDuration, bounceRate, conversionRate, conversions, sessions
+    expect(values.slice(4, 9)).toEqual([0, 0, 0, 1, 0]);
+    // Stored sessions keep the rate tied to the summed counts; only a bucket
+    // that still has no sessions keeps its stored rate
+    expect(sql).toContain(
+      '"conversionRate" = CASE WHEN t."sessionCount" + EXCLUDED."sessionCount" = 0 THEN t."conversionRate" ELSE (t."conversionCount" + EXCLUDED."conversionCount") * 100.0 / (t."sessionCount" + EXCLUDED."sessionCount") END',
+    );
+    expect(sql).toContain(
+      '"conversionCount" = t."conversionCount" + EXCLUDED."conversionCount"',
+    );
+  });
+});
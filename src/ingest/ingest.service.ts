@@ -0,0 +1,313 @@
+import { Injectable } from '@nestjs/common';
+import { startOfHour } from 'date-fns';
+import { PrismaService } from 'prisma/prisma.service';
+import { IngestEventDto, IngestEventType } from './dto/ingest-event.dto';
+import {
+  BookingsBucketKey,
+  BookingsDelta,
+  HourlyBucketKey,
+  IngestResult,
+  PageViewsDelta,
+  PerformanceDelta,
+  UserActionsDelta,
+} from './interfaces/ingest.interface';
+
+@Injectable()
+export class IngestService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Roll a tenant's raw events into its hourly buckets.
+   * Events are first folded in memory so each bucket is written once per batch.
+   */
+  async ingestEvents(
+    tenantId: string,
+    events: IngestEventDto[],
+  ): Promise<IngestResult> {
+    const pageViews = new Map<string, PageViewsDelta>();
+    const userActions = new Map<string, UserActionsDelta>();
+    const performance = new Map<string, PerformanceDelta>();
+    const bookings = new Map<string, BookingsDelta>();
+
+    for (const event of events) {
+      const key = this.toBucketKey(tenantId, event);
+      const bucketId = this.bucketId(key);
+
+      switch (event.type) {
+        case IngestEventType.PageView: {
+          const delta = pageViews.get(bucketId) ?? { key, views: 0 };
+          delta.views += 1;
+          pageViews.set(bucketId, delta);
+          break;
+        }
+        case IngestEventType.Session:
+        case IngestEventType.Conversion: {
+          const delta = userActions.get(bucketId) ?? {
+            key,
+            sessions: 0,
+            bounces: 0,
+            totalSessionDuration: 0,
+            conversions: 0,
+          };
+          if (event.type === IngestEventType.Session) {
+            delta.sessions += 1;
+            delta.bounces += event.bounced ? 1 : 0;
+            delta.totalSessionDuration += event.durationSeconds ?? 0;
+          } else {
+            delta.conversions += 1;
+          }
+          userActions.set(bucketId, delta);
+          break;
+        }
+        case IngestEventType.PageLoad: {
+          // Performance buckets are not split by referrer
+          const performanceId = this.bucketId({ ...key, referrer: '' });
+          const delta = performance.get(performanceId) ?? {
+            key: {
+              tenantId: key.tenantId,
+              timestamp: key.timestamp,
+              page: key.page,
+              pageCategory: key.pageCategory,
+              deviceType: key.deviceType,
+              region: key.region,
+            },
+            samples: 0,
+            errors: 0,
+            totalLoadTime: 0,
+          };
+          delta.samples += 1;
+          delta.errors += event.error ? 1 : 0;
+          delta.totalLoadTime += event.loadTimeMs ?? 0;
+          performance.set(performanceId, delta);
+          break;
+        }
+        case IngestEventType.Booking:
+        case IngestEventType.Cancellation: {
+          const bookingKey: BookingsBucketKey = {
+            ...key,
+            package: event.package ?? '',
+            currency: event.currency ?? '',
+          };
+          const bookingId = this.bookingBucketId(bookingKey);
+          const delta = bookings.get(bookingId) ?? {
+            key: bookingKey,
+            bookings: 0,
+            cancellations: 0,
+            revenue: 0,
+          };
+          if (event.type === IngestEventType.Booking) {
+            delta.bookings += 1;
+            delta.revenue += event.amount ?? 0;
+          } else {
+            delta.cancellations += 1;
+          }
+          bookings.set(bookingId, delta);
+          break;
+        }
+      }
+    }
+
+    for (const delta of pageViews.values()) {
+      await this.applyPageViews(delta);
+    }
+    for (const delta of userActions.values()) {
+      await this.applyUserActions(delta);
+    }
+    for (const delta of performance.values()) {
+      await this.applyPerformance(delta);
+    }
+    for (const delta of bookings.values()) {
+      await this.applyBookings(delta);
+    }
+
+    return {
+      accepted: events.length,
+      buckets: {
+        pageviews: pageViews.size,
+        userActions: userActions.size,
+        performance: performance.size,
+        bookings: bookings.size,
+      },
+    };
+  }
+
+  private async applyPageViews(delta: PageViewsDelta): Promise<void> {
+    const { key } = delta;
+    await this.prisma.pageViewsHourly.upsert({
+      where: {
+        hourlyBucket: {
+          tenantId: key.tenantId,
+          timestamp: key.timestamp,
+          page: key.page,
+          deviceType: key.deviceType,
+          referrer: key.referrer,
+          region: key.region,
+        },
+      },
+      create: { ...key, viewCount: delta.views },
+      update: {
+        pageCategory: key.pageCategory,
+        viewCount: { increment: delta.views },
+      },
+    });
+  }
+
+  /**
+   * Averages and rates are recomputed in a single INSERT ... ON CONFLICT so
+   * concurrent batches hitting the same bucket cannot lose updates. Rates are
+   * recomputed from the summed counts whenever the bucket has sessions.
+   * Average session duration is weighted by the stored session count; a
+   * stored row without one (seeded or imported) has no weight to merge by, so
+   * it takes the batch's average.
+   */
+  private async applyUserActions(delta: UserActionsDelta): Promise<void> {
+    const { key } = delta;
+    const avgSessionDuration =
+      delta.sessions > 0 ? delta.totalSessionDuration / delta.sessions : 0;
+    const bounceRate =
+      delta.sessions > 0 ? (delta.bounces / delta.sessions) * 100 : 0;
+    const conversionRate =
+      delta.sessions > 0 ? (delta.conversions / delta.sessions) * 100 : 0;
+
+    await this.prisma.$executeRaw`
+      INSERT INTO "useractions_hourly" AS t (
+        "tenantId", "timestamp", "page", "pageCategory", "avgSessionDuration",
+        "bounceRate", "conversionRate", "conversionCount", "sessionCount",
+        "bounceCount", "deviceType", "referrer", "region"
+      )
+      VALUES (
+        ${key.tenantId}, ${key.timestamp}, ${key.page}, ${key.pageCategory},
+        ${avgSessionDuration}, ${bounceRate}, ${conversionRate},
+        ${delta.conversions}, ${delta.sessions}, ${delta.bounces},
+        ${key.deviceType}, ${key.referrer}, ${key.region}
+      )
+      ON CONFLICT (
+        "tenantId", "timestamp", "page", "deviceType", "referrer", "region"
+      )
+      DO UPDATE SET
+        "pageCategory" = EXCLUDED."pageCategory",
+        "avgSessionDuration" = CASE
+          WHEN EXCLUDED."sessionCount" = 0 THEN t."avgSessionDuration"
+          WHEN t."sessionCount" = 0 THEN EXCLUDED."avgSessionDuration"
+          ELSE (t."avgSessionDuration" * t."sessionCount"
+            + EXCLUDED."avgSessionDuration" * EXCLUDED."sessionCount")
+            / (t."sessionCount" + EXCLUDED."sessionCount")
+        END,
+        "bounceRate" = CASE
+          WHEN t."sessionCount" + EXCLUDED."sessionCount" = 0 THEN t."bounceRate"
+          ELSE (t."bounceCount" + EXCLUDED."bounceCount") * 100.0
+            / (t."sessionCount" + EXCLUDED."sessionCount")
+        END,
+        "conversionRate" = CASE
+          WHEN t."sessionCount" + EXCLUDED."sessionCount" = 0 THEN t."conversionRate"
+          ELSE (t."conversionCount" + EXCLUDED."conversionCount") * 100.0
+            / (t."sessionCount" + EXCLUDED."sessionCount")
+        END,
+        "conversionCount" = t."conversionCount" + EXCLUDED."conversionCount",
+        "sessionCount" = t."sessionCount" + EXCLUDED."sessionCount",
+        "bounceCount" = t."bounceCount" + EXCLUDED."bounceCount"
+    `;
+  }
+
+  /**
+   * Merged like user actions: the error rate from the summed counts, the load
+   * time weighted by the stored sample count (the batch's for rows without one)
+   */
+  private async applyPerformance(delta: PerformanceDelta): Promise<void> {
+    const { key } = delta;
+    const avgLoadTime = delta.totalLoadTime / delta.samples;
+    const errorRate = (delta.errors / delta.samples) * 100;
+
+    await this.prisma.$executeRaw`
+      INSERT INTO "performance_hourly" AS t (
+        "tenantId", "timestamp", "page", "pageCategory", "avgLoadTime",
+        "errorRate", "sampleCount", "errorCount", "deviceType", "region"
+      )
+      VALUES (
+        ${key.tenantId}, ${key.timestamp}, ${key.page}, ${key.pageCategory},
+        ${avgLoadTime}, ${errorRate}, ${delta.samples}, ${delta.errors},
+        ${key.deviceType}, ${key.region}
+      )
+      ON CONFLICT ("tenantId", "timestamp", "page", "deviceType", "region")
+      DO UPDATE SET
+        "pageCategory" = EXCLUDED."pageCategory",
+        "avgLoadTime" = CASE
+          WHEN t."sampleCount" = 0 THEN EXCLUDED."avgLoadTime"
+          ELSE (t."avgLoadTime" * t."sampleCount"
+            + EXCLUDED."avgLoadTime" * EXCLUDED."sampleCount")
+            / (t."sampleCount" + EXCLUDED."sampleCount")
+        END,
+        "errorRate" = (t."errorCount" + EXCLUDED."errorCount") * 100.0
+          / (t."sampleCount" + EXCLUDED."sampleCount"),
+        "sampleCount" = t."sampleCount" + EXCLUDED."sampleCount",
+        "errorCount" = t."errorCount" + EXCLUDED."errorCount"
+    `;
+  }
+
+  /**
+   * Cancellations count against the bookings of the same bucket; the rate
+   * stays 0 for hours with cancellations but no new bookings
+   */
+  private async applyBookings(delta: BookingsDelta): Promise<void> {
+    const { key } = delta;
+    const cancellationRate =
+      delta.bookings > 0 ? (delta.cancellations / delta.bookings) * 100 : 0;
+
+    await this.prisma.$executeRaw`
+      INSERT INTO "bookings_hourly" AS t (
+        "tenantId", "timestamp", "page", "pageCategory", "package", "currency",
+        "bookingCount", "cancellationCount", "revenue", "cancellationRate",
+        "deviceType", "referrer", "region"
+      )
+      VALUES (
+        ${key.tenantId}, ${key.timestamp}, ${key.page}, ${key.pageCategory},
+        ${key.package}, ${key.currency}, ${delta.bookings},
+        ${delta.cancellations}, ${delta.revenue}, ${cancellationRate},
+        ${key.deviceType}, ${key.referrer}, ${key.region}
+      )
+      ON CONFLICT (
+        "tenantId", "timestamp", "page", "package", "currency", "deviceType",
+        "referrer", "region"
+      )
+      DO UPDATE SET
+        "pageCategory" = EXCLUDED."pageCategory",
+        "cancellationRate" = CASE
+          WHEN t."bookingCount" + EXCLUDED."bookingCount" = 0 THEN 0
+          ELSE (t."cancellationCount" + EXCLUDED."cancellationCount") * 100.0
+            / (t."bookingCount" + EXCLUDED."bookingCount")
+        END,
+        "bookingCount" = t."bookingCount" + EXCLUDED."bookingCount",
+        "cancellationCount" = t."cancellationCount" + EXCLUDED."cancellationCount",
+        "revenue" = t."revenue" + EXCLUDED."revenue"
+    `;
+  }
+
+  private toBucketKey(
+    tenantId: string,
+    event: IngestEventDto,
+  ): HourlyBucketKey {
+    return {
+      tenantId,
+      timestamp: startOfHour(new Date(event.timestamp)),
+      page: event.page,
+      pageCategory: event.pageCategory,
+      deviceType: event.deviceType,
+      referrer: event.referrer,
+      region: event.region,
+    };
+  }
+
+  private bucketId(key: HourlyBucketKey): string {
+    return [
+      key.timestamp.getTime(),
+      key.page,
+      key.deviceType,
+      key.referrer,
+      key.region,
+    ].join('|');
+  }
+
+  private bookingBucketId(key: BookingsBucketKey): string {
+    return [this.bucketId(key), key.package, key.currency].join('|');
+  }
+}
@@ -0,0 +1,35 @@
+export type ImportModel =
+  | 'pageviews'
+  | 'useractions'
+  | 'performance'
+  | 'bookings';
+
+export type ImportFormat = 'csv' | 'ndjson';
+
+export interface ImportOptions {
+  tenantId: string;
+  model: ImportModel;
+  format: ImportFormat;
+  dryRun: boolean;
+}
+
+export interface ImportRecord {
+  line: number;
+  record: Record<string, unknown>;
+}
+
+export interface ImportRowError {
+  line: number;
+  errors: string[];
+}
+
+export interface ImportReport {
+  model: ImportModel;
+  format: ImportFormat;
+  dryRun: boolean;
+  totalRows: number;
+  importedRows: number;
+  failedRows: number;
+  errors: ImportRowError[];
+  errorsTruncated: boolean;
+}
@@ -0,0 +1,51 @@
+export interface HourlyBucketKey {
+  tenantId: string;
+  timestamp: Date;
+  page: string;
+  pageCategory: string;
+  deviceType: string;
+  referrer: string;
+  region: string;
+}
+
+export interface PageViewsDelta {
+  key: HourlyBucketKey;
+  views: number;
+}
+
+export interface UserActionsDelta {
+  key: HourlyBucketKey;
+  sessions: number;
+  bounces: number;
+  totalSessionDuration: number;
+  conversions: number;
+}
+
+export interface PerformanceDelta {
+  key: Omit<HourlyBucketKey, 'referrer'>;
+  samples: number;
+  errors: number;
+  totalLoadTime: number;
+}
+
+export interface BookingsBucketKey extends HourlyBucketKey {
+  package: string;
+  currency: string;
+}
+
+export interface BookingsDelta {
+  key: BookingsBucketKey;
+  bookings: number;
+  cancellations: number;
+  revenue: number;
+}
+
+export interface IngestResult {
+  accepted: number;
+  buckets: {
+    pageviews: number;
+    userActions: number;
+    performance: number;
+    bookings: number;
+  };
+}
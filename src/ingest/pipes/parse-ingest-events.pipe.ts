@@ -0,0 +1,76 @@
+import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { IngestEventDto } from '../dto/ingest-event.dto';
+
+export const MAX_INGEST_BATCH_SIZE = 1000;
+
+/**
+ * Accepts a single event, an array of events or `{ events: [...] }` and
+ * validates every entry, reporting failures by their index in the batch
+ */
+@Injectable()
+export class ParseIngestEventsPipe
+  implements PipeTransform<unknown, Promise<IngestEventDto[]>>
+{
+  async transform(value: unknown): Promise<IngestEventDto[]> {
+    const payload = this.toArray(value);
+
+    if (payload.length === 0) {
+      throw new BadRequestException('At least one event is required');
+    }
+    if (payload.length > MAX_INGEST_BATCH_SIZE) {
+      throw new BadRequestException(
+        `Batch size ${payload.length} exceeds the limit of ${MAX_INGEST_BATCH_SIZE} events`,
+      );
+    }
+
+    const events: IngestEventDto[] = [];
+    const errors: { index: number; errors: string[] }[] = [];
+
+    for (let index = 0; index < payload.length; index++) {
+      const item = payload[index];
+      if (typeof item !== 'object' || item === null || Array.isArray(item)) {
+        errors.push({ index, errors: ['event must be an object'] });
+        continue;
+      }
+
+      const event = plainToInstance(IngestEventDto, item);
+      const validationErrors = await validate(event, {
+        whitelist: true,
+        forbidNonWhitelisted: true,
+      });
+
+      if (validationErrors.length > 0) {
+        errors.push({ index, errors: this.flattenErrors(validationErrors) });
+      } else {
+        events.push(event);
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BadRequestException({
+        message: 'Invalid events in request',
+        errors,
+      });
+    }
+
+    return events;
+  }
+
+  private toArray(value: unknown): unknown[] {
+    if (Array.isArray(value)) return value;
+    if (
+      typeof value === 'object' &&
+      value !== null &&
+      Array.isArray((value as { events?: unknown }).events)
+    ) {
+      return (value as { events: unknown[] }).events;
+    }
+    return value === undefined || value === null ? [] : [value];
+  }
+
+  private flattenErrors(errors: ValidationError[]): string[] {
+    return errors.flatMap((error) => Object.values(error.constraints ?? {}));
+  }
+}
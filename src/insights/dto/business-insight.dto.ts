@@ -1,4 +1,5 @@
 export class BusinessInsightResponseDto {
+  id?: number; // stored insight id, for lifecycle updates
   type: string;
   metric: string;
   page: string;
@@ -6,14 +7,36 @@ export class BusinessInsightResponseDto {
   businessInsight: string;
   suggestedAction: string;
   impactScore: number;
+  revenueImpact?: RevenueImpactDto; // estimate for the anomaly hour
   detectedAt: string;
   context?: Record<string, any>;
 }
 
+export class RevenueImpactDto {
+  bookings: number; // gained (+) or lost (-)
+  revenue: number;
+  currency: string;
+  avgBookingValue: number;
+}
+
+export class DetectionWindowDto {
+  asOf: string;
+  recentStart: string;
+  baselineStart: string;
+  baselineEnd: string;
+}
+
+export class DetectionRunSummaryDto {
+  id: number;
+  finishedAt: string | null;
+}
+
 export class InsightsResponseDto {
   success: boolean;
   timestamp: string;
+  locale: string; // language the insight text is rendered in
   cachedUntil?: string;
+  detectionRun?: DetectionRunSummaryDto; // set when served from a stored run
+  window?: DetectionWindowDto;
   insights: BusinessInsightResponseDto[];
 }
-
@@ -0,0 +1,33 @@
+import { Type } from 'class-transformer';
+import { IsDate, IsInt, IsOptional, Max, MaxDate, Min } from 'class-validator';
+
+export class BusinessInsightsQueryDto {
+  /**
+   * Length of the recent period compared against the baseline
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(72)
+  recentHours?: number;
+
+  /**
+   * Length of the baseline period immediately before the recent period
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(24 * 30)
+  baselineHours?: number;
+
+  /**
+   * Evaluate detection as if it were this time (ISO 8601), e.g. to replay an incident
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MaxDate(() => new Date(), { message: 'asOf must not be in the future' })
+  asOf?: Date;
+}
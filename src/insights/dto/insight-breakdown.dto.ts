@@ -0,0 +1,8 @@
+import { ContributionBreakdown } from '../../analytics/interfaces/contribution.interface';
+
+export class InsightBreakdownResponseDto {
+  success: boolean;
+  timestamp: string;
+  insightId: number;
+  breakdown: ContributionBreakdown;
+}
@@ -0,0 +1,101 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
+import { INSIGHT_STATUSES } from '../insight.constants';
+import type { InsightStatus } from '../insight.constants';
+
+export const INSIGHT_SORT_FIELDS = [
+  'timestamp',
+  'impactScore',
+  'createdAt',
+  'lastSeenAt',
+  'occurrenceCount',
+] as const;
+
+export type InsightSortField = (typeof INSIGHT_SORT_FIELDS)[number];
+
+export const DEFAULT_HISTORY_LIMIT = 20;
+
+export class InsightHistoryQueryDto {
+  @IsOptional()
+  @IsString()
+  page?: string;
+
+  /**
+   * Insight type, e.g. "Traffic Drop"
+   */
+  @IsOptional()
+  @IsString()
+  metricType?: string;
+
+  /**
+   * Detected metric, e.g. "Conversion Rate"
+   */
+  @IsOptional()
+  @IsString()
+  metric?: string;
+
+  @IsOptional()
+  @IsIn(INSIGHT_STATUSES)
+  status?: InsightStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  minImpactScore?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  maxImpactScore?: number;
+
+  /**
+   * Earliest anomaly time (inclusive)
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  from?: Date;
+
+  /**
+   * Latest anomaly time (exclusive)
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  to?: Date;
+
+  @IsOptional()
+  @IsIn(INSIGHT_SORT_FIELDS)
+  sortBy?: InsightSortField;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  order?: 'asc' | 'desc';
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+
+  /**
+   * `nextCursor` of the previous page; only valid with the same sort
+   */
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+}
@@ -0,0 +1,14 @@
+import { BusinessInsight as StoredInsight } from '@prisma/client';
+
+export class InsightHistoryPaginationDto {
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+export class InsightHistoryResponseDto {
+  success: boolean;
+  timestamp: string;
+  insights: StoredInsight[];
+  pagination: InsightHistoryPaginationDto;
+}
@@ -0,0 +1,9 @@
+import { BusinessInsight as StoredInsight } from '@prisma/client';
+import { InsightScorePoint } from '../interfaces/insight.interface';
+
+export class InsightResponseDto {
+  success: boolean;
+  timestamp: string;
+  insight: StoredInsight;
+  scoreHistory?: InsightScorePoint[]; // impact score at each run that reported it
+}
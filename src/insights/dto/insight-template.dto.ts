@@ -0,0 +1,28 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import { SUPPORTED_LOCALES } from '../templates/template-renderer';
+import type { Locale } from '../templates/template-renderer';
+
+export class InsightTemplateQueryDto {
+  /**
+   * Locale to list; defaults to the one negotiated from Accept-Language
+   */
+  @IsOptional()
+  @IsIn(SUPPORTED_LOCALES)
+  locale?: Locale;
+}
+
+export class UpdateInsightTemplateDto {
+  /**
+   * Template text with {placeholder}s from the built-in template
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  template: string;
+}
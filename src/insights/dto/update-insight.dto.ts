@@ -0,0 +1,42 @@
+import { Type } from 'class-transformer';
+import {
+  IsDate,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+  MinDate,
+} from 'class-validator';
+import { INSIGHT_STATUSES } from '../insight.constants';
+import type { InsightStatus } from '../insight.constants';
+
+export class UpdateInsightDto {
+  /**
+   * open, acknowledged, snoozed (requires snoozedUntil) or resolved
+   */
+  @IsOptional()
+  @IsIn(INSIGHT_STATUSES)
+  status?: InsightStatus;
+
+  /**
+   * Who is handling the insight; empty string clears it
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  assignee?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(5000)
+  notes?: string;
+
+  /**
+   * Suppress the page/metric until this time (ISO 8601); implies status snoozed
+   */
+  @IsOptional()
+  @Type(() => Date)
+  @IsDate()
+  @MinDate(() => new Date(), { message: 'snoozedUntil must be in the future' })
+  snoozedUntil?: Date;
+}
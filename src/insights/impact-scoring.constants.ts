@@ -0,0 +1,76 @@
+export const IMPACT_COMPONENTS = [
+  'revenue',
+  'magnitude',
+  'criticality',
+  'recency',
+] as const;
+
+export type ImpactComponent = (typeof IMPACT_COMPONENTS)[number];
+
+export type ImpactWeights = Record<ImpactComponent, number>;
+
+/**
+ * Estimated revenue dominates; the previous formula is
+ * `revenue=0,magnitude=0.3,criticality=0.4,recency=0.3`
+ */
+export const DEFAULT_IMPACT_WEIGHTS: ImpactWeights = {
+  revenue: 0.5,
+  magnitude: 0.1,
+  criticality: 0.2,
+  recency: 0.2,
+};
+
+/**
+ * Hourly revenue swing (in BOOKING_CURRENCY) that earns the full revenue score
+ */
+export const DEFAULT_IMPACT_REVENUE_SCALE = 100000;
+
+/**
+ * Share of expected bookings lost when a metric that affects bookings only
+ * indirectly worsens by 100%
+ */
+export const METRIC_BOOKING_SENSITIVITY: Record<string, number> = {
+  'Session Duration': 0.3,
+  'Bounce Rate': 0.5,
+  'Load Time': 0.4,
+  'Error Rate': 1,
+};
+
+export interface ImpactScoringConfig {
+  weights: ImpactWeights;
+  revenueScale: number;
+}
+
+/**
+ * Weights from IMPACT_WEIGHTS (e.g. "revenue=0.6,recency=0.4"; components left
+ * out keep their default) and the revenue scale from IMPACT_REVENUE_SCALE
+ */
+export function loadImpactScoringConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): ImpactScoringConfig {
+  const weights = { ...DEFAULT_IMPACT_WEIGHTS };
+  for (const entry of (env.IMPACT_WEIGHTS ?? '').split(',')) {
+    const [name, raw] = entry.split('=').map((part) => part.trim());
+    const weight = Number(raw);
+    if (
+      (IMPACT_COMPONENTS as readonly string[]).includes(name) &&
+      raw !== '' &&
+      Number.isFinite(weight) &&
+      weight >= 0
+    ) {
+      weights[name as ImpactComponent] = weight;
+    }
+  }
+  const total = IMPACT_COMPONENTS.reduce((sum, name) => sum + weights[name], 0);
+
+  const scale = Number(env.IMPACT_REVENUE_SCALE);
+  return {
+    weights: total > 0 ? weights : { ...DEFAULT_IMPACT_WEIGHTS },
+    revenueScale:
+      env.IMPACT_REVENUE_SCALE !== undefined &&
+      Number.isFinite(scale) &&
+      scale > 0
+        ? scale
+        : DEFAULT_IMPACT_REVENUE_SCALE,
+  };
+}
@@ -0,0 +1,157 @@
+import { PrismaService } from 'prisma/prisma.service';
+import { BookingValuesService } from '../booking-values/booking-values.service';
+import { AnomalyDetectionResult } from './interfaces/insight.interface';
+import { ImpactScoringService } from './impact-scoring.service';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ImpactScoringService', () => {
+  const asOf = new Date('2025-11-19T12:00:00Z');
+  const window = {
+    recentHours: 6,
+    baselineHours: 24,
+    asOf,
+    recentStart: new Date(asOf.getTime() - 6 * HOUR_MS),
+    baselineStart: new Date(asOf.getTime() - 30 * HOUR_MS),
+    baselineEnd: new Date(asOf.getTime() - 6 * HOUR_MS),
+  };
+  const anomalyHour = new Date(asOf.getTime() - 2 * HOUR_MS);
+  const baselineHours = Array.from(
+    { length: 24 },
+    (_, index) => new Date(window.baselineStart.getTime() + index * HOUR_MS),
+  );
+
+  const row = (page: string, timestamp: Date) => ({
+    page,
+    pageCategory: page === '/tiny-page' ? 'Misc' : 'Beach',
+    deviceType: 'Mobile',
+    referrer: 'Google',
+    region: 'South India',
+    timestamp,
+  });
+  // Tiny page: 10 views and ~0.08 bookings an hour, spiking to 50 views
+  const views = [
+    ...baselineHours.map((hour) => ({
+      ...row('/tiny-page', hour),
+      viewCount: 10,
+    })),
+    { ...row('/tiny-page', anomalyHour), viewCount: 50 },
+    ...baselineHours.map((hour) => ({
+      ...row('/maldives-packages', hour),
+      viewCount: 1000,
+    })),
+    { ...row('/maldives-packages', anomalyHour), viewCount: 1000 },
+  ];
+  // Maldives: 20 bookings an hour, falling to 16 at the same traffic
+  const actions = [
+    ...baselineHours.map((hour, index) => ({
+      ...row('/tiny-page', hour),
+      conversionCount: index < 2 ? 1 : 0,
+    })),
+    ...baselineHours.map((hour) => ({
+      ...row('/maldives-packages', hour),
+      conversionCount: 20,
+    })),
+    { ...row('/maldives-packages', anomalyHour), conversionCount: 16 },
+  ];
+
+  const prisma = {
+    pageViewsHourly: { findMany: jest.fn().mockResolvedValue(views) },
+    userActionsHourly: { findMany: jest.fn().mockResolvedValue(actions) },
+    bookingValue: {
+      findMany: jest.fn().mockResolvedValue([
+        {
+          id: 1,
+          page: '/maldives-packages',
+          pageCategory: null,
+          avgBookingValue: 150000,
+        },
+      ]),
+    },
+  } as unknown as PrismaService;
+  const service = new ImpactScoringService(
+    prisma,
+    new BookingValuesService(prisma),
+  );
+
+  const anomaly = (
+    overrides: Partial<AnomalyDetectionResult>,
+  ): AnomalyDetectionResult =>
+    ({
+      timestamp: anomalyHour,
+      context: {},
+      ...overrides,
+    }) as AnomalyDetectionResult;
+
+  it('ranks a costly conversion drop above a large spike on a tiny page', async () => {
+    const spike = anomaly({
+      page: '/tiny-page',
+      metricType: 'Traffic',
+      metric: 'PageViews',
+      percentageChange: 400,
+    });
+    const drop = anomaly({
+      page: '/maldives-packages',
+      metricType: 'Conversion',
+      metric: 'Conversion Rate',
+      percentageChange: -20,
+    });
+
+    const [spikeImpact, dropImpact] = await service.estimateImpact(
+      'default',
+      [spike, drop],
+      window,
+    );
+
+    expect(spikeImpact).toMatchObject({
+      currency: 'INR',
+      avgBookingValue: 20000,
+    });
+    expect(spikeImpact.bookings).toBeCloseTo(0.33, 2);
+    expect(dropImpact).toEqual({
+      bookings: -4,
+      revenue: -600000,
+      currency: 'INR',
+      avgBookingValue: 150000,
+    });
+
+    const spikeScore = service.score(
+      { type: 'Traffic Surge' } as never,
+      spike,
+      spikeImpact,
+      window,
+    );
+    const dropScore = service.score(
+      { type: 'Conversion Drop' } as never,
+      drop,
+      dropImpact,
+      window,
+    );
+    expect(dropScore).toBeGreaterThan(spikeScore);
+  });
+
+  it('takes revenue anomalies at their recorded value and currency', async () => {
+    const [impact] = await service.estimateImpact(
+      'default',
+      [
+        anomaly({
+          page: '/maldives-packages',
+          metricType: 'Revenue',
+          metric: 'Revenue',
+          currentValue: 2400000,
+          expectedValue: 3000000,
+          percentageChange: -20,
+          context: { currency: 'USD' },
+        }),
+      ],
+      window,
+    );
+
+    expect(impact).toEqual({
+      bookings: -4,
+      revenue: -600000,
+      currency: 'USD',
+      avgBookingValue: 150000,
+    });
+  });
+});
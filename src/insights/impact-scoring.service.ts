@@ -0,0 +1,300 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from 'prisma/prisma.service';
+import { BookingValuesService } from '../booking-values/booking-values.service';
+import { DetectionWindow } from '../analytics/interfaces/detection-window.interface';
+import { SliceKey } from '../analytics/interfaces/slice.interface';
+import {
+  AnomalyDetectionResult,
+  BusinessInsight,
+  RevenueImpact,
+} from './interfaces/insight.interface';
+import {
+  IMPACT_COMPONENTS,
+  ImpactComponent,
+  METRIC_BOOKING_SENSITIVITY,
+  loadImpactScoringConfig,
+} from './impact-scoring.constants';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type VolumeRow = SliceKey & {
+  timestamp: Date;
+  volume: number;
+};
+
+/**
+ * Hourly pageviews and bookings of an anomaly's page or slice
+ */
+interface ScopeVolume {
+  baselineViews: number; // average per baseline hour
+  baselineBookings: number;
+  currentViews: number; // in the anomaly hour
+  currentBookings: number;
+}
+
+@Injectable()
+export class ImpactScoringService {
+  private readonly config = loadImpactScoringConfig();
+
+  constructor(
+    private prisma: PrismaService,
+    private bookingValues: BookingValuesService,
+  ) {}
+
+  /**
+   * Bookings and revenue each anomaly gained or lost in its hour, from the
+   * page's (or slice's) traffic, baseline bookings per view and average
+   * booking value. Traffic, conversion and bookings anomalies move bookings
+   * directly, and revenue anomalies are their own estimate (in the currency
+   * they were recorded in); other metrics put a share of the expected
+   * bookings at risk.
+   */
+  async estimateImpact(
+    tenantId: string,
+    anomalies: AnomalyDetectionResult[],
+    window: DetectionWindow,
+  ): Promise<RevenueImpact[]> {
+    if (anomalies.length === 0) return [];
+
+    const scopes = anomalies.map(scopeOf);
+    const [views, bookings, values] = await Promise.all([
+      this.fetchVolumes(tenantId, 'pageviews', scopes, window),
+      this.fetchVolumes(tenantId, 'useractions', scopes, window),
+      this.bookingValues.findAll(tenantId),
+    ]);
+
+    return anomalies.map((anomaly, index) => {
+      const scope = scopes[index];
+      const volume = this.scopeVolume(views, bookings, scope, anomaly, window);
+      const value = this.bookingValues.resolveValue(
+        values,
+        scope.page,
+        scope.pageCategory ?? anomaly.context?.pageCategory,
+      );
+
+      if (anomaly.metric === 'Revenue') {
+        const revenue = anomaly.currentValue - anomaly.expectedValue;
+        return {
+          bookings: round(revenue / value.avgBookingValue, 2),
+          revenue: Math.round(revenue),
+          currency: anomaly.context?.currency || value.currency,
+          avgBookingValue: value.avgBookingValue,
+        };
+      }
+
+      const bookingDelta = estimateBookingDelta(anomaly, volume);
+      return {
+        bookings: round(bookingDelta, 2),
+        revenue: Math.round(bookingDelta * value.avgBookingValue),
+        currency: value.currency,
+        avgBookingValue: value.avgBookingValue,
+      };
+    });
+  }
+
+  /**
+   * Weighted average of the 0-100 components (estimated revenue, percentage
+   * magnitude, criticality of the insight type and recency), using the
+   * configured weights
+   */
+  score(
+    insight: BusinessInsight,
+    anomaly: AnomalyDetectionResult,
+    impact: RevenueImpact,
+    window: DetectionWindow,
+  ): number {
+    const hoursAgo =
+      (window.asOf.getTime() - anomaly.timestamp.getTime()) / HOUR_MS;
+    const components: Record<ImpactComponent, number> = {
+      revenue:
+        Math.min(Math.abs(impact.revenue) / this.config.revenueScale, 1) * 100,
+      magnitude: Math.min(Math.abs(anomaly.percentageChange) / 5, 100),
+      criticality: criticalityOf(insight.type),
+      recency: Math.max(0, 100 - hoursAgo * 10), // 10 points per hour
+    };
+
+    const { weights } = this.config;
+    const totalWeight = IMPACT_COMPONENTS.reduce(
+      (sum, name) => sum + weights[name],
+      0,
+    );
+    const weighted = IMPACT_COMPONENTS.reduce(
+      (sum, name) => sum + weights[name] * components[name],
+      0,
+    );
+    return Math.round(weighted / totalWeight);
+  }
+
+  private scopeVolume(
+    views: Map<string, VolumeRow[]>,
+    bookings: Map<string, VolumeRow[]>,
+    scope: SliceKey,
+    anomaly: AnomalyDetectionResult,
+    window: DetectionWindow,
+  ): ScopeVolume {
+    const baselineHours = Math.max(
+      (window.baselineEnd.getTime() - window.baselineStart.getTime()) / HOUR_MS,
+      1,
+    );
+    const hour = anomaly.timestamp.getTime();
+    const sum = (rows: Map<string, VolumeRow[]>, current: boolean) =>
+      (rows.get(indexKey(scope)) ?? [])
+        .filter(
+          (row) =>
+            matchesScope(row, scope) &&
+            (current
+              ? row.timestamp.getTime() === hour
+              : row.timestamp < window.baselineEnd),
+        )
+        .reduce((total, row) => total + row.volume, 0);
+
+    return {
+      baselineViews: sum(views, false) / baselineHours,
+      baselineBookings: sum(bookings, false) / baselineHours,
+      currentViews: sum(views, true),
+      currentBookings: sum(bookings, true),
+    };
+  }
+
+  /**
+   * Rows of every anomaly's page or category over the detection window,
+   * indexed by page / category; one query per table
+   */
+  private async fetchVolumes(
+    tenantId: string,
+    source: 'pageviews' | 'useractions',
+    scopes: SliceKey[],
+    window: DetectionWindow,
+  ): Promise<Map<string, VolumeRow[]>> {
+    const where = {
+      tenantId,
+      OR: uniqueScopes(scopes),
+      timestamp: { gte: window.baselineStart, lt: window.asOf },
+    };
+    const dimensions = {
+      page: true,
+      pageCategory: true,
+      deviceType: true,
+      referrer: true,
+      region: true,
+      timestamp: true,
+    } as const;
+
+    const rows: VolumeRow[] =
+      source === 'pageviews'
+        ? (
+            await this.prisma.pageViewsHourly.findMany({
+              where,
+              select: { ...dimensions, viewCount: true },
+            })
+          ).map(({ viewCount, ...row }) => ({ ...row, volume: viewCount }))
+        : (
+            await this.prisma.userActionsHourly.findMany({
+              where,
+              select: { ...dimensions, conversionCount: true },
+            })
+          ).map(({ conversionCount, ...row }) => ({
+            ...row,
+            volume: conversionCount,
+          }));
+
+    const index = new Map<string, VolumeRow[]>();
+    for (const row of rows) {
+      for (const key of [`page:${row.page}`, `category:${row.pageCategory}`]) {
+        const indexed = index.get(key);
+        if (indexed) indexed.push(row);
+        else index.set(key, [row]);
+      }
+    }
+    return index;
+  }
+}
+
+/**
+ * Bookings gained (+) or lost (-) in the anomaly hour
+ */
+function estimateBookingDelta(
+  anomaly: AnomalyDetectionResult,
+  volume: ScopeVolume,
+): number {
+  const bookingsPerView =
+    volume.baselineViews > 0
+      ? volume.baselineBookings / volume.baselineViews
+      : 0;
+  const expectedBookings = volume.currentViews * bookingsPerView;
+
+  switch (anomaly.metric) {
+    case 'PageViews':
+      return (volume.currentViews - volume.baselineViews) * bookingsPerView;
+    case 'Conversion Rate':
+      return volume.currentBookings - expectedBookings;
+    case 'Bookings':
+      return anomaly.currentValue - anomaly.expectedValue;
+    case 'Cancellation Rate':
+      // Extra cancellations per 100 bookings
+      return (
+        (-(anomaly.currentValue - anomaly.expectedValue) / 100) *
+        volume.currentBookings
+      );
+    default: {
+      const sensitivity = METRIC_BOOKING_SENSITIVITY[anomaly.metric] ?? 0;
+      // Longer sessions are better; for every other metric an increase hurts
+      const worse =
+        anomaly.metric === 'Session Duration'
+          ? anomaly.percentageChange < 0
+          : anomaly.percentageChange > 0;
+      const share = Math.min(Math.abs(anomaly.percentageChange) / 100, 1);
+      return (worse ? -1 : 1) * expectedBookings * share * sensitivity;
+    }
+  }
+}
+
+function criticalityOf(type: string): number {
+  if (
+    type.includes('Conversion') ||
+    type.includes('Error') ||
+    type.includes('Revenue') ||
+    type.includes('Booking') ||
+    type.includes('Cancellation')
+  ) {
+    return 90; // High criticality
+  } else if (type.includes('Performance') || type.includes('Engagement')) {
+    return 70; // Medium-high criticality
+  } else if (type.includes('Traffic')) {
+    return 60; // Medium criticality
+  }
+  return 50;
+}
+
+function scopeOf(anomaly: AnomalyDetectionResult): SliceKey {
+  return (
+    (anomaly.context?.slice as SliceKey | undefined) ?? {
+      page: anomaly.page,
+    }
+  );
+}
+
+function indexKey(scope: SliceKey): string {
+  return scope.page !== undefined
+    ? `page:${scope.page}`
+    : `category:${scope.pageCategory}`;
+}
+
+function matchesScope(row: VolumeRow, scope: SliceKey): boolean {
+  return Object.entries(scope).every(
+    ([dimension, value]) => row[dimension as keyof SliceKey] === value,
+  );
+}
+
+function uniqueScopes(scopes: SliceKey[]): SliceKey[] {
+  const seen = new Map<string, SliceKey>();
+  for (const scope of scopes) {
+    seen.set(JSON.stringify(Object.entries(scope).sort()), scope);
+  }
+  return [...seen.values()];
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
@@ -0,0 +1,19 @@
+import { createHash } from 'crypto';
+import { BusinessInsight } from './interfaces/insight.interface';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Stable identity of an insight across detection runs: the same page, metric
+ * and slice anomalous in the same hour always hashes to the same value
+ */
+export function insightFingerprint(insight: BusinessInsight): string {
+  const detectedAt = new Date(insight.detectedAt).getTime();
+  const anomalyHour = new Date(
+    detectedAt - (detectedAt % HOUR_MS),
+  ).toISOString();
+  const sliceKey = (insight.context?.sliceKey as string | undefined) ?? '';
+  const key = [insight.page, insight.metric, sliceKey, anomalyHour];
+
+  return createHash('sha256').update(key.join('\n')).digest('hex');
+}
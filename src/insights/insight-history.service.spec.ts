@@ -0,0 +1,70 @@
+import { BadRequestException } from '@nestjs/common';
+import { PrismaService } from 'prisma/prisma.service';
+import { InsightHistoryService } from './insight-history.service';
+
+describe('InsightHistoryService', () => {
+  const insight = (id: number, impactScore: number) => ({
+    id,
+    impactScore,
+    timestamp: new Date(`2025-11-19T0${id}:00:00Z`),
+  });
+
+  const findMany = jest.fn();
+  const service = new InsightHistoryService({
+    businessInsight: { findMany },
+  } as unknown as PrismaService);
+
+  beforeEach(() => findMany.mockReset());
+
+  it('returns a cursor that continues after the last row of the page', async () => {
+    findMany.mockResolvedValueOnce([
+      insight(3, 80),
+      insight(2, 80),
+      insight(1, 40),
+    ]);
+
+    const page = await service.findHistory('default', {
+      sortBy: 'impactScore',
+      limit: 2,
+    });
+
+    expect(page.insights.map((i) => i.id)).toEqual([3, 2]);
+    expect(page.hasMore).toBe(true);
+
+    findMany.mockResolvedValueOnce([insight(1, 40)]);
+    const next = await service.findHistory('default', {
+      sortBy: 'impactScore',
+      limit: 2,
+      cursor: page.nextCursor ?? undefined,
+    });
+
+    expect(next).toMatchObject({ hasMore: false, nextCursor: null });
+    expect(findMany).toHaveBeenLastCalledWith({
+      where: {
+        AND: [
+          expect.anything(),
+          {
+            OR: [
+              { impactScore: { lt: 80 } },
+              { impactScore: 80, id: { lt: 2 } },
+            ],
+          },
+        ],
+      },
+      orderBy: [{ impactScore: 'desc' }, { id: 'desc' }],
+      take: 3,
+    });
+  });
+
+  it('rejects cursors issued for a different sort', async () => {
+    findMany.mockResolvedValueOnce([insight(2, 80), insight(1, 40)]);
+    const page = await service.findHistory('default', { limit: 1 });
+
+    await expect(
+      service.findHistory('default', {
+        sortBy: 'impactScore',
+        cursor: page.nextCursor ?? undefined,
+      }),
+    ).rejects.toBeInstanceOf(BadRequestException);
+  });
+});
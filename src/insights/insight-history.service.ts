@@ -0,0 +1,158 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { BusinessInsight as StoredInsight, Prisma } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import {
+  DEFAULT_HISTORY_LIMIT,
+  InsightHistoryQueryDto,
+  InsightSortField,
+} from './dto/insight-history-query.dto';
+
+/**
+ * Position of the last insight of a page: its sort value and id (tie-breaker)
+ */
+interface HistoryCursor {
+  sortBy: InsightSortField;
+  value: string | number;
+  id: number;
+}
+
+export interface InsightHistoryPage {
+  insights: StoredInsight[];
+  limit: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+@Injectable()
+export class InsightHistoryService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * A tenant's stored insights matching the filters, one keyset-paginated
+   * page at a time.
+   * Rows are ordered by the sort field and then id, so pages stay stable while
+   * new insights are stored.
+   */
+  async findHistory(
+    tenantId: string,
+    query: InsightHistoryQueryDto = {},
+  ): Promise<InsightHistoryPage> {
+    const sortBy = query.sortBy ?? 'timestamp';
+    const order = query.order ?? 'desc';
+    const limit = query.limit ?? DEFAULT_HISTORY_LIMIT;
+
+    const filters = this.buildFilters(tenantId, query);
+    const cursor = query.cursor
+      ? this.decodeCursor(query.cursor, sortBy)
+      : null;
+    const where: Prisma.BusinessInsightWhereInput = cursor
+      ? { AND: [filters, this.afterCursor(cursor, order)] }
+      : filters;
+
+    const rows = await this.prisma.businessInsight.findMany({
+      where,
+      orderBy: [{ [sortBy]: order }, { id: order }],
+      take: limit + 1,
+    });
+
+    const hasMore = rows.length > limit;
+    const insights = rows.slice(0, limit);
+    const last = insights[insights.length - 1];
+
+    return {
+      insights,
+      limit,
+      hasMore,
+      nextCursor: hasMore ? this.encodeCursor(last, sortBy) : null,
+    };
+  }
+
+  private buildFilters(
+    tenantId: string,
+    query: InsightHistoryQueryDto,
+  ): Prisma.BusinessInsightWhereInput {
+    if (
+      query.minImpactScore !== undefined &&
+      query.maxImpactScore !== undefined &&
+      query.minImpactScore > query.maxImpactScore
+    ) {
+      throw new BadRequestException(
+        'minImpactScore must not exceed maxImpactScore',
+      );
+    }
+    if (query.from && query.to && query.from >= query.to) {
+      throw new BadRequestException('from must be before to');
+    }
+
+    return {
+      tenantId,
+      page: query.page,
+      metricType: query.metricType,
+      metric: query.metric,
+      status: query.status,
+      impactScore: { gte: query.minImpactScore, lte: query.maxImpactScore },
+      timestamp: { gte: query.from, lt: query.to },
+    };
+  }
+
+  private afterCursor(
+    cursor: HistoryCursor,
+    order: 'asc' | 'desc',
+  ): Prisma.BusinessInsightWhereInput {
+    const beyond = order === 'desc' ? 'lt' : 'gt';
+    const value = isNumericSort(cursor.sortBy)
+      ? cursor.value
+      : new Date(cursor.value);
+
+    return {
+      OR: [
+        { [cursor.sortBy]: { [beyond]: value } },
+        { [cursor.sortBy]: value, id: { [beyond]: cursor.id } },
+      ],
+    };
+  }
+
+  private encodeCursor(insight: StoredInsight, sortBy: InsightSortField) {
+    const value = insight[sortBy];
+    const cursor: HistoryCursor = {
+      sortBy,
+      value: value instanceof Date ? value.toISOString() : value,
+      id: insight.id,
+    };
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+  }
+
+  private decodeCursor(
+    encoded: string,
+    sortBy: InsightSortField,
+  ): HistoryCursor {
+    let cursor: Partial<HistoryCursor> | null;
+    try {
+      cursor = JSON.parse(
+        Buffer.from(encoded, 'base64url').toString('utf8'),
+      ) as Partial<HistoryCursor> | null;
+    } catch {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const validValue = isNumericSort(sortBy)
+      ? typeof cursor?.value === 'number'
+      : typeof cursor?.value === 'string' &&
+        !Number.isNaN(Date.parse(cursor.value));
+    if (
+      !cursor ||
+      cursor.sortBy !== sortBy ||
+      !validValue ||
+      !Number.isInteger(cursor.id)
+    ) {
+      throw new BadRequestException(
+        'Invalid cursor; pass nextCursor with the same sortBy',
+      );
+    }
+    return cursor as HistoryCursor;
+  }
+}
+
+function isNumericSort(sortBy: InsightSortField): boolean {
+  return sortBy === 'impactScore' || sortBy === 'occurrenceCount';
+}
@@ -0,0 +1,73 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Headers,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Put,
+  Query,
+} from '@nestjs/common';
+import { InsightTemplatesService } from './insight-templates.service';
+import { InsightsCacheService } from './insights-cache.service';
+import {
+  InsightTemplateQueryDto,
+  UpdateInsightTemplateDto,
+} from './dto/insight-template.dto';
+import { InsightTemplateView } from './interfaces/insight.interface';
+import { TenantId } from '../tenants/tenant.decorator';
+import { negotiateLocale } from './templates/template-renderer';
+import { RequireRole } from '../auth/roles.decorator';
+
+@Controller('insight-templates')
+export class InsightTemplatesController {
+  constructor(
+    private readonly templatesService: InsightTemplatesService,
+    private readonly insightsCache: InsightsCacheService,
+  ) {}
+
+  @Get()
+  async findAll(
+    @TenantId() tenantId: string,
+    @Query() query: InsightTemplateQueryDto,
+    @Headers('accept-language') acceptLanguage?: string,
+  ): Promise<InsightTemplateView[]> {
+    return this.templatesService.findTemplates(
+      query.locale ?? negotiateLocale(acceptLanguage),
+      tenantId,
+    );
+  }
+
+  @Put(':locale/:key')
+  @RequireRole('admin')
+  async upsert(
+    @TenantId() tenantId: string,
+    @Param('locale') locale: string,
+    @Param('key') key: string,
+    @Body() dto: UpdateInsightTemplateDto,
+  ): Promise<InsightTemplateView> {
+    const template = await this.templatesService.upsertTemplate(
+      tenantId,
+      locale,
+      key,
+      dto.template,
+    );
+    // The tenant's cached insight responses used the previous wording
+    this.insightsCache.invalidate(tenantId);
+    return template;
+  }
+
+  @Delete(':locale/:key')
+  @RequireRole('admin')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @TenantId() tenantId: string,
+    @Param('locale') locale: string,
+    @Param('key') key: string,
+  ): Promise<void> {
+    await this.templatesService.removeTemplate(tenantId, locale, key);
+    this.insightsCache.invalidate(tenantId);
+  }
+}
@@ -0,0 +1,166 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from 'prisma/prisma.service';
+import {
+  BusinessInsight,
+  InsightTemplateView,
+} from './interfaces/insight.interface';
+import {
+  EN_TEMPLATES,
+  InsightTemplateKey,
+} from './templates/insight-templates.en';
+import {
+  DEFAULT_TEMPLATES,
+  Locale,
+  SUPPORTED_LOCALES,
+  TemplateLookup,
+  isSupportedLocale,
+  isTemplateKey,
+  renderInsightText,
+  templatePlaceholders,
+} from './templates/template-renderer';
+
+@Injectable()
+export class InsightTemplatesService {
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Render insights' narrative and suggested action in a locale, applying the
+   * tenant's overrides; insights without template parts are left as they are
+   */
+  async localize<T extends BusinessInsight>(
+    insights: T[],
+    locale: Locale,
+    tenantId: string,
+  ): Promise<T[]> {
+    if (!insights.some((insight) => insight.text)) return insights;
+
+    const lookup = await this.lookupFor(locale, tenantId);
+    return insights.map((insight) =>
+      insight.text
+        ? { ...insight, ...renderInsightText(insight.text, lookup) }
+        : insight,
+    );
+  }
+
+  /**
+   * Every template of a locale as the tenant sees it, with the built-in default
+   */
+  async findTemplates(
+    locale: string,
+    tenantId: string,
+  ): Promise<InsightTemplateView[]> {
+    const supported = this.assertLocale(locale);
+    const overrides = await this.findOverrides(supported, tenantId);
+
+    return (Object.keys(EN_TEMPLATES) as InsightTemplateKey[]).map((key) =>
+      this.toView(supported, key, overrides.get(key)),
+    );
+  }
+
+  /**
+   * Override one template for a tenant; it may only use placeholders the
+   * default template provides
+   */
+  async upsertTemplate(
+    tenantId: string,
+    locale: string,
+    key: string,
+    template: string,
+  ): Promise<InsightTemplateView> {
+    const supported = this.assertLocale(locale);
+    const templateKey = this.assertKey(key);
+
+    const available = new Set(templatePlaceholders(EN_TEMPLATES[templateKey]));
+    const unknown = templatePlaceholders(template).filter(
+      (name) => !available.has(name),
+    );
+    if (unknown.length > 0) {
+      throw new BadRequestException(
+        `Unknown placeholders for ${key}: ${unknown.map((name) => `{${name}}`).join(', ')}` +
+          (available.size > 0
+            ? `; available: ${[...available].map((name) => `{${name}}`).join(', ')}`
+            : '; this template takes no placeholders'),
+      );
+    }
+
+    await this.prisma.insightTemplate.upsert({
+      where: { tenantId_locale_key: { tenantId, locale: supported, key } },
+      create: { tenantId, locale: supported, key, template },
+      update: { template },
+    });
+    return this.toView(supported, templateKey, template);
+  }
+
+  /**
+   * Drop a tenant's override, restoring the built-in template
+   */
+  async removeTemplate(
+    tenantId: string,
+    locale: string,
+    key: string,
+  ): Promise<void> {
+    const where = { tenantId_locale_key: { tenantId, locale, key } };
+    const override = await this.prisma.insightTemplate.findUnique({ where });
+    if (!override) {
+      throw new NotFoundException(
+        `No ${locale} override of ${key} for tenant ${tenantId}`,
+      );
+    }
+    await this.prisma.insightTemplate.delete({ where });
+  }
+
+  private async lookupFor(
+    locale: Locale,
+    tenantId: string,
+  ): Promise<TemplateLookup> {
+    const overrides = await this.findOverrides(locale, tenantId);
+    const defaults = DEFAULT_TEMPLATES[locale];
+    return (key) => overrides.get(key) ?? defaults[key];
+  }
+
+  private async findOverrides(
+    locale: Locale,
+    tenantId: string,
+  ): Promise<Map<string, string>> {
+    const rows = await this.prisma.insightTemplate.findMany({
+      where: { tenantId, locale },
+      select: { key: true, template: true },
+    });
+    return new Map(rows.map((row) => [row.key, row.template]));
+  }
+
+  private toView(
+    locale: Locale,
+    key: InsightTemplateKey,
+    override: string | undefined,
+  ): InsightTemplateView {
+    const defaultTemplate = DEFAULT_TEMPLATES[locale][key];
+    return {
+      key,
+      locale,
+      template: override ?? defaultTemplate,
+      defaultTemplate,
+      overridden: override !== undefined,
+    };
+  }
+
+  private assertLocale(locale: string): Locale {
+    if (!isSupportedLocale(locale)) {
+      throw new BadRequestException(
+        `Unsupported locale ${locale}; expected one of ${SUPPORTED_LOCALES.join(', ')}`,
+      );
+    }
+    return locale;
+  }
+
+  private assertKey(key: string): InsightTemplateKey {
+    if (!isTemplateKey(key)) {
+      throw new NotFoundException(`Unknown insight template ${key}`);
+    }
+    return key;
+  }
+}
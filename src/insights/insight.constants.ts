@@ -0,0 +1,27 @@
+export const INSIGHT_STATUSES = [
+  'open',
+  'acknowledged',
+  'snoozed',
+  'resolved',
+] as const;
+
+export type InsightStatus = (typeof INSIGHT_STATUSES)[number];
+
+/**
+ * Hours after resolution during which the same page/metric is not re-reported
+ */
+export const DEFAULT_RESOLVED_SUPPRESSION_HOURS = 24;
+
+/**
+ * Resolved-insight suppression window from INSIGHT_RESOLVED_SUPPRESSION_HOURS
+ */
+export function loadResolvedSuppressionHours(
+  env: NodeJS.ProcessEnv = process.env,
+): number {
+  const hours = Number(env.INSIGHT_RESOLVED_SUPPRESSION_HOURS);
+  return env.INSIGHT_RESOLVED_SUPPRESSION_HOURS !== undefined &&
+    Number.isFinite(hours) &&
+    hours >= 0
+    ? hours
+    : DEFAULT_RESOLVED_SUPPRESSION_HOURS;
+}
@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+
+/**
+ * Per-tenant generation of the cached insight responses. The generation is
+ * part of every cache key, so invalidating one tenant leaves the others'
+ * entries in place; superseded entries expire with the cache TTL.
+ */
+@Injectable()
+export class InsightsCacheService {
+  private readonly generations = new Map<string, number>();
+
+  generation(tenantId: string): number {
+    return this.generations.get(tenantId) ?? 0;
+  }
+
+  invalidate(tenantId: string): void {
+    this.generations.set(tenantId, this.generation(tenantId) + 1);
+  }
+}
@@ -1,22 +1,97 @@
-import { Controller, Get, UseInterceptors } from '@nestjs/common';
-import { CacheInterceptor, CacheTTL } from '@nestjs/cache-manager';
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Query,
+  UseInterceptors,
+} from '@nestjs/common';
+import { CacheTTL } from '@nestjs/cache-manager';
 import { InsightsService } from './insights.service';
-import { InsightsResponseDto } from './dto/business-insight.dto';
+import { InsightsCacheService } from './insights-cache.service';
+import { InsightHistoryService } from './insight-history.service';
+import { InsightTemplatesService } from './insight-templates.service';
+import {
+  BusinessInsightResponseDto,
+  DetectionWindowDto,
+  InsightsResponseDto,
+} from './dto/business-insight.dto';
+import { BusinessInsightsQueryDto } from './dto/business-insights-query.dto';
+import { InsightBreakdownResponseDto } from './dto/insight-breakdown.dto';
+import { InsightResponseDto } from './dto/insight-response.dto';
+import { UpdateInsightDto } from './dto/update-insight.dto';
+import { InsightHistoryQueryDto } from './dto/insight-history-query.dto';
+import { InsightHistoryResponseDto } from './dto/insight-history-response.dto';
+import { StoredRunInsight } from './interfaces/insight.interface';
+import { LocalizedCacheInterceptor } from './localized-cache.interceptor';
+import { negotiateLocale } from './templates/template-renderer';
+import { TenantId } from '../tenants/tenant.decorator';
+import { RequireRole } from '../auth/roles.decorator';
 
 @Controller('insights')
-@UseInterceptors(CacheInterceptor)
 export class InsightsController {
-  constructor(private readonly insightsService: InsightsService) {}
+  constructor(
+    private readonly insightsService: InsightsService,
+    private readonly insightHistoryService: InsightHistoryService,
+    private readonly insightTemplates: InsightTemplatesService,
+    private readonly insightsCache: InsightsCacheService,
+  ) {}
 
+  /**
+   * Only this route is cached; history, single insights and breakdowns are
+   * read fresh so they never lag behind stored runs and score history
+   */
   @Get('business')
+  @UseInterceptors(LocalizedCacheInterceptor)
   @CacheTTL(900) // 15 minutes in seconds
-  async getBusinessInsights(): Promise<InsightsResponseDto> {
-    const insights = await this.insightsService.generateBusinessInsights();
+  async getBusinessInsights(
+    @TenantId() tenantId: string,
+    @Query() query: BusinessInsightsQueryDto,
+    @Headers('accept-language') acceptLanguage?: string,
+  ): Promise<InsightsResponseDto> {
+    // Narratives are rendered in the requested language with tenant overrides
+    const locale = negotiateLocale(acceptLanguage);
+    const localize = (insights: StoredRunInsight[]) =>
+      this.insightTemplates.localize(insights, locale, tenantId);
+
+    // The default window is served from the latest scheduled or manual run
+    const usesDefaultWindow =
+      query.recentHours === undefined &&
+      query.baselineHours === undefined &&
+      query.asOf === undefined;
+    const latestRun = usesDefaultWindow
+      ? await this.insightsService.findLatestRun(tenantId)
+      : null;
+    if (latestRun) {
+      const { run, insights } = latestRun;
+      return {
+        success: true,
+        timestamp: new Date().toISOString(),
+        locale,
+        detectionRun: {
+          id: run.id,
+          finishedAt: run.finishedAt?.toISOString() ?? null,
+        },
+        window: run.window as unknown as DetectionWindowDto,
+        insights: (await localize(insights)).map(toInsightResponse),
+      };
+    }
+
+    // Custom windows, or no completed run yet: detect on the request path
+    const window = this.insightsService.resolveWindow(query);
+    const insights = await this.insightsService.generateBusinessInsights(
+      tenantId,
+      window,
+    );
 
     // Store insights in database (bonus feature) - only if insights exist
+    let ids: number[] = [];
     if (insights.length > 0) {
       try {
-        await this.insightsService.storeInsights(insights);
+        ids = await this.insightsService.storeInsights(tenantId, insights);
       } catch (error) {
         // Log error but don't fail the request
         console.error('Failed to store insights:', error);
@@ -29,19 +104,111 @@ export class InsightsController {
     return {
       success: true,
       timestamp: now.toISOString(),
+      locale,
       cachedUntil: cachedUntil.toISOString(),
-      insights: insights.map((insight) => ({
-        type: insight.type,
-        metric: insight.metric,
-        page: insight.page,
-        change: insight.change,
-        businessInsight: insight.businessInsight,
-        suggestedAction: insight.suggestedAction,
-        impactScore: insight.impactScore,
-        detectedAt: insight.detectedAt,
-        context: insight.context,
-      })),
+      window: {
+        asOf: window.asOf.toISOString(),
+        recentStart: window.recentStart.toISOString(),
+        baselineStart: window.baselineStart.toISOString(),
+        baselineEnd: window.baselineEnd.toISOString(),
+      },
+      insights: (
+        await localize(
+          insights.map((insight, index) => ({ ...insight, id: ids[index] })),
+        )
+      ).map(toInsightResponse),
+    };
+  }
+
+  // Declared before ':id' so "history" is not parsed as an id
+  @Get('history')
+  async getInsightHistory(
+    @TenantId() tenantId: string,
+    @Query() query: InsightHistoryQueryDto,
+  ): Promise<InsightHistoryResponseDto> {
+    const { insights, ...pagination } =
+      await this.insightHistoryService.findHistory(tenantId, query);
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      insights,
+      pagination,
+    };
+  }
+
+  @Get(':id')
+  async getInsight(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<InsightResponseDto> {
+    const insight = await this.insightsService.findInsight(tenantId, id);
+    const scoreHistory = await this.insightsService.findInsightScores(
+      tenantId,
+      id,
+    );
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      insight,
+      scoreHistory,
+    };
+  }
+
+  @Patch(':id')
+  @RequireRole('analyst')
+  async updateInsight(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateInsightDto,
+  ): Promise<InsightResponseDto> {
+    const insight = await this.insightsService.updateInsight(tenantId, id, dto);
+
+    // The tenant's cached business insights may still list what was just
+    // snoozed or resolved
+    this.insightsCache.invalidate(tenantId);
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      insight,
+    };
+  }
+
+  @Get(':id/breakdown')
+  async getInsightBreakdown(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<InsightBreakdownResponseDto> {
+    const breakdown = await this.insightsService.getInsightBreakdown(
+      tenantId,
+      id,
+    );
+
+    return {
+      success: true,
+      timestamp: new Date().toISOString(),
+      insightId: id,
+      breakdown,
     };
   }
 }
 
+function toInsightResponse(
+  insight: StoredRunInsight,
+): BusinessInsightResponseDto {
+  return {
+    id: insight.id,
+    type: insight.type,
+    metric: insight.metric,
+    page: insight.page,
+    change: insight.change,
+    businessInsight: insight.businessInsight,
+    suggestedAction: insight.suggestedAction,
+    impactScore: insight.impactScore,
+    revenueImpact: insight.revenueImpact,
+    detectedAt: insight.detectedAt,
+    context: insight.context,
+  };
+}
@@ -1,13 +1,35 @@
 import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
 import { InsightsController } from './insights.controller';
 import { InsightsService } from './insights.service';
+import { InsightHistoryService } from './insight-history.service';
+import { InsightTemplatesController } from './insight-templates.controller';
+import { InsightTemplatesService } from './insight-templates.service';
+import { InsightRuleRegistry } from './rules/insight-rule-registry.service';
+import { BUILT_IN_INSIGHT_RULES } from './rules/built-in-rules';
+import { ImpactScoringService } from './impact-scoring.service';
+import { InsightsCacheService } from './insights-cache.service';
 import { AnalyticsModule } from '../analytics/analytics.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { BookingValuesModule } from '../booking-values/booking-values.module';
 
 @Module({
-  imports: [AnalyticsModule],
-  controllers: [InsightsController],
-  providers: [InsightsService],
-  exports: [InsightsService],
+  imports: [
+    DiscoveryModule,
+    AnalyticsModule,
+    WebhooksModule,
+    BookingValuesModule,
+  ],
+  controllers: [InsightsController, InsightTemplatesController],
+  providers: [
+    InsightsService,
+    InsightHistoryService,
+    InsightTemplatesService,
+    InsightRuleRegistry,
+    ImpactScoringService,
+    InsightsCacheService,
+    ...BUILT_IN_INSIGHT_RULES,
+  ],
+  exports: [InsightsService, InsightsCacheService],
 })
 export class InsightsModule {}
-
@@ -1,378 +1,393 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import {
+  BusinessInsight as StoredInsight,
+  DetectionRun,
+  Prisma,
+} from '@prisma/client';
 import { PrismaService } from 'prisma/prisma.service';
 import { AnomalyDetectorService } from '../analytics/anomaly-detector.service';
-import { BusinessInsight } from './interfaces/insight.interface';
+import { ContributionAnalysisService } from '../analytics/contribution-analysis.service';
+import {
+  AnomalyDetectionResult,
+  BusinessInsight,
+  CorrelationResult,
+  DetectionOutcome,
+  InsightScorePoint,
+  StoredRunInsight,
+} from './interfaces/insight.interface';
+import {
+  DEFAULT_BASELINE_HOURS,
+  DetectionOptions,
+  DetectionWindow,
+} from '../analytics/interfaces/detection-window.interface';
+import { ContributionBreakdown } from '../analytics/interfaces/contribution.interface';
+import { SliceKey } from '../analytics/interfaces/slice.interface';
+import { UpdateInsightDto } from './dto/update-insight.dto';
+import { insightFingerprint } from './insight-fingerprint';
+import { WebhookDispatcherService } from '../webhooks/webhook-dispatcher.service';
+import { NotifiedInsight } from '../webhooks/interfaces/webhook.interface';
+import { loadResolvedSuppressionHours } from './insight.constants';
+import { InsightTemplatesService } from './insight-templates.service';
+import { DEFAULT_LOCALE } from './templates/template-renderer';
+import { InsightRuleRegistry } from './rules/insight-rule-registry.service';
+import { ImpactScoringService } from './impact-scoring.service';
 
 @Injectable()
 export class InsightsService {
   constructor(
     private prisma: PrismaService,
     private anomalyDetector: AnomalyDetectorService,
+    private contributionAnalysis: ContributionAnalysisService,
+    private webhookDispatcher: WebhookDispatcherService,
+    private insightTemplates: InsightTemplatesService,
+    private insightRules: InsightRuleRegistry,
+    private impactScoring: ImpactScoringService,
   ) {}
 
+  private readonly resolvedSuppressionHours = loadResolvedSuppressionHours();
+
+  /**
+   * Resolve detection settings (recent/baseline hours, as-of time) into a window
+   */
+  resolveWindow(options: DetectionOptions = {}): DetectionWindow {
+    return this.anomalyDetector.resolveWindow(options);
+  }
+
   /**
-   * Generate business insights from detected anomalies
+   * Generate a tenant's business insights from detected anomalies
    */
-  async generateBusinessInsights(): Promise<BusinessInsight[]> {
-    // Detect anomalies (both aggregated and granular)
-    const aggregatedAnomalies = await this.anomalyDetector.detectAnomalies();
-    const granularAnomalies = await this.anomalyDetector.detectGranularAnomalies();
-    
+  async generateBusinessInsights(
+    tenantId: string,
+    window: DetectionWindow = this.resolveWindow(),
+  ): Promise<BusinessInsight[]> {
+    const { insights } = await this.runDetection(tenantId, window);
+    return insights;
+  }
+
+  /**
+   * Detect a tenant's anomalies and turn them into the top 5 insights, also
+   * reporting how many unique anomalies were found
+   */
+  async runDetection(
+    tenantId: string,
+    window: DetectionWindow,
+  ): Promise<DetectionOutcome> {
+    // Detect anomalies (aggregated, granular and category rollups)
+    const aggregatedAnomalies = await this.anomalyDetector.detectAnomalies(
+      tenantId,
+      window,
+    );
+    const granularAnomalies =
+      await this.anomalyDetector.detectGranularAnomalies(tenantId, window);
+    const categoryAnomalies =
+      await this.anomalyDetector.detectCategoryAnomalies(tenantId, window);
+
     // Combine and deduplicate
-    const allAnomalies = [...aggregatedAnomalies, ...granularAnomalies];
+    const allAnomalies = [
+      ...aggregatedAnomalies,
+      ...granularAnomalies,
+      ...categoryAnomalies,
+    ];
     const uniqueAnomalies = this.deduplicateAnomalies(allAnomalies);
 
     // Analyze correlations
-    const correlations = await this.anomalyDetector.analyzeCorrelations(uniqueAnomalies);
+    const correlations = await this.anomalyDetector.analyzeCorrelations(
+      tenantId,
+      uniqueAnomalies,
+      window,
+    );
 
-    // Generate insights
-    const insights: BusinessInsight[] = [];
+    // Generate insights, keeping the anomaly behind each one
+    const suppressed = await this.findSuppressedKeys(tenantId);
+    const candidates: {
+      insight: BusinessInsight;
+      anomaly: AnomalyDetectionResult;
+    }[] = [];
 
     for (const anomaly of uniqueAnomalies) {
-      const insight = await this.generateInsightForAnomaly(anomaly, correlations);
-      if (insight) {
-        insights.push(insight);
+      const insight = this.generateInsightForAnomaly(anomaly, correlations);
+      // Skip page/metrics someone snoozed or recently resolved
+      if (insight && !suppressed.has(`${insight.page}|${insight.metric}`)) {
+        // Carry the slice of granular anomalies through to the insight
+        if (anomaly.context?.slice) {
+          insight.context = {
+            ...insight.context,
+            slice: anomaly.context.slice,
+            sliceKey: anomaly.context.sliceKey,
+          };
+        }
+        candidates.push({ insight, anomaly });
       }
     }
 
-    // Calculate impact scores and sort
-    const scoredInsights = insights
-      .map((insight) => ({
-        ...insight,
-        impactScore: this.calculateImpactScore(insight, uniqueAnomalies),
+    // Estimate revenue impact, score and sort
+    const impacts = await this.impactScoring.estimateImpact(
+      tenantId,
+      candidates.map(({ anomaly }) => anomaly),
+      window,
+    );
+    const topCandidates = candidates
+      .map(({ insight, anomaly }, index) => ({
+        anomaly,
+        insight: {
+          ...insight,
+          impactScore: this.impactScoring.score(
+            insight,
+            anomaly,
+            impacts[index],
+            window,
+          ),
+          revenueImpact: impacts[index],
+        },
       }))
-      .sort((a, b) => b.impactScore - a.impactScore);
+      .sort((a, b) => b.insight.impactScore - a.insight.impactScore)
+      .slice(0, 5);
+
+    // Explain the top 5 with their biggest contributing slices
+    for (const { insight, anomaly } of topCandidates) {
+      const breakdown = await this.contributionAnalysis.analyze(
+        {
+          tenantId,
+          page: anomaly.page,
+          metric: anomaly.metric,
+          timestamp: anomaly.timestamp,
+          slice: anomaly.context?.slice,
+        },
+        {
+          baselineStart: window.baselineStart,
+          baselineEnd: window.baselineEnd,
+        },
+      );
+      if (breakdown) {
+        insight.context = {
+          ...insight.context,
+          breakdown: this.summarizeBreakdown(breakdown),
+        };
+      }
+    }
+
+    // Stored and announced text uses the default locale with the tenant's
+    // overrides; the API re-renders it per request from the kept template parts
+    const insights = await this.insightTemplates.localize(
+      topCandidates.map(({ insight }) => insight),
+      DEFAULT_LOCALE,
+      tenantId,
+    );
 
-    // Return top 5
-    return scoredInsights.slice(0, 5);
+    return {
+      insights,
+      anomalyCount: uniqueAnomalies.length,
+    };
   }
 
   /**
-   * Generate insight for a single anomaly
+   * Most recent successful detection run of the tenant, whose insights back
+   * the default view. Insights snoozed or resolved since the run finished are
+   * left out.
    */
-  private async generateInsightForAnomaly(
-    anomaly: any,
-    correlations: any[],
-  ): Promise<BusinessInsight | null> {
-    const correlation = correlations.find(
-      (c) => c.primaryAnomaly.page === anomaly.page && 
-             c.primaryAnomaly.timestamp.getTime() === anomaly.timestamp.getTime(),
+  async findLatestRun(tenantId: string): Promise<{
+    run: DetectionRun;
+    insights: StoredRunInsight[];
+  } | null> {
+    const run = await this.prisma.detectionRun.findFirst({
+      where: { tenantId, status: 'completed' },
+      orderBy: { finishedAt: 'desc' },
+    });
+    if (!run) return null;
+
+    const suppressed = await this.findSuppressedKeys(tenantId);
+    const stored = (run.insights ?? []) as unknown as StoredRunInsight[];
+    const insights = stored.filter(
+      (insight) => !suppressed.has(`${insight.page}|${insight.metric}`),
     );
-
-    const changeSign = anomaly.percentageChange >= 0 ? '+' : '';
-    const change = `${changeSign}${anomaly.percentageChange.toFixed(0)}%`;
-
-    // Determine insight type and generate appropriate insight
-    if (anomaly.metricType === 'Traffic' && anomaly.metric === 'PageViews') {
-      return this.generateTrafficInsight(anomaly, change, correlation);
-    } else if (anomaly.metricType === 'Performance' && anomaly.metric === 'Load Time') {
-      return this.generatePerformanceInsight(anomaly, change, correlation);
-    } else if (anomaly.metricType === 'UserActions' && anomaly.metric === 'Session Duration') {
-      return this.generateEngagementInsight(anomaly, change, correlation);
-    } else if (anomaly.metricType === 'Conversion' && anomaly.metric === 'Conversion Rate') {
-      return this.generateConversionInsight(anomaly, change, correlation);
-    } else if (anomaly.metricType === 'Engagement' && anomaly.metric === 'Bounce Rate') {
-      return this.generateBounceRateInsight(anomaly, change, correlation);
-    } else if (anomaly.metricType === 'Performance' && anomaly.metric === 'Error Rate') {
-      return this.generateErrorRateInsight(anomaly, change, correlation);
-    }
-
-    return null;
+    return { run, insights };
   }
 
   /**
-   * Generate traffic surge insight
+   * Page/metric keys of insights that are snoozed or were resolved within the
+   * suppression window, so they are not re-reported
    */
-  private generateTrafficInsight(
-    anomaly: any,
-    change: string,
-    correlation: any,
-  ): BusinessInsight {
-    const referrer = anomaly.context?.referrer || 'Unknown';
-    const region = anomaly.context?.region || 'All regions';
-
-    let businessInsight = `Traffic ${anomaly.percentageChange > 0 ? 'surge' : 'drop'} of ${change} detected on ${anomaly.page}. `;
-    let suggestedAction = '';
-
-    if (anomaly.percentageChange > 0) {
-      if (referrer === 'Instagram') {
-        businessInsight += `Organic traffic spike from Instagram campaign — likely viral post engagement. Primary traffic from ${region}.`;
-        suggestedAction = `Increase ad spend for ${region} audiences. Create follow-up content to maintain momentum.`;
-      } else if (referrer === 'Google') {
-        businessInsight += `Significant increase in organic search traffic. Page may have improved search ranking.`;
-        suggestedAction = `Analyze SEO performance, ensure content quality, and consider increasing paid search budget.`;
-      } else {
-        businessInsight += `Traffic increase from ${referrer}. Monitor conversion rates to ensure quality traffic.`;
-        suggestedAction = `Verify campaign performance and ensure sufficient inventory for increased demand.`;
-      }
-
-      // Check for negative correlation (traffic up but conversions down)
-      if (correlation?.correlatedMetrics?.some((m: any) => m.correlation === 'traffic_up_conversions_down')) {
-        businessInsight += ` However, conversion rate has dropped, indicating potential UX or pricing issues.`;
-        suggestedAction += ` Review pricing competitiveness and checkout flow.`;
-      }
-    } else {
-      businessInsight += `Significant drop in traffic from ${referrer}. Page may have lost visibility or interest has declined.`;
-      suggestedAction = `Audit SEO performance, check for technical issues, and consider refreshing content or running paid campaigns.`;
-    }
+  private async findSuppressedKeys(tenantId: string): Promise<Set<string>> {
+    const now = new Date();
+    const resolvedSince = new Date(
+      now.getTime() - this.resolvedSuppressionHours * 60 * 60 * 1000,
+    );
 
-    return {
-      type: anomaly.percentageChange > 0 ? 'Traffic Surge' : 'Traffic Drop',
-      metric: 'PageViews',
-      page: anomaly.page,
-      change,
-      businessInsight,
-      suggestedAction,
-      impactScore: 0, // Will be calculated later
-      detectedAt: anomaly.timestamp.toISOString(),
-      context: {
-        referrer,
-        region,
-        deviceType: anomaly.context?.deviceType,
+    const rows = await this.prisma.businessInsight.findMany({
+      where: {
+        tenantId,
+        metric: { not: null },
+        OR: [
+          { status: 'snoozed', snoozedUntil: { gt: now } },
+          { status: 'resolved', resolvedAt: { gte: resolvedSince } },
+        ],
       },
-    };
-  }
+      select: { page: true, metric: true },
+      distinct: ['page', 'metric'],
+    });
 
-  /**
-   * Generate performance degradation insight
-   */
-  private generatePerformanceInsight(
-    anomaly: any,
-    change: string,
-    correlation: any,
-  ): BusinessInsight {
-    const deviceType = anomaly.context?.deviceType || 'All devices';
-    const loadTimeSeconds = (anomaly.currentValue / 1000).toFixed(1);
-
-    let businessInsight = `Performance degradation detected: ${deviceType} load time increased by ${change} (now ${loadTimeSeconds}s). `;
-    let suggestedAction = '';
-
-    if (deviceType === 'Mobile') {
-      businessInsight += `Mobile load time significantly increased. Images may be unoptimized affecting conversion.`;
-      suggestedAction = `Optimize images for mobile (WebP format, lazy loading), check CDN performance, and review recent code deployments.`;
-    } else {
-      businessInsight += `Load time increase may be impacting user experience and conversions.`;
-      suggestedAction = `Check server performance, optimize assets, review CDN configuration, and investigate recent deployments.`;
-    }
+    return new Set(rows.map((row) => `${row.page}|${row.metric}`));
+  }
 
-    // Check for correlation with bounce rate
-    if (correlation?.correlatedMetrics?.some((m: any) => m.correlation === 'load_time_up_bounce_rate_up')) {
-      const bounceChange = correlation.correlatedMetrics.find((m: any) => m.correlation === 'load_time_up_bounce_rate_up');
-      businessInsight += ` Bounce rate increased by ${bounceChange.change.toFixed(0)}% in correlation, confirming performance impact.`;
-      suggestedAction += ` Priority: Fix performance issues immediately to prevent further engagement loss.`;
+  async findInsight(tenantId: string, id: number): Promise<StoredInsight> {
+    const insight = await this.prisma.businessInsight.findFirst({
+      where: { id, tenantId },
+    });
+    if (!insight) {
+      throw new NotFoundException(`Insight ${id} not found`);
     }
-
-    return {
-      type: 'Performance Issue',
-      metric: 'Load Time',
-      page: anomaly.page,
-      change,
-      businessInsight,
-      suggestedAction,
-      impactScore: 0,
-      detectedAt: anomaly.timestamp.toISOString(),
-      context: {
-        deviceType,
-        bounceRateIncrease: correlation?.correlatedMetrics?.find((m: any) => m.correlation === 'load_time_up_bounce_rate_up')?.change?.toFixed(0) + '%',
-      },
-    };
+    return insight;
   }
 
   /**
-   * Generate engagement drop insight
+   * Impact score of a stored insight at every run that reported it, oldest first
    */
-  private generateEngagementInsight(
-    anomaly: any,
-    change: string,
-    correlation: any,
-  ): BusinessInsight {
-    const page = anomaly.page;
-    const sessionDurationMinutes = (anomaly.currentValue / 60).toFixed(1);
-
-    let businessInsight = `Engagement drop detected: Average session duration decreased by ${change} (now ${sessionDurationMinutes} minutes). `;
-    let suggestedAction = '';
-
-    if (page.includes('checkout')) {
-      businessInsight += `Users dropping off during checkout. Possible payment gateway issue or confusing checkout flow.`;
-      suggestedAction = `Immediately verify Razorpay integration, check error logs, and consider A/B testing a simplified checkout process.`;
-    } else {
-      businessInsight += `Users spending less time on page. Content may not be engaging or page may have usability issues.`;
-      suggestedAction = `Review page content, check for broken elements, improve CTAs, and analyze user flow.`;
-    }
-
-    return {
-      type: 'Engagement Drop',
-      metric: 'Session Duration',
-      page,
-      change,
-      businessInsight,
-      suggestedAction,
-      impactScore: 0,
-      detectedAt: anomaly.timestamp.toISOString(),
-      context: {
-        deviceType: anomaly.context?.deviceType,
-        region: anomaly.context?.region,
-      },
-    };
+  async findInsightScores(
+    tenantId: string,
+    id: number,
+  ): Promise<InsightScorePoint[]> {
+    return this.prisma.businessInsightScore.findMany({
+      where: { tenantId, insightId: id },
+      select: { impactScore: true, recordedAt: true },
+      orderBy: { recordedAt: 'asc' },
+    });
   }
 
   /**
-   * Generate conversion drop insight
+   * Move a stored insight through its lifecycle (acknowledge, snooze, resolve,
+   * reopen) and record who handles it
    */
-  private generateConversionInsight(
-    anomaly: any,
-    change: string,
-    correlation: any,
-  ): BusinessInsight {
-    const page = anomaly.page;
-    const conversionRate = anomaly.currentValue.toFixed(2);
-
-    let businessInsight = `Conversion rate dropped by ${change} (now ${conversionRate}%). `;
-    let suggestedAction = '';
-
-    // Check if traffic increased but conversions decreased
-    if (correlation?.correlatedMetrics?.some((m: any) => m.correlation === 'traffic_up_conversions_down')) {
-      businessInsight += `High traffic but low conversions. Possible pricing, availability, or trust issues.`;
-      suggestedAction = `Review package pricing competitiveness, ensure availability is shown correctly, and add more customer reviews/testimonials.`;
-    } else {
-      businessInsight += `Conversion rate decline may indicate pricing issues, lack of trust, or technical problems.`;
-      suggestedAction = `Review pricing strategy, add trust signals (reviews, badges), verify booking flow, and check for errors.`;
+  async updateInsight(
+    tenantId: string,
+    id: number,
+    dto: UpdateInsightDto,
+  ): Promise<StoredInsight> {
+    const insight = await this.findInsight(tenantId, id);
+
+    const status = dto.status ?? (dto.snoozedUntil ? 'snoozed' : undefined);
+    if (status === 'snoozed' && !dto.snoozedUntil) {
+      throw new BadRequestException(
+        'snoozedUntil is required to snooze an insight',
+      );
+    }
+    if (dto.snoozedUntil && status !== 'snoozed') {
+      throw new BadRequestException(
+        'snoozedUntil can only be set with status snoozed',
+      );
     }
 
-    return {
-      type: 'Conversion Drop',
-      metric: 'Conversion Rate',
-      page,
-      change,
-      businessInsight,
-      suggestedAction,
-      impactScore: 0,
-      detectedAt: anomaly.timestamp.toISOString(),
-      context: {
-        referrer: anomaly.context?.referrer,
-        deviceType: anomaly.context?.deviceType,
-      },
+    const data: Prisma.BusinessInsightUpdateInput = {
+      assignee: dto.assignee === '' ? null : dto.assignee,
+      notes: dto.notes,
     };
+    if (status) {
+      data.status = status;
+      data.snoozedUntil = status === 'snoozed' ? dto.snoozedUntil : null;
+      // Keep the original resolution time when re-saving a resolved insight
+      data.resolvedAt =
+        status !== 'resolved'
+          ? null
+          : insight.status === 'resolved'
+            ? insight.resolvedAt
+            : new Date();
+    }
+
+    return this.prisma.businessInsight.update({ where: { id }, data });
   }
 
   /**
-   * Generate bounce rate insight
+   * Full contribution breakdown of a stored insight, recomputed over the
+   * baseline range it was detected against
    */
-  private generateBounceRateInsight(
-    anomaly: any,
-    change: string,
-    correlation: any,
-  ): BusinessInsight {
-    const bounceRate = anomaly.currentValue.toFixed(1);
-
-    let businessInsight = `Bounce rate increased by ${change} (now ${bounceRate}%). `;
-    let suggestedAction = '';
-
-    businessInsight += `Users leaving page quickly may indicate content mismatch, slow load times, or poor user experience.`;
-    suggestedAction = `Improve page content relevance, optimize load times, enhance mobile experience, and review landing page design.`;
+  async getInsightBreakdown(
+    tenantId: string,
+    id: number,
+  ): Promise<ContributionBreakdown> {
+    const stored = await this.findInsight(tenantId, id);
+    if (!stored.metric) {
+      throw new NotFoundException(`No breakdown available for insight ${id}`);
+    }
 
-    return {
-      type: 'Engagement Drop',
-      metric: 'Bounce Rate',
-      page: anomaly.page,
-      change,
-      businessInsight,
-      suggestedAction,
-      impactScore: 0,
-      detectedAt: anomaly.timestamp.toISOString(),
-      context: {
-        deviceType: anomaly.context?.deviceType,
-      },
+    const context = (stored.context ?? {}) as {
+      slice?: SliceKey;
+      breakdown?: { baselineStart?: string; baselineEnd?: string };
     };
+    const baselineEnd = context.breakdown?.baselineEnd
+      ? new Date(context.breakdown.baselineEnd)
+      : stored.timestamp;
+    const baselineStart = context.breakdown?.baselineStart
+      ? new Date(context.breakdown.baselineStart)
+      : new Date(
+          baselineEnd.getTime() - DEFAULT_BASELINE_HOURS * 60 * 60 * 1000,
+        );
+
+    const breakdown = await this.contributionAnalysis.analyze(
+      {
+        tenantId,
+        page: stored.page,
+        metric: stored.metric,
+        timestamp: stored.timestamp,
+        slice: context.slice,
+      },
+      { baselineStart, baselineEnd },
+    );
+    if (!breakdown) {
+      throw new NotFoundException(
+        `No metric data to break down for insight ${id}`,
+      );
+    }
+    return breakdown;
   }
 
   /**
-   * Generate error rate insight
+   * Compact, JSON-friendly breakdown kept in the insight context
    */
-  private generateErrorRateInsight(
-    anomaly: any,
-    change: string,
-    correlation: any,
-  ): BusinessInsight {
-    const errorRate = anomaly.currentValue.toFixed(2);
-
-    let businessInsight = `Error rate increased by ${change} (now ${errorRate}%). `;
-    let suggestedAction = '';
-
-    businessInsight += `Increased error rate indicates technical issues that may be preventing bookings and damaging user trust.`;
-    suggestedAction = `Immediately check server logs, verify API endpoints, test payment gateway, and review recent deployments. Consider rolling back if recent changes were made.`;
-
+  private summarizeBreakdown(breakdown: ContributionBreakdown) {
     return {
-      type: 'Performance Issue',
-      metric: 'Error Rate',
-      page: anomaly.page,
-      change,
-      businessInsight,
-      suggestedAction,
-      impactScore: 0,
-      detectedAt: anomaly.timestamp.toISOString(),
-      context: {
-        deviceType: anomaly.context?.deviceType,
-        region: anomaly.context?.region,
-      },
+      baselineStart: breakdown.baselineStart.toISOString(),
+      baselineEnd: breakdown.baselineEnd.toISOString(),
+      baselineValue: breakdown.baselineValue,
+      currentValue: breakdown.currentValue,
+      totalChange: breakdown.totalChange,
+      topContributors: breakdown.topContributors,
     };
   }
 
   /**
-   * Calculate impact score (30% magnitude, 40% criticality, 30% recency)
+   * Generate insight for a single anomaly from the highest-priority matching
+   * insight rule
    */
-  private calculateImpactScore(
-    insight: BusinessInsight,
-    allAnomalies: any[],
-  ): number {
-    // Find the anomaly that generated this insight
-    const anomaly = allAnomalies.find(
-      (a) => a.page === insight.page && 
-             new Date(a.timestamp).toISOString() === insight.detectedAt,
+  private generateInsightForAnomaly(
+    anomaly: AnomalyDetectionResult,
+    correlations: CorrelationResult[],
+  ): BusinessInsight | null {
+    const correlation = correlations.find(
+      (c) =>
+        c.primaryAnomaly.page === anomaly.page &&
+        c.primaryAnomaly.timestamp.getTime() === anomaly.timestamp.getTime(),
     );
 
-    if (!anomaly) return 50; // Default score
-
-    // Magnitude component (30% weight)
-    const magnitudeScore = Math.min(Math.abs(anomaly.percentageChange) / 5, 100); // Normalize to 0-100
-    const magnitudeWeight = 0.3;
-
-    // Criticality component (40% weight)
-    let criticalityScore = 50; // Default
-    if (insight.type.includes('Conversion') || insight.type.includes('Error')) {
-      criticalityScore = 90; // High criticality
-    } else if (insight.type.includes('Performance') || insight.type.includes('Engagement')) {
-      criticalityScore = 70; // Medium-high criticality
-    } else if (insight.type.includes('Traffic')) {
-      criticalityScore = 60; // Medium criticality
-    }
-    const criticalityWeight = 0.4;
+    const changeSign = anomaly.percentageChange >= 0 ? '+' : '';
+    const change = `${changeSign}${anomaly.percentageChange.toFixed(0)}%`;
 
-    // Recency component (30% weight)
-    const now = new Date();
-    const detectedAt = new Date(insight.detectedAt);
-    const hoursAgo = (now.getTime() - detectedAt.getTime()) / (1000 * 60 * 60);
-    const recencyScore = Math.max(0, 100 - hoursAgo * 10); // Decrease 10 points per hour
-    const recencyWeight = 0.3;
-
-    // Calculate weighted score
-    const impactScore =
-      magnitudeScore * magnitudeWeight +
-      criticalityScore * criticalityWeight +
-      recencyScore * recencyWeight;
-
-    return Math.round(impactScore);
+    return this.insightRules.generate({ anomaly, change, correlation });
   }
 
   /**
-   * Deduplicate anomalies (same page, metric, and timestamp)
+   * Deduplicate anomalies (same page, metric, slice and timestamp)
    */
-  private deduplicateAnomalies(anomalies: any[]): any[] {
+  private deduplicateAnomalies(
+    anomalies: AnomalyDetectionResult[],
+  ): AnomalyDetectionResult[] {
     const seen = new Set<string>();
-    const unique: any[] = [];
+    const unique: AnomalyDetectionResult[] = [];
 
     for (const anomaly of anomalies) {
-      const key = `${anomaly.page}-${anomaly.metric}-${anomaly.timestamp.getTime()}`;
+      const key = `${anomaly.page}-${anomaly.metric}-${anomaly.context?.sliceKey ?? ''}-${anomaly.timestamp.getTime()}`;
       if (!seen.has(key)) {
         seen.add(key);
         unique.push(anomaly);
@@ -383,21 +398,96 @@ export class InsightsService {
   }
 
   /**
-   * Store insights in database (bonus feature)
+   * Store insights in database (bonus feature), returning their ids in order.
+   * Insights are upserted on their fingerprint, so repeated runs update the
+   * existing row (last seen, occurrence count, latest score) instead of
+   * inserting duplicates; every sighting's impact score is kept as history.
+   * Newly created insights, and existing ones scoring above their previous
+   * peak, are announced to the tenant's matching webhook subscriptions.
    */
-  async storeInsights(insights: BusinessInsight[]): Promise<void> {
+  async storeInsights(
+    tenantId: string,
+    insights: BusinessInsight[],
+  ): Promise<number[]> {
+    const ids: number[] = [];
+    const notified: NotifiedInsight[] = [];
     for (const insight of insights) {
-      await this.prisma.businessInsight.create({
-        data: {
-          metricType: insight.type,
+      const now = new Date();
+      const fingerprint = insightFingerprint(insight);
+      const previousPeak = await this.peakImpactScore(tenantId, fingerprint);
+      const details = {
+        metricType: insight.type,
+        change: insight.change,
+        insightText: insight.businessInsight,
+        suggestedAction: insight.suggestedAction,
+        impactScore: insight.impactScore,
+        estimatedRevenue: insight.revenueImpact?.revenue,
+        context: insight.context as Prisma.InputJsonValue | undefined,
+      };
+      const score = { create: { tenantId, impactScore: insight.impactScore } };
+
+      const stored = await this.prisma.businessInsight.upsert({
+        where: { tenantId_fingerprint: { tenantId, fingerprint } },
+        create: {
+          ...details,
+          tenantId,
+          metric: insight.metric,
           page: insight.page,
-          insightText: insight.businessInsight,
-          suggestedAction: insight.suggestedAction,
-          impactScore: insight.impactScore,
           timestamp: new Date(insight.detectedAt),
+          fingerprint,
+          firstSeenAt: now,
+          lastSeenAt: now,
+          scores: score,
+        },
+        update: {
+          ...details,
+          lastSeenAt: now,
+          occurrenceCount: { increment: 1 },
+          scores: score,
         },
       });
+      ids.push(stored.id);
+      if (previousPeak === null) {
+        notified.push({ ...insight, id: stored.id });
+      } else if (insight.impactScore > previousPeak) {
+        notified.push({
+          ...insight,
+          id: stored.id,
+          previousImpactScore: previousPeak,
+        });
+      }
     }
+
+    // Webhook failures never block storage
+    try {
+      await this.webhookDispatcher.notify(tenantId, notified);
+    } catch (error) {
+      console.error('Failed to queue webhook deliveries:', error);
+    }
+    return ids;
   }
-}
 
+  /**
+   * Highest impact score recorded for a stored insight, or null when the
+   * fingerprint is new
+   */
+  private async peakImpactScore(
+    tenantId: string,
+    fingerprint: string,
+  ): Promise<number | null> {
+    const existing = await this.prisma.businessInsight.findUnique({
+      where: { tenantId_fingerprint: { tenantId, fingerprint } },
+      select: {
+        impactScore: true,
+        scores: {
+          select: { impactScore: true },
+          orderBy: { impactScore: 'desc' },
+          take: 1,
+        },
+      },
+    });
+    if (!existing) return null;
+
+    return Math.max(existing.impactScore, existing.scores[0]?.impactScore ?? 0);
+  }
+}
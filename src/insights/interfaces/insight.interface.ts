@@ -1,3 +1,30 @@
+import {
+  AnomalyAlgorithmName,
+  BaselineStrategy,
+} from '../../alert-rules/alert-rule.constants';
+import { ForecastModelName } from '../../analytics/forecasting/forecast.constants';
+import { InsightTemplateKey } from '../templates/insight-templates.en';
+
+export type TemplateParam = string | number | TemplateRef | TemplateRef[];
+
+/**
+ * A template key and the values of its placeholders; a parameter can itself be
+ * a template (e.g. a localized "on {device}" segment)
+ */
+export interface TemplateRef {
+  key: InsightTemplateKey;
+  params?: Record<string, TemplateParam>;
+}
+
+/**
+ * Template parts of an insight's narrative and suggested action, rendered per
+ * locale when the insight is served
+ */
+export interface InsightText {
+  insight: TemplateRef[];
+  action: TemplateRef[];
+}
+
 export interface BusinessInsight {
   type: string;
   metric: string;
@@ -7,6 +34,8 @@ export interface BusinessInsight {
   suggestedAction: string;
   impactScore: number;
   detectedAt: string;
+  revenueImpact?: RevenueImpact;
+  text?: InsightText;
   context?: {
     deviceType?: string;
     region?: string;
@@ -15,6 +44,52 @@ export interface BusinessInsight {
   };
 }
 
+/**
+ * Estimated bookings and revenue gained (+) or lost (-) in the anomaly hour
+ */
+export interface RevenueImpact {
+  bookings: number;
+  revenue: number;
+  currency: string;
+  avgBookingValue: number;
+}
+
+/**
+ * A template as a tenant sees it: its override, or else the built-in default
+ */
+export interface InsightTemplateView {
+  key: string;
+  locale: string;
+  template: string;
+  defaultTemplate: string;
+  overridden: boolean;
+}
+
+/**
+ * Insight as kept on a detection run: the generated insight plus its stored id
+ */
+export interface StoredRunInsight extends BusinessInsight {
+  id?: number;
+}
+
+export interface DetectionOutcome {
+  insights: BusinessInsight[]; // top 5 by impact score
+  anomalyCount: number; // unique anomalies before ranking
+}
+
+export interface InsightScorePoint {
+  impactScore: number;
+  recordedAt: Date;
+}
+
+export interface BaselineSummary {
+  strategy: BaselineStrategy | 'forecast'; // forecast: all history before the recent period
+  periods: number; // days or weeks looked back (ignored for flat and forecast)
+  sampleSize: number;
+  from: Date;
+  to: Date;
+}
+
 export interface AnomalyDetectionResult {
   page: string;
   metricType: string;
@@ -22,13 +97,22 @@ export interface AnomalyDetectionResult {
   currentValue: number;
   baselineMean: number;
   baselineStdDev: number;
-  percentageChange: number;
+  expectedValue: number; // algorithm's centre (mean, median or EWMA)
+  percentageChange: number; // relative to expectedValue
   timestamp: Date;
+  algorithm: AnomalyAlgorithmName | ForecastModelName;
+  anomalyScore: number; // signed, standardized deviation from the algorithm
+  alertRuleId?: number | null; // null when the default 2.5σ rule applied
+  baseline: BaselineSummary;
   context: {
     deviceType?: string;
     region?: string;
     referrer?: string;
     pageCategory?: string;
+    package?: string; // bookings metrics only
+    currency?: string;
+    slice?: Record<string, string>; // dimension values of a granular slice
+    sliceKey?: string; // e.g. "page=/checkout|deviceType=Mobile"
   };
 }
 
@@ -41,4 +125,3 @@ export interface CorrelationResult {
     correlation: string; // e.g., "traffic_up_conversions_down"
   }[];
 }
-
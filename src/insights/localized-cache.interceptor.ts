@@ -0,0 +1,33 @@
+import { ExecutionContext, Inject, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { CACHE_MANAGER, CacheInterceptor } from '@nestjs/cache-manager';
+import type { Cache } from 'cache-manager';
+import { TenantRequest } from '../tenants/tenant-request.interface';
+import { InsightsCacheService } from './insights-cache.service';
+import { negotiateLocale } from './templates/template-renderer';
+
+/**
+ * Response cache keyed on the URL plus the negotiated locale and tenant, since
+ * insight text is rendered per locale with each tenant's template overrides,
+ * and on the tenant's cache generation so its entries can be invalidated
+ */
+@Injectable()
+export class LocalizedCacheInterceptor extends CacheInterceptor {
+  constructor(
+    @Inject(CACHE_MANAGER) cacheManager: Cache,
+    reflector: Reflector,
+    private insightsCache: InsightsCacheService,
+  ) {
+    super(cacheManager, reflector);
+  }
+
+  protected trackBy(context: ExecutionContext): string | undefined {
+    const key = super.trackBy(context);
+    if (!key) return undefined;
+
+    const request = context.switchToHttp().getRequest<TenantRequest>();
+    const locale = negotiateLocale(request.headers['accept-language']);
+    const generation = this.insightsCache.generation(request.tenantId);
+    return `${key}|${locale}|${request.tenantId}|${generation}`;
+  }
+}
@@ -0,0 +1,117 @@
+import { Injectable } from '@nestjs/common';
+import {
+  BusinessInsight,
+  TemplateParam,
+} from '../interfaces/insight.interface';
+import { InsightRuleProvider } from './insight-rule.decorator';
+import {
+  InsightRule,
+  InsightRuleInput,
+  InsightRuleMatcher,
+} from './insight-rule.interface';
+
+/**
+ * Revenue fell below its baseline; surges are not reported
+ */
+@Injectable()
+@InsightRuleProvider()
+export class RevenueDropRule implements InsightRule {
+  readonly name = 'revenue-drop';
+  readonly priority = 0;
+  readonly matcher: InsightRuleMatcher = {
+    metricTypes: ['Revenue'],
+    metrics: ['Revenue'],
+  };
+
+  build(input: InsightRuleInput): BusinessInsight | null {
+    const { anomaly } = input;
+    if (anomaly.percentageChange >= 0) return null;
+
+    return bookingsInsight(input, 'Revenue Drop', 'revenue.drop', {
+      value: anomaly.currentValue.toFixed(0),
+      currency: anomaly.context?.currency || '',
+    });
+  }
+}
+
+@Injectable()
+@InsightRuleProvider()
+export class BookingsDropRule implements InsightRule {
+  readonly name = 'bookings-drop';
+  readonly priority = 0;
+  readonly matcher: InsightRuleMatcher = {
+    metricTypes: ['Bookings'],
+    metrics: ['Bookings'],
+  };
+
+  build(input: InsightRuleInput): BusinessInsight | null {
+    const { anomaly } = input;
+    if (anomaly.percentageChange >= 0) return null;
+
+    return bookingsInsight(input, 'Bookings Drop', 'bookings.drop', {
+      value: anomaly.currentValue.toFixed(0),
+    });
+  }
+}
+
+/**
+ * More bookings cancelled than usual; falling cancellations are not reported
+ */
+@Injectable()
+@InsightRuleProvider()
+export class CancellationSpikeRule implements InsightRule {
+  readonly name = 'cancellation-spike';
+  readonly priority = 0;
+  readonly matcher: InsightRuleMatcher = {
+    metricTypes: ['Bookings'],
+    metrics: ['Cancellation Rate'],
+  };
+
+  build(input: InsightRuleInput): BusinessInsight | null {
+    const { anomaly } = input;
+    if (anomaly.percentageChange <= 0) return null;
+
+    return bookingsInsight(input, 'Cancellation Spike', 'cancellation.spike', {
+      value: anomaly.currentValue.toFixed(1),
+    });
+  }
+}
+
+function bookingsInsight(
+  { anomaly, change }: InsightRuleInput,
+  type: string,
+  key: 'revenue.drop' | 'bookings.drop' | 'cancellation.spike',
+  summaryParams: Record<string, TemplateParam>,
+): BusinessInsight {
+  const packageName: TemplateParam = anomaly.context?.package || {
+    key: 'value.allPackages',
+  };
+
+  return {
+    type,
+    metric: anomaly.metric,
+    page: anomaly.page,
+    change,
+    businessInsight: '', // rendered from text once the top insights are picked
+    suggestedAction: '',
+    impactScore: 0,
+    detectedAt: anomaly.timestamp.toISOString(),
+    text: {
+      insight: [
+        {
+          key: `${key}.summary`,
+          params: { page: anomaly.page, change, ...summaryParams },
+        },
+        { key: `${key}.insight`, params: { package: packageName } },
+      ],
+      action: [{ key: `${key}.action`, params: { package: packageName } }],
+    },
+    context: {
+      package: anomaly.context?.package,
+      currency: anomaly.context?.currency,
+      deviceType: anomaly.context?.deviceType,
+      referrer: anomaly.context?.referrer,
+      region: anomaly.context?.region,
+    },
+  };
+}
@@ -0,0 +1,33 @@
+import {
+  BookingsDropRule,
+  CancellationSpikeRule,
+  RevenueDropRule,
+} from './bookings.rules';
+import { CategoryInsightRule } from './category.rule';
+import {
+  ConversionDropRule,
+  TrafficDrivenConversionDropRule,
+} from './conversion.rules';
+import { BounceRateRule, SessionDurationRule } from './engagement.rules';
+import { KeralaMonsoonRule } from './kerala-monsoon.rule';
+import { ErrorRateRule, LoadTimeRule } from './performance.rules';
+import { TrafficDropRule, TrafficSurgeRule } from './traffic.rules';
+
+/**
+ * Insight rules shipped with the engine, registered by InsightsModule
+ */
+export const BUILT_IN_INSIGHT_RULES = [
+  CategoryInsightRule,
+  TrafficSurgeRule,
+  TrafficDropRule,
+  KeralaMonsoonRule,
+  LoadTimeRule,
+  ErrorRateRule,
+  SessionDurationRule,
+  BounceRateRule,
+  TrafficDrivenConversionDropRule,
+  ConversionDropRule,
+  RevenueDropRule,
+  BookingsDropRule,
+  CancellationSpikeRule,
+];
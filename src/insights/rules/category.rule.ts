@@ -0,0 +1,161 @@
+import { Injectable } from '@nestjs/common';
+import { SliceKey } from '../../analytics/interfaces/slice.interface';
+import {
+  BusinessInsight,
+  InsightText,
+  TemplateParam,
+  TemplateRef,
+} from '../interfaces/insight.interface';
+import { InsightRuleProvider } from './insight-rule.decorator';
+import { InsightRule, InsightRuleInput } from './insight-rule.interface';
+
+/**
+ * Category-level insight, e.g. "All Beach packages down 30% on mobile"
+ */
+@Injectable()
+@InsightRuleProvider()
+export class CategoryInsightRule implements InsightRule {
+  readonly name = 'category';
+  readonly priority = 100;
+  readonly matcher = { level: 'category' as const };
+
+  build({ anomaly, change }: InsightRuleInput): BusinessInsight | null {
+    const slice = anomaly.context.slice as SliceKey;
+    const category = slice.pageCategory;
+    const increased = anomaly.percentageChange >= 0;
+    const movement: TemplateRef = {
+      key: increased ? 'movement.up' : 'movement.down',
+      params: { percent: Math.abs(anomaly.percentageChange).toFixed(0) },
+    };
+    const params = {
+      category: category ?? '',
+      movement,
+      segment: describeSegment(slice),
+    };
+
+    let type: string;
+    const text: InsightText = { insight: [], action: [] };
+
+    switch (anomaly.metric) {
+      case 'PageViews':
+        type = increased ? 'Category Traffic Surge' : 'Category Traffic Drop';
+        text.insight.push({ key: 'category.traffic.insight', params });
+        text.action.push({
+          key: increased
+            ? 'category.traffic.surge.action'
+            : 'category.traffic.drop.action',
+          params,
+        });
+        break;
+      case 'Conversion Rate':
+        type = increased
+          ? 'Category Conversion Surge'
+          : 'Category Conversion Drop';
+        text.insight.push({
+          key: 'category.conversion.summary',
+          params: { ...params, value: anomaly.currentValue.toFixed(2) },
+        });
+        if (increased) {
+          text.insight.push({ key: 'category.conversion.surge.insight' });
+          text.action.push({ key: 'category.conversion.surge.action', params });
+        } else {
+          text.insight.push({ key: 'category.conversion.drop.insight' });
+          text.action.push({ key: 'category.conversion.drop.action', params });
+        }
+        break;
+      case 'Session Duration':
+      case 'Bounce Rate': {
+        const worse = anomaly.metric === 'Bounce Rate' ? increased : !increased;
+        type = worse ? 'Category Engagement Drop' : 'Category Engagement Rise';
+        text.insight.push({
+          key: 'category.engagement.summary',
+          params: { ...params, metric: metricName(anomaly.metric) },
+        });
+        if (worse) {
+          text.insight.push({ key: 'category.engagement.worse.insight' });
+          text.action.push({ key: 'category.engagement.worse.action', params });
+        } else {
+          text.insight.push({ key: 'category.engagement.better.insight' });
+          text.action.push({
+            key: 'category.engagement.better.action',
+            params,
+          });
+        }
+        break;
+      }
+      case 'Load Time':
+      case 'Error Rate':
+        // Category-wide performance improvements are not actionable
+        if (!increased) return null;
+        type = 'Category Performance Issue';
+        text.insight.push({
+          key: 'category.performance.insight',
+          params: { ...params, metric: metricName(anomaly.metric) },
+        });
+        text.action.push({ key: 'category.performance.action', params });
+        break;
+      default:
+        return null;
+    }
+
+    return {
+      type,
+      metric: anomaly.metric,
+      page: anomaly.page,
+      change,
+      businessInsight: '', // rendered from text once the top insights are picked
+      suggestedAction: '',
+      impactScore: 0,
+      detectedAt: anomaly.timestamp.toISOString(),
+      text,
+      context: {
+        level: 'category',
+        pageCategory: category,
+        deviceType: slice.deviceType,
+        referrer: slice.referrer,
+        region: slice.region,
+      },
+    };
+  }
+}
+
+/**
+ * " on mobile", " from Instagram", " in South India" for a slice's dimensions
+ */
+function describeSegment(slice: SliceKey): TemplateRef[] {
+  const segment: TemplateRef[] = [];
+  if (slice.deviceType) {
+    segment.push({
+      key: 'segment.device',
+      params: { device: slice.deviceType.toLowerCase() },
+    });
+  }
+  if (slice.referrer) {
+    segment.push({
+      key: 'segment.referrer',
+      params: { referrer: slice.referrer },
+    });
+  }
+  if (slice.region) {
+    segment.push({ key: 'segment.region', params: { region: slice.region } });
+  }
+  return segment;
+}
+
+/**
+ * Localized display name of a metric, falling back to the metric itself
+ */
+function metricName(metric: string): TemplateParam {
+  switch (metric) {
+    case 'Session Duration':
+      return { key: 'metric.sessionDuration' };
+    case 'Bounce Rate':
+      return { key: 'metric.bounceRate' };
+    case 'Load Time':
+      return { key: 'metric.loadTime' };
+    case 'Error Rate':
+      return { key: 'metric.errorRate' };
+    default:
+      return metric;
+  }
+}
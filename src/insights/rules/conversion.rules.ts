@@ -0,0 +1,75 @@
+import { Injectable } from '@nestjs/common';
+import { BusinessInsight } from '../interfaces/insight.interface';
+import { InsightRuleProvider } from './insight-rule.decorator';
+import {
+  InsightRule,
+  InsightRuleInput,
+  InsightRuleMatcher,
+} from './insight-rule.interface';
+
+const CONVERSION_MATCHER: InsightRuleMatcher = {
+  metricTypes: ['Conversion'],
+  metrics: ['Conversion Rate'],
+};
+
+/**
+ * Conversions fell while traffic surged: the extra visitors are not booking
+ */
+@Injectable()
+@InsightRuleProvider()
+export class TrafficDrivenConversionDropRule implements InsightRule {
+  readonly name = 'conversion-drop-traffic-up';
+  readonly priority = 10;
+  readonly matcher: InsightRuleMatcher = {
+    ...CONVERSION_MATCHER,
+    correlations: ['traffic_up_conversions_down'],
+  };
+
+  build(input: InsightRuleInput): BusinessInsight {
+    return conversionInsight(input, 'trafficUp');
+  }
+}
+
+@Injectable()
+@InsightRuleProvider()
+export class ConversionDropRule implements InsightRule {
+  readonly name = 'conversion-drop';
+  readonly priority = 0;
+  readonly matcher = CONVERSION_MATCHER;
+
+  build(input: InsightRuleInput): BusinessInsight {
+    return conversionInsight(input, 'other');
+  }
+}
+
+function conversionInsight(
+  { anomaly, change }: InsightRuleInput,
+  variant: 'trafficUp' | 'other',
+): BusinessInsight {
+  const conversionRate = anomaly.currentValue.toFixed(2);
+
+  return {
+    type: 'Conversion Drop',
+    metric: 'Conversion Rate',
+    page: anomaly.page,
+    change,
+    businessInsight: '', // rendered from text once the top insights are picked
+    suggestedAction: '',
+    impactScore: 0,
+    detectedAt: anomaly.timestamp.toISOString(),
+    text: {
+      insight: [
+        {
+          key: 'conversion.summary',
+          params: { change, value: conversionRate },
+        },
+        { key: `conversion.${variant}.insight` },
+      ],
+      action: [{ key: `conversion.${variant}.action` }],
+    },
+    context: {
+      referrer: anomaly.context?.referrer,
+      deviceType: anomaly.context?.deviceType,
+    },
+  };
+}
@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { BusinessInsight } from '../interfaces/insight.interface';
+import { InsightRuleProvider } from './insight-rule.decorator';
+import {
+  InsightRule,
+  InsightRuleInput,
+  InsightRuleMatcher,
+} from './insight-rule.interface';
+
+/**
+ * Session duration drop; checkout pages point at the payment flow
+ */
+@Injectable()
+@InsightRuleProvider()
+export class SessionDurationRule implements InsightRule {
+  readonly name = 'session-duration';
+  readonly priority = 0;
+  readonly matcher: InsightRuleMatcher = {
+    metricTypes: ['UserActions'],
+    metrics: ['Session Duration'],
+  };
+
+  build({ anomaly, change }: InsightRuleInput): BusinessInsight {
+    const sessionDurationMinutes = (anomaly.currentValue / 60).toFixed(1);
+    const where = anomaly.page.includes('checkout') ? 'checkout' : 'other';
+
+    return {
+      type: 'Engagement Drop',
+      metric: 'Session Duration',
+      page: anomaly.page,
+      change,
+      businessInsight: '', // rendered from text once the top insights are picked
+      suggestedAction: '',
+      impactScore: 0,
+      detectedAt: anomaly.timestamp.toISOString(),
+      text: {
+        insight: [
+          {
+            key: 'sessionDuration.summary',
+            params: { change, value: sessionDurationMinutes },
+          },
+          { key: `sessionDuration.${where}.insight` },
+        ],
+        action: [{ key: `sessionDuration.${where}.action` }],
+      },
+      context: {
+        deviceType: anomaly.context?.deviceType,
+        region: anomaly.context?.region,
+      },
+    };
+  }
+}
+
+@Injectable()
+@InsightRuleProvider()
+export class BounceRateRule implements InsightRule {
+  readonly name = 'bounce-rate';
+  readonly priority = 0;
+  readonly matcher: InsightRuleMatcher = {
+    metricTypes: ['Engagement'],
+    metrics: ['Bounce Rate'],
+  };
+
+  build({ anomaly, change }: InsightRuleInput): BusinessInsight {
+    const bounceRate = anomaly.currentValue.toFixed(1);
+
+    return {
+      type: 'Engagement Drop',
+      metric: 'Bounce Rate',
+      page: anomaly.page,
+      change,
+      businessInsight: '',
+      suggestedAction: '',
+      impactScore: 0,
+      detectedAt: anomaly.timestamp.toISOString(),
+      text: {
+        insight: [
+          { key: 'bounceRate.summary', params: { change, value: bounceRate } },
+          { key: 'bounceRate.insight' },
+        ],
+        action: [{ key: 'bounceRate.action' }],
+      },
+      context: {
+        deviceType: anomaly.context?.deviceType,
+      },
+    };
+  }
+}
@@ -0,0 +1,101 @@
+import { DiscoveryService } from '@nestjs/core';
+import {
+  AnomalyDetectionResult,
+  CorrelationResult,
+} from '../interfaces/insight.interface';
+import {
+  ConversionDropRule,
+  TrafficDrivenConversionDropRule,
+} from './conversion.rules';
+import { InsightRuleRegistry } from './insight-rule-registry.service';
+import { KeralaMonsoonRule } from './kerala-monsoon.rule';
+import { TrafficDropRule, TrafficSurgeRule } from './traffic.rules';
+
+describe('InsightRuleRegistry', () => {
+  const anomaly = (
+    overrides: Partial<AnomalyDetectionResult>,
+  ): AnomalyDetectionResult =>
+    ({
+      page: '/kerala-backwaters',
+      metricType: 'Traffic',
+      metric: 'PageViews',
+      currentValue: 40,
+      percentageChange: -60,
+      timestamp: new Date('2025-07-10T06:00:00Z'),
+      context: { referrer: 'Google', region: 'South India' },
+      ...overrides,
+    }) as AnomalyDetectionResult;
+
+  const registry = new InsightRuleRegistry({} as DiscoveryService);
+  registry.register(
+    new TrafficSurgeRule(),
+    new TrafficDropRule(),
+    new KeralaMonsoonRule(),
+    new ConversionDropRule(),
+    new TrafficDrivenConversionDropRule(),
+  );
+
+  it('orders rules by priority', () => {
+    expect(registry.getRules().map((rule) => rule.priority)).toEqual([
+      10, 10, 0, 0, 0,
+    ]);
+  });
+
+  it('prefers a matching domain rule over the generic one', () => {
+    const monsoon = registry.generate({
+      anomaly: anomaly({}),
+      change: '-60%',
+    });
+    const winter = registry.generate({
+      anomaly: anomaly({ timestamp: new Date('2025-12-10T06:00:00Z') }),
+      change: '-60%',
+    });
+
+    expect(monsoon?.text?.insight[1].key).toBe('traffic.drop.monsoon.insight');
+    expect(winter?.text?.insight[1].key).toBe('traffic.drop.insight');
+  });
+
+  it('requires the declared correlations', () => {
+    const conversion = anomaly({
+      metricType: 'Conversion',
+      metric: 'Conversion Rate',
+    });
+    const correlation = {
+      primaryAnomaly: conversion,
+      correlatedMetrics: [
+        {
+          metric: 'Conversion Rate',
+          value: 1,
+          change: -40,
+          correlation: 'traffic_up_conversions_down',
+        },
+      ],
+    } as CorrelationResult;
+
+    expect(
+      registry.generate({ anomaly: conversion, change: '-60%' })?.text
+        ?.action[0].key,
+    ).toBe('conversion.other.action');
+    expect(
+      registry.generate({ anomaly: conversion, change: '-60%', correlation })
+        ?.text?.action[0].key,
+    ).toBe('conversion.trafficUp.action');
+  });
+
+  it('reports anomalies no rule matches', () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const insight = registry.generate({
+      anomaly: anomaly({ metricType: 'Performance', metric: 'Error Rate' }),
+      change: '+80%',
+    });
+    registry.generate({
+      anomaly: anomaly({ metricType: 'Performance', metric: 'Error Rate' }),
+      change: '+90%',
+    });
+
+    expect(insight).toBeNull();
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,98 @@
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { DiscoveryService } from '@nestjs/core';
+import { isCategorySlice } from '../../analytics/slices';
+import { BusinessInsight } from '../interfaces/insight.interface';
+import { InsightRuleProvider } from './insight-rule.decorator';
+import {
+  InsightRule,
+  InsightRuleInput,
+  InsightRuleMatcher,
+} from './insight-rule.interface';
+
+@Injectable()
+export class InsightRuleRegistry implements OnModuleInit {
+  private rules: InsightRule[] = [];
+  // metricType/metric combinations already reported as unmatched
+  private readonly unmatched = new Set<string>();
+
+  constructor(private discovery: DiscoveryService) {}
+
+  onModuleInit() {
+    const rules = this.discovery
+      .getProviders({ metadataKey: InsightRuleProvider.KEY })
+      .map((wrapper) => wrapper.instance as InsightRule | undefined)
+      .filter((rule): rule is InsightRule => Boolean(rule));
+    this.register(...rules);
+  }
+
+  /**
+   * Add rules, keeping the list ordered by priority (highest first); rules of
+   * equal priority keep their registration order
+   */
+  register(...rules: InsightRule[]): void {
+    this.rules = [...this.rules, ...rules].sort(
+      (a, b) => b.priority - a.priority,
+    );
+  }
+
+  getRules(): readonly InsightRule[] {
+    return this.rules;
+  }
+
+  /**
+   * Insight from the highest-priority matching rule that builds one, or null
+   * when every matching rule declines. Anomalies no rule matches are logged
+   * once per metric, so missing rules do not go unnoticed.
+   */
+  generate(input: InsightRuleInput): BusinessInsight | null {
+    let matched = false;
+    for (const rule of this.rules) {
+      if (!matchesRule(rule.matcher, input)) continue;
+      matched = true;
+      const insight = rule.build(input);
+      if (insight) return insight;
+    }
+
+    const key = `${input.anomaly.metricType}/${input.anomaly.metric}`;
+    if (!matched && !this.unmatched.has(key)) {
+      this.unmatched.add(key);
+      console.warn(
+        `No insight rule matches ${key} anomalies; they are not reported`,
+      );
+    }
+    return null;
+  }
+}
+
+export function matchesRule(
+  matcher: InsightRuleMatcher,
+  { anomaly, correlation }: InsightRuleInput,
+): boolean {
+  const level =
+    anomaly.context?.slice && isCategorySlice(anomaly.context.slice)
+      ? 'category'
+      : 'page';
+  if ((matcher.level ?? 'page') !== level) return false;
+  if (matcher.metrics && !matcher.metrics.includes(anomaly.metric)) {
+    return false;
+  }
+  if (
+    matcher.metricTypes &&
+    !matcher.metricTypes.includes(anomaly.metricType)
+  ) {
+    return false;
+  }
+  if (matcher.direction === 'up' && !(anomaly.percentageChange > 0)) {
+    return false;
+  }
+  if (matcher.direction === 'down' && !(anomaly.percentageChange < 0)) {
+    return false;
+  }
+
+  const found = new Set(
+    correlation?.correlatedMetrics.map((metric) => metric.correlation) ?? [],
+  );
+  if (matcher.correlations?.some((name) => !found.has(name))) return false;
+
+  return matcher.when ? matcher.when(anomaly) : true;
+}
@@ -0,0 +1,7 @@
+import { DiscoveryService } from '@nestjs/core';
+
+/**
+ * Marks a provider as an insight rule; decorated providers of any module are
+ * picked up by the rule registry when the application starts
+ */
+export const InsightRuleProvider = DiscoveryService.createDecorator();
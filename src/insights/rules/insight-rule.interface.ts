@@ -0,0 +1,44 @@
+import {
+  AnomalyDetectionResult,
+  BusinessInsight,
+  CorrelationResult,
+} from '../interfaces/insight.interface';
+
+/**
+ * Which anomalies a rule applies to; every field given must match
+ */
+export interface InsightRuleMatcher {
+  metrics?: string[]; // e.g. ["PageViews"]; omit for any metric
+  metricTypes?: string[]; // e.g. ["Performance"]
+  direction?: 'up' | 'down'; // sign of the percentage change; omit for either
+  /**
+   * Page anomalies (default) or category rollups (page "category:<name>")
+   */
+  level?: 'page' | 'category';
+  /**
+   * Correlations that must all have been found, e.g. "traffic_up_conversions_down"
+   */
+  correlations?: string[];
+  /**
+   * Further conditions on the anomaly (page, context, time of year, ...)
+   */
+  when?: (anomaly: AnomalyDetectionResult) => boolean;
+}
+
+export interface InsightRuleInput {
+  anomaly: AnomalyDetectionResult;
+  change: string; // formatted percentage change, e.g. "+45%"
+  correlation?: CorrelationResult;
+}
+
+/**
+ * Turns matching anomalies into an insight. Rules are tried from the highest
+ * priority down; the first one to build an insight wins, and a rule may
+ * return null to decline an anomaly it matched.
+ */
+export interface InsightRule {
+  readonly name: string;
+  readonly priority: number;
+  readonly matcher: InsightRuleMatcher;
+  build(input: InsightRuleInput): BusinessInsight | null;
+}
@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { BusinessInsight } from '../interfaces/insight.interface';
+import { InsightRuleProvider } from './insight-rule.decorator';
+import {
+  InsightRule,
+  InsightRuleInput,
+  InsightRuleMatcher,
+} from './insight-rule.interface';
+import { trafficInsight, trafficParams } from './traffic.rules';
+
+// South-west monsoon over Kerala, June to September (0-based UTC months)
+const MONSOON_MONTHS = [5, 6, 7, 8];
+
+/**
+ * Domain rule: traffic drops on Kerala pages during the monsoon are seasonal,
+ * so they get seasonal advice instead of the generic SEO audit
+ */
+@Injectable()
+@InsightRuleProvider()
+export class KeralaMonsoonRule implements InsightRule {
+  readonly name = 'kerala-monsoon-drop';
+  readonly priority = 10;
+  readonly matcher: InsightRuleMatcher = {
+    metrics: ['PageViews'],
+    direction: 'down',
+    when: (anomaly) =>
+      /kerala/i.test(anomaly.page) &&
+      MONSOON_MONTHS.includes(anomaly.timestamp.getUTCMonth()),
+  };
+
+  build({ anomaly, change }: InsightRuleInput): BusinessInsight {
+    const params = trafficParams({ anomaly, change });
+    return trafficInsight(
+      'Traffic Drop',
+      { anomaly, change },
+      {
+        insight: [
+          { key: 'traffic.drop.summary', params },
+          { key: 'traffic.drop.monsoon.insight' },
+        ],
+        action: [{ key: 'traffic.drop.monsoon.action' }],
+      },
+    );
+  }
+}
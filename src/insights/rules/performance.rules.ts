@@ -0,0 +1,114 @@
+import { Injectable } from '@nestjs/common';
+import { BusinessInsight, InsightText } from '../interfaces/insight.interface';
+import { InsightRuleProvider } from './insight-rule.decorator';
+import {
+  InsightRule,
+  InsightRuleInput,
+  InsightRuleMatcher,
+} from './insight-rule.interface';
+
+/**
+ * Load time degradation, confirmed when bounce rate rose with it
+ */
+@Injectable()
+@InsightRuleProvider()
+export class LoadTimeRule implements InsightRule {
+  readonly name = 'load-time';
+  readonly priority = 0;
+  readonly matcher: InsightRuleMatcher = {
+    metricTypes: ['Performance'],
+    metrics: ['Load Time'],
+  };
+
+  build({ anomaly, change, correlation }: InsightRuleInput): BusinessInsight {
+    const deviceType = anomaly.context?.deviceType || 'All devices';
+    const loadTimeSeconds = (anomaly.currentValue / 1000).toFixed(1);
+
+    const text: InsightText = {
+      insight: [
+        {
+          key: 'loadTime.summary',
+          params: {
+            device: anomaly.context?.deviceType || { key: 'value.allDevices' },
+            change,
+            value: loadTimeSeconds,
+          },
+        },
+      ],
+      action: [],
+    };
+
+    if (deviceType === 'Mobile') {
+      text.insight.push({ key: 'loadTime.mobile.insight' });
+      text.action.push({ key: 'loadTime.mobile.action' });
+    } else {
+      text.insight.push({ key: 'loadTime.other.insight' });
+      text.action.push({ key: 'loadTime.other.action' });
+    }
+
+    // Check for correlation with bounce rate
+    const bounceChange = correlation?.correlatedMetrics.find(
+      (m) => m.correlation === 'load_time_up_bounce_rate_up',
+    );
+    if (bounceChange) {
+      text.insight.push({
+        key: 'loadTime.bounceRateUp.insight',
+        params: { correlatedChange: `${bounceChange.change.toFixed(0)}%` },
+      });
+      text.action.push({ key: 'loadTime.bounceRateUp.action' });
+    }
+
+    return {
+      type: 'Performance Issue',
+      metric: 'Load Time',
+      page: anomaly.page,
+      change,
+      businessInsight: '', // rendered from text once the top insights are picked
+      suggestedAction: '',
+      impactScore: 0,
+      detectedAt: anomaly.timestamp.toISOString(),
+      text,
+      context: {
+        deviceType,
+        bounceRateIncrease: `${bounceChange?.change.toFixed(0)}%`,
+      },
+    };
+  }
+}
+
+@Injectable()
+@InsightRuleProvider()
+export class ErrorRateRule implements InsightRule {
+  readonly name = 'error-rate';
+  readonly priority = 0;
+  readonly matcher: InsightRuleMatcher = {
+    metricTypes: ['Performance'],
+    metrics: ['Error Rate'],
+  };
+
+  build({ anomaly, change }: InsightRuleInput): BusinessInsight {
+    const errorRate = anomaly.currentValue.toFixed(2);
+
+    return {
+      type: 'Performance Issue',
+      metric: 'Error Rate',
+      page: anomaly.page,
+      change,
+      businessInsight: '',
+      suggestedAction: '',
+      impactScore: 0,
+      detectedAt: anomaly.timestamp.toISOString(),
+      text: {
+        insight: [
+          { key: 'errorRate.summary', params: { change, value: errorRate } },
+          { key: 'errorRate.insight' },
+        ],
+        action: [{ key: 'errorRate.action' }],
+      },
+      context: {
+        deviceType: anomaly.context?.deviceType,
+        region: anomaly.context?.region,
+      },
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import { Injectable } from '@nestjs/common';
+import {
+  BusinessInsight,
+  InsightText,
+  TemplateParam,
+} from '../interfaces/insight.interface';
+import { InsightRuleProvider } from './insight-rule.decorator';
+import {
+  InsightRule,
+  InsightRuleInput,
+  InsightRuleMatcher,
+} from './insight-rule.interface';
+
+/**
+ * Traffic surge, explained by the referrer that drove it
+ */
+@Injectable()
+@InsightRuleProvider()
+export class TrafficSurgeRule implements InsightRule {
+  readonly name = 'traffic-surge';
+  readonly priority = 0;
+  readonly matcher: InsightRuleMatcher = {
+    metrics: ['PageViews'],
+    direction: 'up',
+  };
+
+  build({ anomaly, change, correlation }: InsightRuleInput): BusinessInsight {
+    const referrer = anomaly.context?.referrer || 'Unknown';
+    const params = trafficParams({ anomaly, change });
+    const text: InsightText = {
+      insight: [{ key: 'traffic.surge.summary', params }],
+      action: [],
+    };
+
+    if (referrer === 'Instagram') {
+      text.insight.push({ key: 'traffic.surge.instagram.insight', params });
+      text.action.push({ key: 'traffic.surge.instagram.action', params });
+    } else if (referrer === 'Google') {
+      text.insight.push({ key: 'traffic.surge.google.insight' });
+      text.action.push({ key: 'traffic.surge.google.action' });
+    } else {
+      text.insight.push({ key: 'traffic.surge.other.insight', params });
+      text.action.push({ key: 'traffic.surge.other.action' });
+    }
+
+    // Check for negative correlation (traffic up but conversions down)
+    if (
+      correlation?.correlatedMetrics.some(
+        (m) => m.correlation === 'traffic_up_conversions_down',
+      )
+    ) {
+      text.insight.push({ key: 'traffic.surge.conversionsDown.insight' });
+      text.action.push({ key: 'traffic.surge.conversionsDown.action' });
+    }
+
+    return trafficInsight('Traffic Surge', { anomaly, change }, text);
+  }
+}
+
+@Injectable()
+@InsightRuleProvider()
+export class TrafficDropRule implements InsightRule {
+  readonly name = 'traffic-drop';
+  readonly priority = 0;
+  readonly matcher: InsightRuleMatcher = {
+    metrics: ['PageViews'],
+    direction: 'down',
+  };
+
+  build({ anomaly, change }: InsightRuleInput): BusinessInsight {
+    const params = trafficParams({ anomaly, change });
+    return trafficInsight(
+      'Traffic Drop',
+      { anomaly, change },
+      {
+        insight: [
+          { key: 'traffic.drop.summary', params },
+          { key: 'traffic.drop.insight', params },
+        ],
+        action: [{ key: 'traffic.drop.action' }],
+      },
+    );
+  }
+}
+
+export function trafficParams({
+  anomaly,
+  change,
+}: InsightRuleInput): Record<string, TemplateParam> {
+  return {
+    page: anomaly.page,
+    change,
+    referrer: anomaly.context?.referrer || { key: 'value.unknown' },
+    region: anomaly.context?.region || { key: 'value.allRegions' },
+  };
+}
+
+export function trafficInsight(
+  type: string,
+  { anomaly, change }: InsightRuleInput,
+  text: InsightText,
+): BusinessInsight {
+  return {
+    type,
+    metric: 'PageViews',
+    page: anomaly.page,
+    change,
+    businessInsight: '', // rendered from text once the top insights are picked
+    suggestedAction: '',
+    impactScore: 0, // Will be calculated later
+    detectedAt: anomaly.timestamp.toISOString(),
+    text,
+    context: {
+      referrer: anomaly.context?.referrer || 'Unknown',
+      region: anomaly.context?.region || 'All regions',
+      deviceType: anomaly.context?.deviceType,
+    },
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Default (English) insight wording. Placeholders in braces are filled from the
+ * anomaly; tenants can override any key per locale via /api/insight-templates.
+ */
+export const EN_TEMPLATES = {
+  // Traffic
+  'traffic.surge.summary': 'Traffic surge of {change} detected on {page}.',
+  'traffic.drop.summary': 'Traffic drop of {change} detected on {page}.',
+  'traffic.surge.instagram.insight':
+    'Organic traffic spike from Instagram campaign — likely viral post engagement. Primary traffic from {region}.',
+  'traffic.surge.instagram.action':
+    'Increase ad spend for {region} audiences. Create follow-up content to maintain momentum.',
+  'traffic.surge.google.insight':
+    'Significant increase in organic search traffic. Page may have improved search ranking.',
+  'traffic.surge.google.action':
+    'Analyze SEO performance, ensure content quality, and consider increasing paid search budget.',
+  'traffic.surge.other.insight':
+    'Traffic increase from {referrer}. Monitor conversion rates to ensure quality traffic.',
+  'traffic.surge.other.action':
+    'Verify campaign performance and ensure sufficient inventory for increased demand.',
+  'traffic.surge.conversionsDown.insight':
+    'However, conversion rate has dropped, indicating potential UX or pricing issues.',
+  'traffic.surge.conversionsDown.action':
+    'Review pricing competitiveness and checkout flow.',
+  'traffic.drop.insight':
+    'Significant drop in traffic from {referrer}. Page may have lost visibility or interest has declined.',
+  'traffic.drop.action':
+    'Audit SEO performance, check for technical issues, and consider refreshing content or running paid campaigns.',
+  'traffic.drop.monsoon.insight':
+    'Kerala demand usually dips during the south-west monsoon (June to September), so the drop is likely seasonal rather than a site issue.',
+  'traffic.drop.monsoon.action':
+    'Promote monsoon-friendly experiences (Ayurveda retreats, houseboat stays, off-season pricing) and only investigate further if other destinations drop too.',
+
+  // Load time
+  'loadTime.summary':
+    'Performance degradation detected: {device} load time increased by {change} (now {value}s).',
+  'loadTime.mobile.insight':
+    'Mobile load time significantly increased. Images may be unoptimized affecting conversion.',
+  'loadTime.mobile.action':
+    'Optimize images for mobile (WebP format, lazy loading), check CDN performance, and review recent code deployments.',
+  'loadTime.other.insight':
+    'Load time increase may be impacting user experience and conversions.',
+  'loadTime.other.action':
+    'Check server performance, optimize assets, review CDN configuration, and investigate recent deployments.',
+  'loadTime.bounceRateUp.insight':
+    'Bounce rate increased by {correlatedChange} in correlation, confirming performance impact.',
+  'loadTime.bounceRateUp.action':
+    'Priority: Fix performance issues immediately to prevent further engagement loss.',
+
+  // Session duration
+  'sessionDuration.summary':
+    'Engagement drop detected: Average session duration decreased by {change} (now {value} minutes).',
+  'sessionDuration.checkout.insight':
+    'Users dropping off during checkout. Possible payment gateway issue or confusing checkout flow.',
+  'sessionDuration.checkout.action':
+    'Immediately verify the payment gateway integration, check error logs, and consider A/B testing a simplified checkout process.',
+  'sessionDuration.other.insight':
+    'Users spending less time on page. Content may not be engaging or page may have usability issues.',
+  'sessionDuration.other.action':
+    'Review page content, check for broken elements, improve CTAs, and analyze user flow.',
+
+  // Conversion rate
+  'conversion.summary': 'Conversion rate dropped by {change} (now {value}%).',
+  'conversion.trafficUp.insight':
+    'High traffic but low conversions. Possible pricing, availability, or trust issues.',
+  'conversion.trafficUp.action':
+    'Review package pricing competitiveness, ensure availability is shown correctly, and add more customer reviews/testimonials.',
+  'conversion.other.insight':
+    'Conversion rate decline may indicate pricing issues, lack of trust, or technical problems.',
+  'conversion.other.action':
+    'Review pricing strategy, add trust signals (reviews, badges), verify booking flow, and check for errors.',
+
+  // Bounce rate
+  'bounceRate.summary': 'Bounce rate increased by {change} (now {value}%).',
+  'bounceRate.insight':
+    'Users leaving page quickly may indicate content mismatch, slow load times, or poor user experience.',
+  'bounceRate.action':
+    'Improve page content relevance, optimize load times, enhance mobile experience, and review landing page design.',
+
+  // Error rate
+  'errorRate.summary': 'Error rate increased by {change} (now {value}%).',
+  'errorRate.insight':
+    'Increased error rate indicates technical issues that may be preventing bookings and damaging user trust.',
+  'errorRate.action':
+    'Immediately check server logs, verify API endpoints, test payment gateway, and review recent deployments. Consider rolling back if recent changes were made.',
+
+  // Bookings and revenue
+  'revenue.drop.summary':
+    'Revenue dropped by {change} on {page} (now {value} {currency} per hour).',
+  'revenue.drop.insight':
+    'Booking revenue for {package} is falling faster than expected. Fewer bookings, a shift to cheaper packages or a pricing change can all cause this.',
+  'revenue.drop.action':
+    'Compare booking counts and average booking value with the baseline, verify prices and availability for {package}, and check recent promotions and payment failures.',
+  'bookings.drop.summary':
+    'Bookings dropped by {change} on {page} (now {value} per hour).',
+  'bookings.drop.insight':
+    'Fewer visitors are completing bookings for {package}. Check whether traffic or conversion rate fell at the same time.',
+  'bookings.drop.action':
+    'Test the booking and payment flow end to end, confirm availability for {package}, and review competitor pricing.',
+  'cancellation.spike.summary':
+    'Cancellation rate rose by {change} on {page} (now {value}%).',
+  'cancellation.spike.insight':
+    'More travellers than usual are cancelling {package} bookings, which often points to a supplier, itinerary or pricing problem.',
+  'cancellation.spike.action':
+    'Review cancellation reasons and recent supplier or itinerary changes for {package}, and reach out to affected customers before refunds pile up.',
+
+  // Category rollups
+  'category.traffic.insight':
+    'All {category} packages {movement}{segment}. The shift spans the whole category rather than a single page, pointing to demand, seasonality or campaign changes.',
+  'category.traffic.surge.action':
+    'Check availability and pricing across {category} packages and extend the campaigns driving demand to the rest of the portfolio.',
+  'category.traffic.drop.action':
+    'Review seasonal demand, competitor pricing and campaign coverage for {category} packages; consider a category-wide promotion.',
+  'category.conversion.summary':
+    'Conversion rate across all {category} packages {movement}{segment} (now {value}%).',
+  'category.conversion.surge.insight':
+    'Bookings are improving portfolio-wide, not just on one page.',
+  'category.conversion.surge.action':
+    'Identify what changed for {category} (pricing, promotions, reviews) and apply it to similar categories.',
+  'category.conversion.drop.insight':
+    'Category-wide losses usually stem from pricing, availability or a shared booking-flow issue rather than page content.',
+  'category.conversion.drop.action':
+    'Compare {category} pricing with competitors, verify the availability and dates shown, and test the booking flow for these packages.',
+  'category.engagement.summary':
+    '{metric} across all {category} packages {movement}{segment}.',
+  'category.engagement.worse.insight':
+    'Visitors are losing interest across the category, suggesting content, pricing or audience mismatch.',
+  'category.engagement.worse.action':
+    'Review {category} listings for outdated content and pricing, and check which campaigns bring visitors to them.',
+  'category.engagement.better.insight':
+    'Visitors are engaging more with the whole category.',
+  'category.engagement.better.action':
+    'Make sure {category} packages have clear calls to action and enough availability to capture the interest.',
+  'category.performance.insight':
+    '{metric} across all {category} packages {movement}{segment}. A category-wide regression points to a shared template, asset or supplier integration rather than a single page.',
+  'category.performance.action':
+    'Check recent deployments of the {category} page template, shared images/CDN assets and supplier availability APIs.',
+
+  // Fragments used inside other templates
+  'movement.up': 'up {percent}%',
+  'movement.down': 'down {percent}%',
+  'segment.device': 'on {device}',
+  'segment.referrer': 'from {referrer}',
+  'segment.region': 'in {region}',
+  'value.allDevices': 'All devices',
+  'value.allRegions': 'All regions',
+  'value.allPackages': 'all packages',
+  'value.unknown': 'Unknown',
+  'metric.sessionDuration': 'Session Duration',
+  'metric.bounceRate': 'Bounce Rate',
+  'metric.loadTime': 'Load Time',
+  'metric.errorRate': 'Error Rate',
+} as const;
+
+export type InsightTemplateKey = keyof typeof EN_TEMPLATES;
@@ -0,0 +1,154 @@
+import { InsightTemplateKey } from './insight-templates.en';
+
+/**
+ * Hindi insight wording; every key of the English templates must be present
+ */
+export const HI_TEMPLATES: Record<InsightTemplateKey, string> = {
+  // Traffic
+  'traffic.surge.summary': '{page} पर ट्रैफ़िक में {change} का उछाल दर्ज हुआ।',
+  'traffic.drop.summary': '{page} पर ट्रैफ़िक में {change} की गिरावट दर्ज हुई।',
+  'traffic.surge.instagram.insight':
+    'Instagram अभियान से ऑर्गेनिक ट्रैफ़िक में तेज़ी — संभवतः किसी पोस्ट के वायरल होने से। अधिकतर ट्रैफ़िक {region} से है।',
+  'traffic.surge.instagram.action':
+    '{region} के दर्शकों के लिए विज्ञापन बजट बढ़ाएँ। गति बनाए रखने के लिए फ़ॉलो-अप कंटेंट बनाएँ।',
+  'traffic.surge.google.insight':
+    'ऑर्गेनिक सर्च ट्रैफ़िक में उल्लेखनीय वृद्धि। पेज की सर्च रैंकिंग बेहतर हुई हो सकती है।',
+  'traffic.surge.google.action':
+    'SEO प्रदर्शन का विश्लेषण करें, कंटेंट की गुणवत्ता सुनिश्चित करें और पेड सर्च बजट बढ़ाने पर विचार करें।',
+  'traffic.surge.other.insight':
+    '{referrer} से ट्रैफ़िक बढ़ा है। ट्रैफ़िक की गुणवत्ता जाँचने के लिए कन्वर्ज़न दर पर नज़र रखें।',
+  'traffic.surge.other.action':
+    'अभियान के प्रदर्शन की पुष्टि करें और बढ़ी हुई माँग के लिए पर्याप्त इन्वेंटरी सुनिश्चित करें।',
+  'traffic.surge.conversionsDown.insight':
+    'हालाँकि कन्वर्ज़न दर गिरी है, जो UX या मूल्य निर्धारण की समस्या का संकेत है।',
+  'traffic.surge.conversionsDown.action':
+    'कीमतों की प्रतिस्पर्धात्मकता और चेकआउट प्रक्रिया की समीक्षा करें।',
+  'traffic.drop.insight':
+    '{referrer} से ट्रैफ़िक में भारी गिरावट। पेज की दृश्यता कम हुई हो सकती है या रुचि घटी है।',
+  'traffic.drop.action':
+    'SEO प्रदर्शन का ऑडिट करें, तकनीकी समस्याएँ जाँचें और कंटेंट अपडेट करने या पेड अभियान चलाने पर विचार करें।',
+  'traffic.drop.monsoon.insight':
+    'दक्षिण-पश्चिम मानसून (जून से सितंबर) के दौरान केरल की माँग आमतौर पर घटती है, इसलिए यह गिरावट साइट की समस्या के बजाय मौसमी होने की संभावना है।',
+  'traffic.drop.monsoon.action':
+    'मानसून के अनुकूल अनुभवों (आयुर्वेद रिट्रीट, हाउसबोट प्रवास, ऑफ़-सीज़न कीमतें) का प्रचार करें और आगे की जाँच तभी करें जब अन्य गंतव्यों में भी गिरावट हो।',
+
+  // Load time
+  'loadTime.summary':
+    'प्रदर्शन में गिरावट: {device} पर लोड समय {change} बढ़ा (अब {value} सेकंड)।',
+  'loadTime.mobile.insight':
+    'मोबाइल पर लोड समय काफ़ी बढ़ गया है। अनुकूलित न की गई इमेज कन्वर्ज़न पर असर डाल रही हो सकती हैं।',
+  'loadTime.mobile.action':
+    'मोबाइल के लिए इमेज अनुकूलित करें (WebP फ़ॉर्मेट, लेज़ी लोडिंग), CDN प्रदर्शन जाँचें और हाल के कोड डिप्लॉयमेंट की समीक्षा करें।',
+  'loadTime.other.insight':
+    'बढ़ा हुआ लोड समय उपयोगकर्ता अनुभव और कन्वर्ज़न पर असर डाल रहा हो सकता है।',
+  'loadTime.other.action':
+    'सर्वर प्रदर्शन जाँचें, एसेट अनुकूलित करें, CDN कॉन्फ़िगरेशन की समीक्षा करें और हाल के डिप्लॉयमेंट की जाँच करें।',
+  'loadTime.bounceRateUp.insight':
+    'साथ ही बाउंस दर {correlatedChange} बढ़ी है, जो प्रदर्शन के असर की पुष्टि करती है।',
+  'loadTime.bounceRateUp.action':
+    'प्राथमिकता: एंगेजमेंट में और गिरावट रोकने के लिए प्रदर्शन समस्याएँ तुरंत ठीक करें।',
+
+  // Session duration
+  'sessionDuration.summary':
+    'एंगेजमेंट में गिरावट: औसत सत्र अवधि {change} घटी (अब {value} मिनट)।',
+  'sessionDuration.checkout.insight':
+    'उपयोगकर्ता चेकआउट के दौरान छोड़ रहे हैं। पेमेंट गेटवे में समस्या या उलझाने वाली चेकआउट प्रक्रिया संभव है।',
+  'sessionDuration.checkout.action':
+    'पेमेंट गेटवे इंटीग्रेशन की तुरंत जाँच करें, एरर लॉग देखें और सरल चेकआउट प्रक्रिया का A/B परीक्षण करने पर विचार करें।',
+  'sessionDuration.other.insight':
+    'उपयोगकर्ता पेज पर कम समय बिता रहे हैं। कंटेंट आकर्षक न हो या पेज में उपयोगिता संबंधी समस्याएँ हो सकती हैं।',
+  'sessionDuration.other.action':
+    'पेज कंटेंट की समीक्षा करें, टूटे हुए तत्व जाँचें, CTA बेहतर करें और उपयोगकर्ता प्रवाह का विश्लेषण करें।',
+
+  // Conversion rate
+  'conversion.summary': 'कन्वर्ज़न दर {change} गिरी (अब {value}%)।',
+  'conversion.trafficUp.insight':
+    'ट्रैफ़िक अधिक लेकिन कन्वर्ज़न कम। कीमत, उपलब्धता या भरोसे से जुड़ी समस्या संभव है।',
+  'conversion.trafficUp.action':
+    'पैकेज की कीमतों की प्रतिस्पर्धात्मकता जाँचें, उपलब्धता सही दिखाई जा रही है यह सुनिश्चित करें और अधिक ग्राहक समीक्षाएँ/प्रशंसापत्र जोड़ें।',
+  'conversion.other.insight':
+    'कन्वर्ज़न दर में गिरावट कीमत, भरोसे की कमी या तकनीकी समस्याओं का संकेत हो सकती है।',
+  'conversion.other.action':
+    'मूल्य निर्धारण रणनीति की समीक्षा करें, भरोसे के संकेत (समीक्षाएँ, बैज) जोड़ें, बुकिंग प्रक्रिया जाँचें और एरर देखें।',
+
+  // Bounce rate
+  'bounceRate.summary': 'बाउंस दर {change} बढ़ी (अब {value}%)।',
+  'bounceRate.insight':
+    'उपयोगकर्ताओं का जल्दी पेज छोड़ना कंटेंट के बेमेल, धीमे लोड समय या खराब उपयोगकर्ता अनुभव का संकेत हो सकता है।',
+  'bounceRate.action':
+    'पेज कंटेंट की प्रासंगिकता सुधारें, लोड समय अनुकूलित करें, मोबाइल अनुभव बेहतर करें और लैंडिंग पेज डिज़ाइन की समीक्षा करें।',
+
+  // Error rate
+  'errorRate.summary': 'एरर दर {change} बढ़ी (अब {value}%)।',
+  'errorRate.insight':
+    'बढ़ी हुई एरर दर तकनीकी समस्याओं का संकेत है, जो बुकिंग रोक रही हो सकती हैं और उपयोगकर्ताओं का भरोसा घटा रही हैं।',
+  'errorRate.action':
+    'तुरंत सर्वर लॉग जाँचें, API एंडपॉइंट सत्यापित करें, पेमेंट गेटवे का परीक्षण करें और हाल के डिप्लॉयमेंट की समीक्षा करें। हाल में बदलाव हुए हों तो रोलबैक पर विचार करें।',
+
+  // Bookings and revenue
+  'revenue.drop.summary':
+    '{page} पर राजस्व में {change} की गिरावट (अब प्रति घंटा {value} {currency})।',
+  'revenue.drop.insight':
+    '{package} का बुकिंग राजस्व अपेक्षा से तेज़ी से घट रहा है। कम बुकिंग, सस्ते पैकेज की ओर झुकाव या कीमतों में बदलाव इसकी वजह हो सकते हैं।',
+  'revenue.drop.action':
+    'बुकिंग संख्या और औसत बुकिंग मूल्य की तुलना बेसलाइन से करें, {package} की कीमतें और उपलब्धता जाँचें, और हाल के प्रमोशन व भुगतान विफलताओं की समीक्षा करें।',
+  'bookings.drop.summary':
+    '{page} पर बुकिंग में {change} की गिरावट (अब प्रति घंटा {value})।',
+  'bookings.drop.insight':
+    '{package} के लिए कम विज़िटर बुकिंग पूरी कर रहे हैं। जाँचें कि क्या उसी समय ट्रैफ़िक या कन्वर्ज़न दर भी गिरी है।',
+  'bookings.drop.action':
+    'बुकिंग और भुगतान प्रक्रिया को शुरू से अंत तक जाँचें, {package} की उपलब्धता की पुष्टि करें और प्रतिस्पर्धियों की कीमतों की समीक्षा करें।',
+  'cancellation.spike.summary':
+    '{page} पर रद्दीकरण दर में {change} की वृद्धि (अब {value}%)।',
+  'cancellation.spike.insight':
+    'सामान्य से अधिक यात्री {package} की बुकिंग रद्द कर रहे हैं, जो अक्सर सप्लायर, यात्रा-कार्यक्रम या कीमत की समस्या का संकेत होता है।',
+  'cancellation.spike.action':
+    '{package} के रद्दीकरण के कारणों और सप्लायर या यात्रा-कार्यक्रम में हाल के बदलावों की समीक्षा करें, और रिफ़ंड बढ़ने से पहले प्रभावित ग्राहकों से संपर्क करें।',
+
+  // Category rollups
+  'category.traffic.insight':
+    'सभी {category} पैकेज{segment} {movement}। यह बदलाव किसी एक पेज के बजाय पूरी श्रेणी में है, जो माँग, मौसम या अभियान में बदलाव की ओर इशारा करता है।',
+  'category.traffic.surge.action':
+    'सभी {category} पैकेजों की उपलब्धता और कीमतें जाँचें और माँग बढ़ाने वाले अभियानों को बाकी पोर्टफ़ोलियो तक बढ़ाएँ।',
+  'category.traffic.drop.action':
+    '{category} पैकेजों के लिए मौसमी माँग, प्रतिस्पर्धी कीमतों और अभियान कवरेज की समीक्षा करें; पूरी श्रेणी के लिए प्रमोशन पर विचार करें।',
+  'category.conversion.summary':
+    'सभी {category} पैकेजों की कन्वर्ज़न दर{segment} {movement} (अब {value}%)।',
+  'category.conversion.surge.insight':
+    'बुकिंग केवल एक पेज पर नहीं, पूरे पोर्टफ़ोलियो में बेहतर हो रही है।',
+  'category.conversion.surge.action':
+    'पता करें कि {category} के लिए क्या बदला (कीमत, प्रमोशन, समीक्षाएँ) और उसे मिलती-जुलती श्रेणियों पर लागू करें।',
+  'category.conversion.drop.insight':
+    'पूरी श्रेणी में गिरावट आमतौर पर पेज कंटेंट के बजाय कीमत, उपलब्धता या साझा बुकिंग प्रक्रिया की समस्या से होती है।',
+  'category.conversion.drop.action':
+    '{category} की कीमतों की प्रतिस्पर्धियों से तुलना करें, दिखाई गई उपलब्धता और तारीखें जाँचें और इन पैकेजों की बुकिंग प्रक्रिया का परीक्षण करें।',
+  'category.engagement.summary':
+    'सभी {category} पैकेजों में {metric}{segment} {movement}।',
+  'category.engagement.worse.insight':
+    'पूरी श्रेणी में आगंतुकों की रुचि घट रही है, जो कंटेंट, कीमत या दर्शकों के बेमेल का संकेत है।',
+  'category.engagement.worse.action':
+    'पुराने कंटेंट और कीमतों के लिए {category} लिस्टिंग की समीक्षा करें और देखें कि कौन-से अभियान आगंतुक ला रहे हैं।',
+  'category.engagement.better.insight':
+    'आगंतुक पूरी श्रेणी में अधिक एंगेज हो रहे हैं।',
+  'category.engagement.better.action':
+    'सुनिश्चित करें कि {category} पैकेजों में स्पष्ट CTA और रुचि का लाभ उठाने के लिए पर्याप्त उपलब्धता हो।',
+  'category.performance.insight':
+    'सभी {category} पैकेजों में {metric}{segment} {movement}। पूरी श्रेणी में गिरावट किसी एक पेज के बजाय साझा टेम्पलेट, एसेट या सप्लायर इंटीग्रेशन की ओर इशारा करती है।',
+  'category.performance.action':
+    '{category} पेज टेम्पलेट के हाल के डिप्लॉयमेंट, साझा इमेज/CDN एसेट और सप्लायर उपलब्धता API जाँचें।',
+
+  // Fragments used inside other templates
+  'movement.up': '{percent}% बढ़े',
+  'movement.down': '{percent}% घटे',
+  'segment.device': '{device} पर',
+  'segment.referrer': '{referrer} से',
+  'segment.region': '{region} में',
+  'value.allDevices': 'सभी डिवाइस',
+  'value.allRegions': 'सभी क्षेत्र',
+  'value.allPackages': 'सभी पैकेज',
+  'value.unknown': 'अज्ञात',
+  'metric.sessionDuration': 'सत्र अवधि',
+  'metric.bounceRate': 'बाउंस दर',
+  'metric.loadTime': 'लोड समय',
+  'metric.errorRate': 'एरर दर',
+};
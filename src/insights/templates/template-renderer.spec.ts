@@ -0,0 +1,53 @@
+import {
+  DEFAULT_TEMPLATES,
+  negotiateLocale,
+  renderInsightText,
+  templatePlaceholders,
+} from './template-renderer';
+import { EN_TEMPLATES } from './insight-templates.en';
+import { TemplateParam } from '../interfaces/insight.interface';
+
+describe('template renderer', () => {
+  const lookup = (locale: 'en' | 'hi') => (key: keyof typeof EN_TEMPLATES) =>
+    DEFAULT_TEMPLATES[locale][key];
+
+  it('renders nested fragments and segment lists', () => {
+    const params: Record<string, TemplateParam> = {
+      category: 'Beach',
+      movement: { key: 'movement.down', params: { percent: '30' } },
+      segment: [
+        { key: 'segment.device', params: { device: 'mobile' } },
+        { key: 'segment.region', params: { region: 'Goa' } },
+      ],
+    };
+    const text = renderInsightText(
+      {
+        insight: [{ key: 'category.traffic.insight', params }],
+        action: [{ key: 'category.traffic.drop.action', params }],
+      },
+      lookup('en'),
+    );
+
+    expect(text.businessInsight).toMatch(
+      /^All Beach packages down 30% on mobile in Goa\. The shift/,
+    );
+    expect(text.suggestedAction).toContain('for Beach packages');
+  });
+
+  it('negotiates the best supported locale from Accept-Language', () => {
+    expect(negotiateLocale('hi-IN,hi;q=0.9,en;q=0.8')).toBe('hi');
+    expect(negotiateLocale('fr-FR,en;q=0.5,hi;q=0.7')).toBe('hi');
+    expect(negotiateLocale('hi;q=0,fr')).toBe('en');
+    expect(negotiateLocale(undefined)).toBe('en');
+  });
+
+  it('keeps translations to the placeholders of the English templates', () => {
+    for (const [key, template] of Object.entries(DEFAULT_TEMPLATES.hi)) {
+      expect(templatePlaceholders(template).sort()).toEqual(
+        templatePlaceholders(
+          EN_TEMPLATES[key as keyof typeof EN_TEMPLATES],
+        ).sort(),
+      );
+    }
+  });
+});
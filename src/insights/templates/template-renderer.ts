@@ -0,0 +1,102 @@
+import {
+  InsightText,
+  TemplateParam,
+  TemplateRef,
+} from '../interfaces/insight.interface';
+import { EN_TEMPLATES, InsightTemplateKey } from './insight-templates.en';
+import { HI_TEMPLATES } from './insight-templates.hi';
+
+export const SUPPORTED_LOCALES = ['en', 'hi'] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+export const DEFAULT_TEMPLATES: Record<
+  Locale,
+  Record<InsightTemplateKey, string>
+> = {
+  en: EN_TEMPLATES,
+  hi: HI_TEMPLATES,
+};
+
+/**
+ * Template text for a key in one locale (tenant override or built-in default)
+ */
+export type TemplateLookup = (key: InsightTemplateKey) => string;
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export function isTemplateKey(key: string): key is InsightTemplateKey {
+  return Object.hasOwn(EN_TEMPLATES, key);
+}
+
+export function isSupportedLocale(locale: string): locale is Locale {
+  return (SUPPORTED_LOCALES as readonly string[]).includes(locale);
+}
+
+/**
+ * Placeholder names used by a template, e.g. ["page", "change"]
+ */
+export function templatePlaceholders(template: string): string[] {
+  return [...template.matchAll(PLACEHOLDER)].map((match) => match[1]);
+}
+
+/**
+ * Fill a template's placeholders; unknown placeholders are left as written
+ */
+export function renderTemplate(
+  ref: TemplateRef,
+  lookup: TemplateLookup,
+): string {
+  return lookup(ref.key).replace(PLACEHOLDER, (match, name: string) => {
+    const value = ref.params?.[name];
+    return value === undefined ? match : renderParam(value, lookup);
+  });
+}
+
+/**
+ * Narrative and suggested action of an insight, each part separated by a space
+ */
+export function renderInsightText(
+  text: InsightText,
+  lookup: TemplateLookup,
+): { businessInsight: string; suggestedAction: string } {
+  const render = (parts: TemplateRef[]) =>
+    parts.map((part) => renderTemplate(part, lookup)).join(' ');
+  return {
+    businessInsight: render(text.insight),
+    suggestedAction: render(text.action),
+  };
+}
+
+/**
+ * Best supported locale for an Accept-Language header ("hi-IN,hi;q=0.9,en;q=0.8"),
+ * matching on the primary language subtag
+ */
+export function negotiateLocale(acceptLanguage?: string): Locale {
+  const ranges = (acceptLanguage ?? '')
+    .split(',')
+    .map((range) => {
+      const [tag, ...params] = range.trim().split(';');
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith('q='));
+      return {
+        language: tag.split('-')[0].toLowerCase(),
+        quality: q ? Number(q.slice(2)) : 1,
+      };
+    })
+    .filter((range) => range.language && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  const match = ranges.find((range) => isSupportedLocale(range.language));
+  return match ? (match.language as Locale) : DEFAULT_LOCALE;
+}
+
+// A list renders as its parts, each preceded by a space (e.g. " on mobile in Goa")
+function renderParam(value: TemplateParam, lookup: TemplateLookup): string {
+  if (Array.isArray(value)) {
+    return value.map((ref) => ` ${renderTemplate(ref, lookup)}`).join('');
+  }
+  if (typeof value === 'object') return renderTemplate(value, lookup);
+  return String(value);
+}
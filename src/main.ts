@@ -1,12 +1,20 @@
+import { ValidationPipe } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { AppModule } from './app.module';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+  // Parse bracketed query keys such as filter[deviceType]=Mobile into objects
+  app.set('query parser', 'extended');
 
   // Set global prefix for all routes
   app.setGlobalPrefix('api');
 
+  // Validate and transform query/body DTOs
+  app.useGlobalPipes(new ValidationPipe({ transform: true, whitelist: true }));
+
   const port = Number(process.env.PORT) ?? 3000;
   await app.listen(port).then(() => {
     console.log(`Server is running on http://localhost:${port}`);
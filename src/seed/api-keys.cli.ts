@@ -0,0 +1,94 @@
+import { Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { parseArgs } from 'util';
+import { PrismaModule } from 'prisma/prisma.module';
+import { AuthModule } from '../auth/auth.module';
+import { ApiKeysService } from '../auth/api-keys.service';
+import { isApiKeyRole } from '../auth/auth.constants';
+import { DEFAULT_TENANT_ID, loadTenantIds } from '../tenants/tenant.constants';
+
+/**
+ * Only what key management needs: booting AppModule would also start the
+ * detection and digest schedulers in this process
+ */
+@Module({ imports: [PrismaModule, AuthModule] })
+class ApiKeysCliModule {}
+
+const USAGE = [
+  'Usage: yarn api-keys create --name <name> --role <viewer|analyst|admin> [--tenant <id>]',
+  '       yarn api-keys list [--tenant <id>]',
+  '       yarn api-keys revoke <id>',
+].join('\n');
+
+async function bootstrap() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      name: { type: 'string' },
+      role: { type: 'string' },
+      tenant: { type: 'string' },
+    },
+  });
+
+  const [command, id] = positionals;
+  const tenantId = values.tenant?.trim().toLowerCase();
+
+  if (tenantId && !loadTenantIds().includes(tenantId)) {
+    console.error(
+      `Unknown tenant ${tenantId}; expected one of ${loadTenantIds().join(', ')}`,
+    );
+    process.exit(1);
+  }
+  if (
+    (command === 'create' && (!values.name || !isApiKeyRole(values.role))) ||
+    (command === 'revoke' && !Number.isInteger(Number(id))) ||
+    !['create', 'list', 'revoke'].includes(command)
+  ) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(ApiKeysCliModule);
+  const apiKeys = app.get(ApiKeysService);
+
+  try {
+    if (command === 'create' && values.name && isApiKeyRole(values.role)) {
+      const { apiKey, key } = await apiKeys.create(
+        tenantId ?? DEFAULT_TENANT_ID,
+        values.name,
+        values.role,
+      );
+      console.log(
+        `Created ${apiKey.role} key ${apiKey.id} "${apiKey.name}" for tenant ${apiKey.tenantId}`,
+      );
+      console.log('Store it now, it cannot be shown again:');
+      console.log(key);
+    } else if (command === 'list') {
+      for (const apiKey of await apiKeys.findAll(tenantId)) {
+        console.log(
+          [
+            apiKey.id,
+            apiKey.tenantId,
+            apiKey.role,
+            `${apiKey.keyPrefix}...`,
+            apiKey.revokedAt
+              ? `revoked ${apiKey.revokedAt.toISOString()}`
+              : `last used ${apiKey.lastUsedAt?.toISOString() ?? 'never'}`,
+            apiKey.name,
+          ].join('\t'),
+        );
+      }
+    } else {
+      const apiKey = await apiKeys.revoke(Number(id));
+      console.log(`Revoked key ${apiKey.id} "${apiKey.name}"`);
+    }
+    await app.close();
+    process.exit(0);
+  } catch (error) {
+    console.error(`api-keys ${command} failed:`, error);
+    await app.close();
+    process.exit(1);
+  }
+}
+
+void bootstrap();
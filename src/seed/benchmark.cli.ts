@@ -0,0 +1,290 @@
+import { Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { Prisma } from '@prisma/client';
+import { parseArgs } from 'util';
+import { PrismaModule } from 'prisma/prisma.module';
+import { PrismaService } from 'prisma/prisma.service';
+import { AnalyticsModule } from '../analytics/analytics.module';
+import { AnomalyDetectorService } from '../analytics/anomaly-detector.service';
+import { DetectionWindow } from '../analytics/interfaces/detection-window.interface';
+import { MetricSource } from '../analytics/metrics/metric-definitions';
+import { metricSeriesSql } from '../analytics/metrics/metric-series';
+import { loadTenantIds } from '../tenants/tenant.constants';
+
+/**
+ * Only what detection needs: booting AppModule would also start the
+ * detection and digest schedulers in this process
+ */
+@Module({ imports: [PrismaModule, AnalyticsModule] })
+class BenchmarkCliModule {}
+
+const HOUR_MS = 60 * 60 * 1000;
+/**
+ * The dataset lives in its own tenant so real metrics are never touched
+ */
+const BENCHMARK_TENANT_ID = 'benchmark';
+const BENCHMARK_SOURCES: MetricSource[] = [
+  'pageviews',
+  'useractions',
+  'performance',
+];
+const PAGE_PREFIX = '/bench-';
+const INSERT_CHUNK_SIZE = 5000;
+
+const USAGE =
+  'Usage: yarn benchmark:detection [--pages <n>] [--hours <n>] [--keep]';
+
+const DEVICES = ['Mobile', 'Desktop'];
+const REFERRERS = ['Google', 'Instagram'];
+const REGIONS = ['South India', 'North India'];
+
+/**
+ * Insert `pages` synthetic pages with `hours` of hourly rows in the pageview,
+ * user action and performance tables of the benchmark tenant (8
+ * device/referrer/region combinations per page-hour)
+ */
+async function generateDataset(
+  prisma: PrismaService,
+  pages: number,
+  hours: number,
+  asOf: Date,
+): Promise<void> {
+  const pageViews: Prisma.PageViewsHourlyCreateManyInput[] = [];
+  const userActions: Prisma.UserActionsHourlyCreateManyInput[] = [];
+  const performanceRows: Prisma.PerformanceHourlyCreateManyInput[] = [];
+
+  // Insert in chunks as pages are generated to keep memory flat
+  const flush = async () => {
+    await prisma.pageViewsHourly.createMany({ data: pageViews.splice(0) });
+    await prisma.userActionsHourly.createMany({ data: userActions.splice(0) });
+    await prisma.performanceHourly.createMany({
+      data: performanceRows.splice(0),
+    });
+  };
+
+  for (let p = 0; p < pages; p++) {
+    const page = `${PAGE_PREFIX}${p}`;
+    const pageCategory = `Bench ${p % 10}`;
+
+    for (let h = hours; h >= 1; h--) {
+      const timestamp = new Date(asOf.getTime() - h * HOUR_MS);
+      // Every 50th page spikes in the last hour
+      const spike = h === 1 && p % 50 === 0 ? 4 : 1;
+
+      for (const deviceType of DEVICES) {
+        for (const region of REGIONS) {
+          for (const referrer of REFERRERS) {
+            pageViews.push({
+              tenantId: BENCHMARK_TENANT_ID,
+              timestamp,
+              page,
+              pageCategory,
+              viewCount: Math.round((40 + Math.random() * 20) * spike),
+              referrer,
+              deviceType,
+              region,
+            });
+            userActions.push({
+              tenantId: BENCHMARK_TENANT_ID,
+              timestamp,
+              page,
+              pageCategory,
+              avgSessionDuration: 150 + Math.random() * 60,
+              bounceRate: 35 + Math.random() * 10,
+              conversionRate: 3 + Math.random(),
+              conversionCount: Math.round(Math.random() * 5),
+              sessionCount: 40 + Math.round(Math.random() * 20),
+              deviceType,
+              referrer,
+              region,
+            });
+          }
+          performanceRows.push({
+            tenantId: BENCHMARK_TENANT_ID,
+            timestamp,
+            page,
+            pageCategory,
+            avgLoadTime: 1800 + Math.random() * 400,
+            errorRate: 0.5 + Math.random() * 0.5,
+            sampleCount: 80 + Math.round(Math.random() * 40),
+            deviceType,
+            region,
+          });
+        }
+      }
+    }
+
+    if (pageViews.length >= INSERT_CHUNK_SIZE) await flush();
+  }
+  await flush();
+}
+
+async function removeDataset(prisma: PrismaService): Promise<void> {
+  const where = { tenantId: BENCHMARK_TENANT_ID };
+  await prisma.pageViewsHourly.deleteMany({ where });
+  await prisma.userActionsHourly.deleteMany({ where });
+  await prisma.performanceHourly.deleteMany({ where });
+}
+
+/**
+ * Query pattern of the previous per-page detector: history and recent rows
+ * fetched separately for every page and metric (2 + 6 + 4 queries per page)
+ */
+async function perPageQueries(
+  prisma: PrismaService,
+  window: DetectionWindow,
+): Promise<number> {
+  const tenantId = BENCHMARK_TENANT_ID;
+  const history = { gte: window.baselineStart, lt: window.baselineEnd };
+  const recent = { gte: window.recentStart, lt: window.asOf };
+  let queries = 1;
+
+  const pages = await prisma.pageViewsHourly.findMany({
+    where: { tenantId },
+    select: { page: true },
+    distinct: ['page'],
+  });
+
+  for (const { page } of pages) {
+    await prisma.pageViewsHourly.findMany({
+      where: { tenantId, page, timestamp: history },
+      orderBy: { timestamp: 'asc' },
+    });
+    await prisma.pageViewsHourly.findMany({
+      where: { tenantId, page, timestamp: recent },
+    });
+    for (let metric = 0; metric < 3; metric++) {
+      await prisma.userActionsHourly.findMany({
+        where: { tenantId, page, timestamp: history },
+        orderBy: { timestamp: 'asc' },
+      });
+      await prisma.userActionsHourly.findMany({
+        where: { tenantId, page, timestamp: recent },
+      });
+    }
+    for (let metric = 0; metric < 2; metric++) {
+      await prisma.performanceHourly.findMany({
+        where: { tenantId, page, timestamp: history },
+        orderBy: { timestamp: 'asc' },
+      });
+      await prisma.performanceHourly.findMany({
+        where: { tenantId, page, timestamp: recent },
+      });
+    }
+    queries += 12;
+  }
+
+  return queries;
+}
+
+/**
+ * Data loading of set-based detection over the same tables: the grouped
+ * query AnomalyDetectorService.detectAnomalies issues per table
+ */
+async function setBasedQueries(
+  prisma: PrismaService,
+  window: DetectionWindow,
+): Promise<number> {
+  for (const source of BENCHMARK_SOURCES) {
+    await prisma.$queryRaw(
+      metricSeriesSql({
+        tenantId: BENCHMARK_TENANT_ID,
+        source,
+        groupBy: ['page'],
+        from: window.baselineStart,
+        to: window.asOf,
+        describe: ['deviceType', 'referrer', 'region', 'package', 'currency'],
+      }),
+    );
+  }
+  return BENCHMARK_SOURCES.length;
+}
+
+async function time<T>(run: () => Promise<T>): Promise<[T, number]> {
+  const started = performance.now();
+  const result = await run();
+  return [result, performance.now() - started];
+}
+
+async function bootstrap() {
+  const { values } = parseArgs({
+    options: {
+      pages: { type: 'string', default: '2000' },
+      hours: { type: 'string', default: '30' },
+      keep: { type: 'boolean', default: false },
+    },
+  });
+
+  const pages = Number(values.pages);
+  const hours = Number(values.hours);
+  if (!Number.isInteger(pages) || pages < 1) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (!Number.isInteger(hours) || hours < 2) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  if (loadTenantIds().includes(BENCHMARK_TENANT_ID)) {
+    console.error(
+      `Tenant ${BENCHMARK_TENANT_ID} is configured in TENANTS; the benchmark would overwrite its data`,
+    );
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(BenchmarkCliModule);
+  const prisma = app.get(PrismaService);
+  const detector = app.get(AnomalyDetectorService);
+  let exitCode = 1;
+
+  try {
+    const asOf = new Date();
+    asOf.setMinutes(0, 0, 0);
+    const window = detector.resolveWindow({
+      asOf,
+      recentHours: 1,
+      baselineHours: hours - 1,
+    });
+
+    await removeDataset(prisma);
+    console.log(`Generating ${pages} pages x ${hours} hours...`);
+    const [, generateMs] = await time(() =>
+      generateDataset(prisma, pages, hours, asOf),
+    );
+    console.log(`Generated in ${(generateMs / 1000).toFixed(1)}s`);
+
+    // Both sides time data loading only, over the same tables and rows
+    const [perPageCount, perPageMs] = await time(() =>
+      perPageQueries(prisma, window),
+    );
+    console.log(
+      `Per-page loading (previous detector): ${perPageCount} queries in ${(perPageMs / 1000).toFixed(2)}s`,
+    );
+    const [setBasedCount, setBasedMs] = await time(() =>
+      setBasedQueries(prisma, window),
+    );
+    console.log(
+      `Set-based loading: ${setBasedCount} queries in ${(setBasedMs / 1000).toFixed(2)}s`,
+    );
+    console.log(`Loading speedup: ${(perPageMs / setBasedMs).toFixed(1)}x`);
+
+    const [anomalies, detectionMs] = await time(() =>
+      detector.detectAnomalies(BENCHMARK_TENANT_ID, window),
+    );
+    console.log(
+      `Full set-based detection (loading + scoring): ${anomalies.length} anomalies in ${(detectionMs / 1000).toFixed(2)}s`,
+    );
+    exitCode = 0;
+  } catch (error) {
+    console.error('Benchmark failed:', error);
+  } finally {
+    if (!values.keep) {
+      await removeDataset(prisma);
+    }
+    await app.close();
+  }
+  process.exit(exitCode);
+}
+
+void bootstrap();
@@ -0,0 +1,96 @@
+import { Module } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { createReadStream } from 'fs';
+import { parseArgs } from 'util';
+import { PrismaModule } from 'prisma/prisma.module';
+import { IngestModule } from '../ingest/ingest.module';
+import { MetricsImportService } from '../ingest/metrics-import.service';
+import { inferImportFormat } from '../ingest/import/record-readers';
+import {
+  ImportFormat,
+  ImportModel,
+} from '../ingest/interfaces/import.interface';
+import { DEFAULT_TENANT_ID, loadTenantIds } from '../tenants/tenant.constants';
+
+/**
+ * Only what the import needs: booting AppModule would also start the
+ * detection and digest schedulers in this process
+ */
+@Module({ imports: [PrismaModule, IngestModule] })
+class ImportCliModule {}
+
+const MODELS: ImportModel[] = [
+  'pageviews',
+  'useractions',
+  'performance',
+  'bookings',
+];
+const FORMATS: ImportFormat[] = ['csv', 'ndjson'];
+
+const USAGE =
+  'Usage: yarn import:metrics <file> --model <pageviews|useractions|performance|bookings> [--format <csv|ndjson>] [--tenant <id>] [--dry-run]';
+
+async function bootstrap() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      model: { type: 'string' },
+      format: { type: 'string' },
+      tenant: { type: 'string', default: DEFAULT_TENANT_ID },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  const file = positionals[0];
+  const model = values.model as ImportModel | undefined;
+  const format =
+    (values.format as ImportFormat | undefined) ??
+    (file ? inferImportFormat(file) : null);
+  const tenantId = values.tenant ?? DEFAULT_TENANT_ID;
+
+  if (!file || !model || !MODELS.includes(model)) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+  if (!format || !FORMATS.includes(format)) {
+    console.error('Could not infer the file format, pass --format');
+    process.exit(1);
+  }
+  if (!loadTenantIds().includes(tenantId)) {
+    console.error(
+      `Unknown tenant ${tenantId}; expected one of ${loadTenantIds().join(', ')}`,
+    );
+    process.exit(1);
+  }
+
+  const app = await NestFactory.createApplicationContext(ImportCliModule);
+  const importService = app.get(MetricsImportService);
+
+  try {
+    const report = await importService.importStream(createReadStream(file), {
+      tenantId,
+      model,
+      format,
+      dryRun: values['dry-run'] ?? false,
+    });
+
+    for (const rowError of report.errors) {
+      console.error(`Line ${rowError.line}: ${rowError.errors.join('; ')}`);
+    }
+    if (report.errorsTruncated) {
+      console.error('... further row errors omitted');
+    }
+
+    console.log(
+      `${report.dryRun ? 'Dry run' : 'Import'} completed: ${report.importedRows}/${report.totalRows} rows ${report.dryRun ? 'valid' : 'imported'}, ${report.failedRows} failed`,
+    );
+    await app.close();
+    process.exit(report.failedRows > 0 ? 2 : 0);
+  } catch (error) {
+    console.error('Import failed:', error);
+    await app.close();
+    process.exit(1);
+  }
+}
+
+void bootstrap();
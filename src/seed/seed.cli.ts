@@ -1,11 +1,20 @@
+import { Module } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
-import { AppModule } from '../app.module';
+import { PrismaModule } from 'prisma/prisma.module';
+import { SeedModule } from './seed.module';
 import { SeedService } from './seed.service';
 
+/**
+ * Only what seeding needs: booting AppModule would also start the
+ * detection and digest schedulers in this process
+ */
+@Module({ imports: [PrismaModule, SeedModule] })
+class SeedCliModule {}
+
 async function bootstrap() {
-  const app = await NestFactory.createApplicationContext(AppModule);
+  const app = await NestFactory.createApplicationContext(SeedCliModule);
   const seedService = app.get(SeedService);
-  
+
   try {
     await seedService.seedDatabase();
     console.log('Seed completed successfully!');
@@ -16,5 +25,4 @@ async function bootstrap() {
   }
 }
 
-bootstrap();
-
+void bootstrap();
@@ -1,21 +1,25 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from 'prisma/prisma.service';
+import { DEFAULT_TENANT_ID } from '../tenants/tenant.constants';
 
 @Injectable()
 export class SeedService {
   constructor(private prisma: PrismaService) {}
 
   /**
-   * Generate 48 hours of mock data with 2-3 intentional anomalies
+   * Generate 48 hours of mock data with 2-3 intentional anomalies for the
+   * default tenant
    */
   async seedDatabase(): Promise<void> {
     console.log('Starting database seed...');
 
-    // Clear existing data
-    await this.prisma.businessInsight.deleteMany();
-    await this.prisma.performanceHourly.deleteMany();
-    await this.prisma.userActionsHourly.deleteMany();
-    await this.prisma.pageViewsHourly.deleteMany();
+    // Clear existing data; other tenants' data is left alone
+    const where = { tenantId: DEFAULT_TENANT_ID };
+    await this.prisma.businessInsight.deleteMany({ where });
+    await this.prisma.bookingsHourly.deleteMany({ where });
+    await this.prisma.performanceHourly.deleteMany({ where });
+    await this.prisma.userActionsHourly.deleteMany({ where });
+    await this.prisma.pageViewsHourly.deleteMany({ where });
 
     const pages = [
       { path: '/coorg-adventure-trek', category: 'Adventure' },
@@ -144,10 +148,44 @@ export class SeedService {
                     region,
                   },
                 });
+
+                // Conversions are bookings of the page's package
+                let bookingValue = this.getRandomInt(15000, 25000); // INR
+                let cancellationRate = this.getRandomInt(2, 8); // percentage
+
+                // Anomaly 5: Revenue drop on goa-beach-resort (cheaper bookings, recent 6 hours)
+                if (page.path === '/goa-beach-resort' && i <= 5 && i >= 3) {
+                  bookingValue = Math.round(bookingValue * 0.4); // -60% decrease
+                }
+
+                // Anomaly 6: Cancellation spike on andaman-diving (recent 6 hours)
+                if (page.path === '/andaman-diving' && i <= 4 && i >= 2) {
+                  cancellationRate = cancellationRate * 5; // +400% increase
+                }
+
+                await this.prisma.bookingsHourly.create({
+                  data: {
+                    timestamp,
+                    page: page.path,
+                    pageCategory: page.category,
+                    package: page.path.slice(1),
+                    currency: 'INR',
+                    bookingCount: conversionCount,
+                    cancellationCount: Math.round(
+                      (conversionCount * cancellationRate) / 100,
+                    ),
+                    revenue: conversionCount * bookingValue,
+                    cancellationRate,
+                    deviceType: device,
+                    referrer,
+                    region,
+                  },
+                });
               }
 
-              // Create performance record (every 3rd combination)
-              if (j % 3 === 0 && k % 2 === 0) {
+              // Create performance record (one referrer per page/device/region
+              // bucket, since performance is not tracked per referrer)
+              if (j === 0 && k % 2 === 0) {
                 await this.prisma.performanceHourly.create({
                   data: {
                     timestamp,
@@ -166,6 +204,25 @@ export class SeedService {
       }
     }
 
+    // Default funnel from package pages through checkout to booking
+    await this.prisma.funnel.deleteMany({ where });
+    await this.prisma.funnel.create({
+      data: {
+        name: 'Package page to booking',
+        steps: [
+          {
+            name: 'Package page',
+            metric: 'pageviews',
+            pageCategories: [...new Set(pages.map((p) => p.category))].filter(
+              (category) => category !== 'Checkout',
+            ),
+          },
+          { name: 'Checkout', metric: 'pageviews', pages: ['/checkout'] },
+          { name: 'Booking', metric: 'conversions', pages: ['/checkout'] },
+        ],
+      },
+    });
+
     console.log('Database seed completed!');
   }
 
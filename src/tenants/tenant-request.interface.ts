@@ -0,0 +1,5 @@
+import type { Request } from 'express';
+
+export interface TenantRequest extends Request {
+  tenantId: string; // set by TenantMiddleware
+}
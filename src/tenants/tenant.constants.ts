@@ -0,0 +1,21 @@
+/**
+ * Request header naming the tenant (brand) a request acts for
+ */
+export const TENANT_HEADER = 'x-tenant-id';
+export const DEFAULT_TENANT_ID = 'default';
+
+export const TENANT_ID_PATTERN = /^[a-z0-9][a-z0-9-]{0,62}$/;
+
+/**
+ * Known tenants from TENANTS (comma-separated ids, e.g.
+ * "default,international,agents"). The default tenant always exists and
+ * comes first; malformed ids are ignored.
+ */
+export function loadTenantIds(env: NodeJS.ProcessEnv = process.env): string[] {
+  const ids = (env.TENANTS ?? '')
+    .split(',')
+    .map((id) => id.trim().toLowerCase())
+    .filter((id) => TENANT_ID_PATTERN.test(id));
+
+  return [...new Set([DEFAULT_TENANT_ID, ...ids])];
+}
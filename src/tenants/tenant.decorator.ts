@@ -0,0 +1,12 @@
+import { ExecutionContext, createParamDecorator } from '@nestjs/common';
+import { TenantRequest } from './tenant-request.interface';
+import { DEFAULT_TENANT_ID } from './tenant.constants';
+
+/**
+ * Id of the tenant the request was resolved to
+ */
+export const TenantId = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): string =>
+    context.switchToHttp().getRequest<TenantRequest>().tenantId ??
+    DEFAULT_TENANT_ID,
+);
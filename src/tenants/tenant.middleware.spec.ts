@@ -0,0 +1,44 @@
+import { BadRequestException } from '@nestjs/common';
+import type { Response } from 'express';
+import { TenantMiddleware } from './tenant.middleware';
+import { TenantRequest } from './tenant-request.interface';
+
+describe('TenantMiddleware', () => {
+  const request = (tenant?: string) =>
+    ({
+      header: (name: string) => (name === 'x-tenant-id' ? tenant : undefined),
+    }) as unknown as TenantRequest;
+
+  let middleware: TenantMiddleware;
+
+  beforeAll(() => {
+    process.env.TENANTS = 'international, Agents,not a tenant!';
+    middleware = new TenantMiddleware();
+  });
+
+  afterAll(() => {
+    delete process.env.TENANTS;
+  });
+
+  it('resolves the header to a configured tenant, defaulting when absent', () => {
+    const next = jest.fn();
+    const agents = request(' AGENTS ');
+    const anonymous = request();
+
+    middleware.use(agents, {} as Response, next);
+    middleware.use(anonymous, {} as Response, next);
+
+    expect(agents.tenantId).toBe('agents');
+    expect(anonymous.tenantId).toBe('default');
+    expect(next).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects tenants that are not configured', () => {
+    const next = jest.fn();
+
+    expect(() =>
+      middleware.use(request('not a tenant!'), {} as Response, next),
+    ).toThrow(new BadRequestException('Unknown tenant'));
+    expect(next).not.toHaveBeenCalled();
+  });
+});
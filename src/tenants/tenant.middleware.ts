@@ -0,0 +1,33 @@
+import {
+  BadRequestException,
+  Injectable,
+  NestMiddleware,
+} from '@nestjs/common';
+import type { NextFunction, Response } from 'express';
+import { TenantRequest } from './tenant-request.interface';
+import {
+  DEFAULT_TENANT_ID,
+  TENANT_HEADER,
+  loadTenantIds,
+} from './tenant.constants';
+
+/**
+ * Resolve the tenant of every request from the X-Tenant-Id header (the
+ * default tenant when absent) before guards, interceptors and handlers run
+ */
+@Injectable()
+export class TenantMiddleware implements NestMiddleware {
+  private readonly tenantIds = loadTenantIds();
+
+  use(request: TenantRequest, _response: Response, next: NextFunction): void {
+    const tenantId =
+      request.header(TENANT_HEADER)?.trim().toLowerCase() || DEFAULT_TENANT_ID;
+    // Runs before authentication: never reveal which tenants exist
+    if (!this.tenantIds.includes(tenantId)) {
+      throw new BadRequestException('Unknown tenant');
+    }
+
+    request.tenantId = tenantId;
+    next();
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUrl,
+  Max,
+  MaxLength,
+  Min,
+  MinLength,
+} from 'class-validator';
+import { ALERT_RULE_METRICS } from '../../alert-rules/alert-rule.constants';
+import type { AlertRuleMetric } from '../../alert-rules/alert-rule.constants';
+import { WEBHOOK_FORMATS } from '../webhook.constants';
+import type { WebhookFormat } from '../webhook.constants';
+
+export class CreateWebhookDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  url: string;
+
+  /**
+   * HMAC-SHA256 key for the X-Webhook-Signature header
+   */
+  @IsOptional()
+  @IsString()
+  @MinLength(16)
+  secret?: string;
+
+  /**
+   * json (signed insight payload), slack or teams (incoming-webhook messages)
+   */
+  @IsOptional()
+  @IsIn(WEBHOOK_FORMATS)
+  format?: WebhookFormat;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  minImpactScore?: number;
+
+  /**
+   * Only notify for these metrics; empty or omitted means every metric
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(ALERT_RULE_METRICS.length)
+  @IsIn(ALERT_RULE_METRICS, { each: true })
+  metrics?: AlertRuleMetric[];
+
+  /**
+   * Only notify for these pages (e.g. "/checkout" or "category:Kerala");
+   * empty or omitted means every page
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @IsString({ each: true })
+  pages?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+}
@@ -0,0 +1,17 @@
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { WEBHOOK_DELIVERY_STATUSES } from '../webhook.constants';
+import type { WebhookDeliveryStatus } from '../webhook.constants';
+
+export class WebhookDeliveryQueryDto {
+  @IsOptional()
+  @IsIn(WEBHOOK_DELIVERY_STATUSES)
+  status?: WebhookDeliveryStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit?: number;
+}
@@ -0,0 +1,18 @@
+import { WebhookSubscription } from '@prisma/client';
+import { BusinessInsight } from '../../insights/interfaces/insight.interface';
+
+/**
+ * Subscription as returned by the API: the signing secret is never exposed
+ */
+export type PublicWebhookSubscription = Omit<WebhookSubscription, 'secret'> & {
+  hasSecret: boolean;
+};
+
+/**
+ * A stored insight, as announced to subscribers. `previousImpactScore` (its
+ * peak score before this sighting) is set when an existing insight escalated.
+ */
+export interface NotifiedInsight extends BusinessInsight {
+  id: number;
+  previousImpactScore?: number;
+}
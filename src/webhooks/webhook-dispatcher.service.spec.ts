@@ -0,0 +1,151 @@
+import { PrismaService } from 'prisma/prisma.service';
+import { signWebhookPayload } from './webhook-payloads';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+
+describe('WebhookDispatcherService', () => {
+  const subscription = {
+    id: 1,
+    tenantId: 'default',
+    url: 'https://hooks.example.com/insights',
+    secret: 'a-sufficiently-long-secret',
+    format: 'json',
+    minImpactScore: 60,
+    metrics: ['Conversion Rate'],
+    pages: [],
+    enabled: true,
+  };
+  const insight = {
+    id: 42,
+    type: 'Conversion Drop',
+    metric: 'Conversion Rate',
+    page: '/checkout',
+    change: '-45%',
+    businessInsight: 'Checkout conversion fell sharply.',
+    suggestedAction: 'Check the payment gateway.',
+    impactScore: 81,
+    detectedAt: '2025-11-19T07:00:00.000Z',
+  };
+
+  const fetchMock = jest.fn();
+  const update = jest.fn((args: { data: object }) =>
+    Promise.resolve({ id: 9, ...args.data }),
+  );
+  const create = jest.fn((args: { data: object }) =>
+    Promise.resolve({ id: 9, attempts: 0, ...args.data }),
+  );
+  const findPending = jest.fn();
+  let dispatcher: WebhookDispatcherService;
+
+  beforeAll(() => {
+    process.env.WEBHOOK_BACKOFF_MS = '1';
+    global.fetch = fetchMock;
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    update.mockClear();
+    create.mockClear();
+    findPending.mockReset();
+    dispatcher = new WebhookDispatcherService({
+      webhookSubscription: {
+        findMany: jest.fn().mockResolvedValue([subscription]),
+      },
+      webhookDelivery: { create, update, findMany: findPending },
+    } as unknown as PrismaService);
+  });
+
+  afterAll(() => {
+    delete process.env.WEBHOOK_BACKOFF_MS;
+  });
+
+  const settled = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+  it('signs the payload and retries server errors until delivered', async () => {
+    fetchMock
+      .mockResolvedValueOnce({ ok: false, status: 503 })
+      .mockResolvedValueOnce({ ok: true, status: 200 });
+
+    await dispatcher.notify('default', [insight]);
+    await settled();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    const [, request] = fetchMock.mock.calls[1] as [
+      string,
+      { headers: Record<string, string>; body: string },
+    ];
+    expect(request.headers['X-Webhook-Signature']).toBe(
+      signWebhookPayload(
+        subscription.secret,
+        request.headers['X-Webhook-Timestamp'],
+        request.body,
+      ),
+    );
+    expect(JSON.parse(request.body)).toMatchObject({
+      event: 'insight.created',
+      insight: { id: 42 },
+    });
+    expect(update.mock.calls.at(-1)?.[0].data).toMatchObject({
+      status: 'delivered',
+      attempts: 2,
+    });
+  });
+
+  it('does not retry client errors', async () => {
+    fetchMock.mockResolvedValue({ ok: false, status: 410 });
+
+    await dispatcher.notify('default', [insight]);
+    await settled();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(update.mock.calls.at(-1)?.[0].data).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+    });
+  });
+
+  it('skips insights below the threshold or outside the filters', async () => {
+    await dispatcher.notify('default', [
+      { ...insight, impactScore: 40 },
+      { ...insight, metric: 'PageViews' },
+    ]);
+
+    expect(create).not.toHaveBeenCalled();
+  });
+
+  it('announces escalations that reach the threshold or rise far enough', async () => {
+    fetchMock.mockResolvedValue({ ok: true, status: 200 });
+
+    await dispatcher.notify('default', [
+      { ...insight, previousImpactScore: 45 },
+      { ...insight, id: 43, previousImpactScore: 62, impactScore: 72 },
+      { ...insight, id: 44, previousImpactScore: 75 },
+    ]);
+    await settled();
+
+    expect(create.mock.calls.map(([args]) => args.data)).toEqual([
+      expect.objectContaining({ insightId: 42, event: 'insight.escalated' }),
+      expect.objectContaining({ insightId: 43, event: 'insight.escalated' }),
+    ]);
+  });
+
+  it('resumes pending deliveries with their remaining attempts', async () => {
+    findPending.mockResolvedValue([
+      {
+        id: 7,
+        payload: { event: 'insight.created', insight: { id: 42 } },
+        attempts: 4,
+        subscription,
+      },
+    ]);
+    fetchMock.mockResolvedValue({ ok: false, status: 503 });
+
+    await expect(dispatcher.resumePending()).resolves.toBe(1);
+    await settled();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(update.mock.calls.at(-1)?.[0]).toMatchObject({
+      where: { id: 7 },
+      data: { status: 'failed', attempts: 5 },
+    });
+  });
+});
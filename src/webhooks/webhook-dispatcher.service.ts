@@ -0,0 +1,241 @@
+import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { Prisma, WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { NotifiedInsight } from './interfaces/webhook.interface';
+import { buildWebhookPayload, signWebhookPayload } from './webhook-payloads';
+import {
+  DELIVERY_HEADER,
+  ESCALATION_MIN_RISE,
+  loadWebhookDeliveryConfig,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WEBHOOK_EVENTS,
+  WebhookFormat,
+} from './webhook.constants';
+
+@Injectable()
+export class WebhookDispatcherService implements OnApplicationBootstrap {
+  private readonly config = loadWebhookDeliveryConfig();
+
+  constructor(private prisma: PrismaService) {}
+
+  /**
+   * Resume deliveries left pending by a previous process (stopped between
+   * retries or before the first attempt) with their remaining attempts
+   */
+  onApplicationBootstrap(): void {
+    this.resumePending().catch((error) =>
+      console.error('Failed to resume pending webhook deliveries:', error),
+    );
+  }
+
+  /**
+   * Queue a delivery to every enabled subscription of the tenant whose filters
+   * and impact threshold an insight meets: new insights as insight.created,
+   * escalated ones (previousImpactScore set) as insight.escalated when they
+   * newly reach the threshold or rose by ESCALATION_MIN_RISE. Deliveries are
+   * logged before this returns; sending and retrying continue in the
+   * background.
+   */
+  async notify(tenantId: string, insights: NotifiedInsight[]): Promise<void> {
+    if (insights.length === 0) return;
+
+    const subscriptions = await this.prisma.webhookSubscription.findMany({
+      where: { tenantId, enabled: true },
+    });
+
+    for (const insight of insights) {
+      for (const subscription of subscriptions) {
+        if (!this.matches(subscription, insight)) continue;
+
+        const delivery = await this.createDelivery(
+          subscription,
+          insight.previousImpactScore === undefined
+            ? WEBHOOK_EVENTS.insightCreated
+            : WEBHOOK_EVENTS.insightEscalated,
+          insight,
+        );
+        this.deliverInBackground(delivery, subscription);
+      }
+    }
+  }
+
+  async resumePending(): Promise<number> {
+    const deliveries = await this.prisma.webhookDelivery.findMany({
+      where: {
+        status: 'pending',
+        event: { not: WEBHOOK_EVENTS.test },
+        attempts: { lt: this.config.maxAttempts },
+        subscription: { enabled: true },
+      },
+      include: { subscription: true },
+      orderBy: { id: 'asc' },
+    });
+
+    for (const { subscription, ...delivery } of deliveries) {
+      this.deliverInBackground(delivery, subscription);
+    }
+    return deliveries.length;
+  }
+
+  /**
+   * Send a sample insight once, without retries, and return the logged result
+   */
+  async sendTest(subscription: WebhookSubscription): Promise<WebhookDelivery> {
+    const delivery = await this.createDelivery(
+      subscription,
+      WEBHOOK_EVENTS.test,
+      {
+        id: 0,
+        type: 'Traffic Surge',
+        metric: 'PageViews',
+        page: '/webhook-test',
+        change: '+120%',
+        businessInsight: 'Test notification: page views doubled.',
+        suggestedAction: 'No action needed, this is a test.',
+        impactScore: 75,
+        detectedAt: new Date().toISOString(),
+      },
+    );
+    return this.deliver(delivery, subscription, 1);
+  }
+
+  private matches(
+    subscription: WebhookSubscription,
+    insight: NotifiedInsight,
+  ): boolean {
+    const previous = insight.previousImpactScore;
+    const escalated =
+      previous === undefined ||
+      previous < subscription.minImpactScore ||
+      insight.impactScore - previous >= ESCALATION_MIN_RISE;
+
+    return (
+      insight.impactScore >= subscription.minImpactScore &&
+      escalated &&
+      (subscription.metrics.length === 0 ||
+        subscription.metrics.includes(insight.metric)) &&
+      (subscription.pages.length === 0 ||
+        subscription.pages.includes(insight.page))
+    );
+  }
+
+  private async createDelivery(
+    subscription: WebhookSubscription,
+    event: string,
+    insight: NotifiedInsight,
+  ): Promise<WebhookDelivery> {
+    const payload = buildWebhookPayload(
+      subscription.format as WebhookFormat,
+      event,
+      insight,
+    );
+    return this.prisma.webhookDelivery.create({
+      data: {
+        tenantId: subscription.tenantId,
+        subscriptionId: subscription.id,
+        insightId: event === WEBHOOK_EVENTS.test ? null : insight.id,
+        event,
+        payload: payload as Prisma.InputJsonObject,
+      },
+    });
+  }
+
+  private deliverInBackground(
+    delivery: WebhookDelivery,
+    subscription: WebhookSubscription,
+  ): void {
+    this.deliver(delivery, subscription, this.config.maxAttempts).catch(
+      (error) =>
+        console.error(`Webhook delivery ${delivery.id} failed:`, error),
+    );
+  }
+
+  /**
+   * POST the payload, retrying network errors, timeouts, 408, 429 and 5xx with
+   * exponential backoff, and record every attempt on the delivery. Attempts
+   * already logged on the delivery count towards maxAttempts.
+   */
+  private async deliver(
+    delivery: WebhookDelivery,
+    subscription: WebhookSubscription,
+    maxAttempts: number,
+  ): Promise<WebhookDelivery> {
+    const body = JSON.stringify(delivery.payload);
+
+    for (let attempt = delivery.attempts + 1; ; attempt++) {
+      const { responseStatus, error } = await this.post(
+        subscription,
+        delivery.id,
+        body,
+      );
+      const delivered =
+        responseStatus !== null &&
+        responseStatus >= 200 &&
+        responseStatus < 300;
+      const retryable =
+        !delivered &&
+        (responseStatus === null ||
+          responseStatus === 408 ||
+          responseStatus === 429 ||
+          responseStatus >= 500);
+      const finished = delivered || !retryable || attempt >= maxAttempts;
+
+      const updated = await this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: {
+          attempts: attempt,
+          responseStatus,
+          error,
+          status: delivered ? 'delivered' : finished ? 'failed' : 'pending',
+          deliveredAt: delivered ? new Date() : null,
+        },
+      });
+      if (finished) return updated;
+
+      await sleep(this.config.backoffMs * 2 ** (attempt - 1));
+    }
+  }
+
+  private async post(
+    subscription: WebhookSubscription,
+    deliveryId: number,
+    body: string,
+  ): Promise<{ responseStatus: number | null; error: string | null }> {
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      [DELIVERY_HEADER]: String(deliveryId),
+      [TIMESTAMP_HEADER]: timestamp,
+    };
+    if (subscription.secret) {
+      headers[SIGNATURE_HEADER] = signWebhookPayload(
+        subscription.secret,
+        timestamp,
+        body,
+      );
+    }
+
+    try {
+      const response = await fetch(subscription.url, {
+        method: 'POST',
+        headers,
+        body,
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+      });
+      return {
+        responseStatus: response.status,
+        error: response.ok ? null : `HTTP ${response.status}`,
+      };
+    } catch (error) {
+      return {
+        responseStatus: null,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,98 @@
+import { createHmac } from 'crypto';
+import { NotifiedInsight } from './interfaces/webhook.interface';
+import { WebhookFormat } from './webhook.constants';
+
+/**
+ * Body for a subscription's format: the insight as JSON, or a Slack / Microsoft
+ * Teams incoming-webhook message summarising it
+ */
+export function buildWebhookPayload(
+  format: WebhookFormat,
+  event: string,
+  insight: NotifiedInsight,
+): Record<string, unknown> {
+  switch (format) {
+    case 'json':
+      // Template parts are internal; subscribers get the rendered text
+      return { event, insight: { ...insight, text: undefined } };
+    case 'slack':
+      return slackMessage(insight);
+    case 'teams':
+      return teamsMessage(insight);
+  }
+}
+
+/**
+ * `sha256=<hex>` HMAC of `<timestamp>.<body>`, so receivers can reject both
+ * tampered and replayed requests
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+function headline(insight: NotifiedInsight): string {
+  const prefix = insight.previousImpactScore === undefined ? '' : 'Escalated: ';
+  return `${prefix}${insight.type} on ${insight.page} (${insight.change}, impact ${impact(insight)})`;
+}
+
+/**
+ * The impact score, with the previous peak for escalations (e.g. "45 → 81")
+ */
+function impact(insight: NotifiedInsight): string {
+  return insight.previousImpactScore === undefined
+    ? String(insight.impactScore)
+    : `${insight.previousImpactScore} → ${insight.impactScore}`;
+}
+
+function slackMessage(insight: NotifiedInsight): Record<string, unknown> {
+  return {
+    text: headline(insight),
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${insight.type}* on \`${insight.page}\`: ${insight.metric} ${insight.change} (impact ${impact(insight)})\n${insight.businessInsight}`,
+        },
+      },
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `Suggested action: ${insight.suggestedAction}`,
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function teamsMessage(insight: NotifiedInsight): Record<string, unknown> {
+  return {
+    '@type': 'MessageCard',
+    '@context': 'https://schema.org/extensions',
+    summary: headline(insight),
+    themeColor: insight.impactScore >= 70 ? 'D93F0B' : 'FBCA04',
+    title: `${insight.type} on ${insight.page}`,
+    text: insight.businessInsight,
+    sections: [
+      {
+        facts: [
+          { name: 'Metric', value: insight.metric },
+          { name: 'Change', value: insight.change },
+          { name: 'Impact score', value: impact(insight) },
+          { name: 'Detected at', value: insight.detectedAt },
+          { name: 'Suggested action', value: insight.suggestedAction },
+        ],
+      },
+    ],
+  };
+}
@@ -0,0 +1,68 @@
+export const WEBHOOK_FORMATS = ['json', 'slack', 'teams'] as const;
+
+export const WEBHOOK_DELIVERY_STATUSES = [
+  'pending',
+  'delivered',
+  'failed',
+] as const;
+
+export type WebhookFormat = (typeof WEBHOOK_FORMATS)[number];
+export type WebhookDeliveryStatus = (typeof WEBHOOK_DELIVERY_STATUSES)[number];
+
+export const WEBHOOK_EVENTS = {
+  insightCreated: 'insight.created',
+  insightEscalated: 'insight.escalated',
+  test: 'webhook.test',
+} as const;
+
+/**
+ * Rise over an insight's peak impact score that is announced again to
+ * subscriptions it already qualified for
+ */
+export const ESCALATION_MIN_RISE = 10;
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const DELIVERY_HEADER = 'X-Webhook-Delivery';
+
+export interface WebhookDeliveryConfig {
+  maxAttempts: number;
+  backoffMs: number; // delay before the first retry, doubled for each further one
+  timeoutMs: number;
+}
+
+export const DEFAULT_WEBHOOK_DELIVERY_CONFIG: WebhookDeliveryConfig = {
+  maxAttempts: 5,
+  backoffMs: 1000,
+  timeoutMs: 10_000,
+};
+
+/**
+ * Delivery settings from WEBHOOK_MAX_ATTEMPTS, WEBHOOK_BACKOFF_MS and
+ * WEBHOOK_TIMEOUT_MS
+ */
+export function loadWebhookDeliveryConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): WebhookDeliveryConfig {
+  const positive = (value: string | undefined, fallback: number) => {
+    const parsed = Number(value);
+    return value !== undefined && Number.isInteger(parsed) && parsed > 0
+      ? parsed
+      : fallback;
+  };
+
+  return {
+    maxAttempts: positive(
+      env.WEBHOOK_MAX_ATTEMPTS,
+      DEFAULT_WEBHOOK_DELIVERY_CONFIG.maxAttempts,
+    ),
+    backoffMs: positive(
+      env.WEBHOOK_BACKOFF_MS,
+      DEFAULT_WEBHOOK_DELIVERY_CONFIG.backoffMs,
+    ),
+    timeoutMs: positive(
+      env.WEBHOOK_TIMEOUT_MS,
+      DEFAULT_WEBHOOK_DELIVERY_CONFIG.timeoutMs,
+    ),
+  };
+}
@@ -0,0 +1,92 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { WebhookDelivery } from '@prisma/client';
+import { WebhooksService } from './webhooks.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { WebhookDeliveryQueryDto } from './dto/webhook-delivery-query.dto';
+import { PublicWebhookSubscription } from './interfaces/webhook.interface';
+import { TenantId } from '../tenants/tenant.decorator';
+import { RequireRole } from '../auth/roles.decorator';
+
+/**
+ * Admin only, reads included: subscription URLs of Slack and Teams incoming
+ * webhooks are credentials
+ */
+@Controller('webhooks')
+@RequireRole('admin')
+export class WebhooksController {
+  constructor(private readonly webhooksService: WebhooksService) {}
+
+  @Post()
+  async create(
+    @TenantId() tenantId: string,
+    @Body() dto: CreateWebhookDto,
+  ): Promise<PublicWebhookSubscription> {
+    return this.webhooksService.create(tenantId, dto);
+  }
+
+  @Get()
+  async findAll(
+    @TenantId() tenantId: string,
+  ): Promise<PublicWebhookSubscription[]> {
+    return this.webhooksService.findAll(tenantId);
+  }
+
+  @Get(':id')
+  async findOne(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PublicWebhookSubscription> {
+    return this.webhooksService.findOne(tenantId, id);
+  }
+
+  @Patch(':id')
+  async update(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateWebhookDto,
+  ): Promise<PublicWebhookSubscription> {
+    return this.webhooksService.update(tenantId, id, dto);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<void> {
+    await this.webhooksService.remove(tenantId, id);
+  }
+
+  @Get(':id/deliveries')
+  async findDeliveries(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: WebhookDeliveryQueryDto,
+  ): Promise<WebhookDelivery[]> {
+    return this.webhooksService.findDeliveries(tenantId, id, query);
+  }
+
+  /**
+   * Send a sample insight in the subscription's format (single attempt)
+   */
+  @Post(':id/test')
+  async sendTest(
+    @TenantId() tenantId: string,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<WebhookDelivery> {
+    return this.webhooksService.sendTest(tenantId, id);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { WebhooksController } from './webhooks.controller';
+import { WebhooksService } from './webhooks.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+
+@Module({
+  controllers: [WebhooksController],
+  providers: [WebhooksService, WebhookDispatcherService],
+  exports: [WebhookDispatcherService],
+})
+export class WebhooksModule {}
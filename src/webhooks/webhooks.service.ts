@@ -0,0 +1,101 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import { PrismaService } from 'prisma/prisma.service';
+import { CreateWebhookDto } from './dto/create-webhook.dto';
+import { UpdateWebhookDto } from './dto/update-webhook.dto';
+import { WebhookDeliveryQueryDto } from './dto/webhook-delivery-query.dto';
+import { PublicWebhookSubscription } from './interfaces/webhook.interface';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+
+@Injectable()
+export class WebhooksService {
+  constructor(
+    private prisma: PrismaService,
+    private dispatcher: WebhookDispatcherService,
+  ) {}
+
+  async create(
+    tenantId: string,
+    dto: CreateWebhookDto,
+  ): Promise<PublicWebhookSubscription> {
+    return toPublic(
+      await this.prisma.webhookSubscription.create({
+        data: { ...dto, tenantId },
+      }),
+    );
+  }
+
+  async findAll(tenantId: string): Promise<PublicWebhookSubscription[]> {
+    const subscriptions = await this.prisma.webhookSubscription.findMany({
+      where: { tenantId },
+      orderBy: { id: 'asc' },
+    });
+    return subscriptions.map(toPublic);
+  }
+
+  async findOne(
+    tenantId: string,
+    id: number,
+  ): Promise<PublicWebhookSubscription> {
+    return toPublic(await this.findSubscription(tenantId, id));
+  }
+
+  async update(
+    tenantId: string,
+    id: number,
+    dto: UpdateWebhookDto,
+  ): Promise<PublicWebhookSubscription> {
+    await this.findSubscription(tenantId, id);
+    return toPublic(
+      await this.prisma.webhookSubscription.update({
+        where: { id },
+        data: dto,
+      }),
+    );
+  }
+
+  async remove(tenantId: string, id: number): Promise<void> {
+    await this.findSubscription(tenantId, id);
+    await this.prisma.webhookSubscription.delete({ where: { id } });
+  }
+
+  /**
+   * Delivery log of a subscription, newest first
+   */
+  async findDeliveries(
+    tenantId: string,
+    id: number,
+    query: WebhookDeliveryQueryDto = {},
+  ): Promise<WebhookDelivery[]> {
+    await this.findSubscription(tenantId, id);
+    return this.prisma.webhookDelivery.findMany({
+      where: { subscriptionId: id, status: query.status },
+      orderBy: { createdAt: 'desc' },
+      take: query.limit ?? 50,
+    });
+  }
+
+  async sendTest(tenantId: string, id: number): Promise<WebhookDelivery> {
+    return this.dispatcher.sendTest(await this.findSubscription(tenantId, id));
+  }
+
+  private async findSubscription(
+    tenantId: string,
+    id: number,
+  ): Promise<WebhookSubscription> {
+    const subscription = await this.prisma.webhookSubscription.findFirst({
+      where: { id, tenantId },
+    });
+    if (!subscription) {
+      throw new NotFoundException(`Webhook ${id} not found`);
+    }
+    return subscription;
+  }
+}
+
+function toPublic({
+  secret,
+  ...subscription
+}: WebhookSubscription): PublicWebhookSubscription {
+  return { ...subscription, hasSecret: secret !== null };
+}